@@ -0,0 +1,186 @@
+import { readFileSync } from 'node:fs'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+// Mock process.exit
+const mockExit = vi.spyOn(process, 'exit').mockImplementation(() => {
+  throw new Error('process.exit called')
+})
+
+// Mock console methods
+const mockLog = vi.spyOn(console, 'log').mockImplementation(() => {})
+vi.spyOn(console, 'error').mockImplementation(() => {})
+
+// Mock ora spinner
+vi.mock('ora', () => ({
+  default: vi.fn(() => ({
+    start: vi.fn().mockReturnThis(),
+    stop: vi.fn().mockReturnThis(),
+    fail: vi.fn().mockReturnThis(),
+    warn: vi.fn().mockReturnThis(),
+    text: ''
+  }))
+}))
+
+// Answers to prompts, in order
+const answers: string[] = []
+
+vi.mock('node:readline', () => ({
+  createInterface: vi.fn(() => ({
+    question: vi.fn((_prompt: string, callback: (answer: string) => void) => {
+      callback(answers.shift() ?? 'n')
+    }),
+    close: vi.fn()
+  }))
+}))
+
+// Mock AI module
+vi.mock('../lib/ai.js', () => ({
+  generateHunkDescriptions: vi.fn(() =>
+    Promise.resolve({ 'src/app.ts#1': 'Add a greeting', 'src/app.ts#2': 'Log the user' })
+  ),
+  findTemplate: vi.fn(() => null)
+}))
+
+// Mock credentials
+vi.mock('../lib/credentials.js', () => ({
+  resolveProvider: vi.fn(() => Promise.resolve('gemini')),
+  PROVIDERS: ['gemini', 'openai', 'anthropic', 'ollama']
+}))
+
+// Mock config
+vi.mock('../lib/config.js', () => ({
+  getBaseUrl: vi.fn(() => undefined),
+  getLanguage: vi.fn(() => 'en'),
+  getCommandConfig: vi.fn(() => ({})),
+  getProviderProfileNames: vi.fn(() => [])
+}))
+
+// Mock the commit command the staged changes are handed off to
+vi.mock('./commit.js', () => ({
+  commitCommand: { parseAsync: vi.fn(() => Promise.resolve()) }
+}))
+
+const diff = [
+  'diff --git a/src/app.ts b/src/app.ts\n--- a/src/app.ts\n+++ b/src/app.ts\n',
+  "@@ -1 +1 @@\n-hi\n+hello\n@@ -10 +10,2 @@\n foo\n+console.log('user', user)\n"
+].join('')
+
+// Mock simple-git
+const mockGit = {
+  checkIsRepo: vi.fn(() => Promise.resolve(true)),
+  revparse: vi.fn(() => Promise.resolve('/test/repo')),
+  add: vi.fn(() => Promise.resolve()),
+  diff: vi.fn(() => Promise.resolve(diff)),
+  raw: vi.fn((_args: string[]) => Promise.resolve(''))
+}
+
+vi.mock('simple-git', () => ({
+  simpleGit: vi.fn(() => mockGit)
+}))
+
+import { generateHunkDescriptions } from '../lib/ai.js'
+import { getCommandConfig } from '../lib/config.js'
+import { resolveProvider } from '../lib/credentials.js'
+import { addCommand } from './add.js'
+import { commitCommand } from './commit.js'
+
+describe('addCommand', () => {
+  // Patches staged with git apply
+  let patches: string[]
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    answers.length = 0
+    patches = []
+    mockGit.checkIsRepo.mockResolvedValue(true)
+    mockGit.diff.mockResolvedValue(diff)
+    mockGit.raw.mockImplementation(async (args: string[]) => {
+      if (args[0] === 'apply') patches.push(readFileSync(args[2], 'utf-8'))
+      return ''
+    })
+  })
+
+  afterEach(() => {
+    addCommand.setOptionValue('interactive', undefined)
+  })
+
+  it('should stage the hunks picked one by one', async () => {
+    answers.push('n', 'y', 'n')
+
+    await addCommand.parseAsync(['-i'], { from: 'user' })
+
+    expect(mockGit.diff).toHaveBeenCalledWith(['--binary'])
+    expect(resolveProvider).toHaveBeenCalledWith(undefined, 'add')
+    expect(patches).toEqual([diff.replace('@@ -1 +1 @@\n-hi\n+hello\n', '')])
+    expect(commitCommand.parseAsync).not.toHaveBeenCalled()
+  })
+
+  it('should show AI descriptions and flag debug leftovers', async () => {
+    await addCommand.parseAsync(['-i'], { from: 'user' })
+
+    const output = mockLog.mock.calls.map((call) => String(call[0])).join('\n')
+    expect(output).toContain('Add a greeting')
+    expect(output).toContain('Log the user')
+    expect(output).toContain('⚠ console.log call')
+  })
+
+  it('should stage the remaining hunks and hand off to gut commit', async () => {
+    answers.push('a', 'y')
+
+    await addCommand.parseAsync(['-i', '-p', 'openai'], { from: 'user' })
+
+    expect(patches).toEqual([diff])
+    expect(commitCommand.parseAsync).toHaveBeenCalledWith(['--provider', 'openai'], {
+      from: 'user'
+    })
+  })
+
+  it('should limit hunks to the given paths', async () => {
+    await addCommand.parseAsync(['-i', 'src'], { from: 'user' })
+
+    expect(mockGit.diff).toHaveBeenCalledWith(['--binary', '--', 'src'])
+  })
+
+  it('should still offer staging when the AI call fails', async () => {
+    vi.mocked(generateHunkDescriptions).mockRejectedValueOnce(new Error('rate limited'))
+    answers.push('y', 'q', 'n')
+
+    await addCommand.parseAsync(['-i'], { from: 'user' })
+
+    expect(patches).toEqual([
+      'diff --git a/src/app.ts b/src/app.ts\n--- a/src/app.ts\n+++ b/src/app.ts\n@@ -1 +1 @@\n-hi\n+hello\n'
+    ])
+  })
+
+  it('should not send hunks of ignored files to the AI but still offer them', async () => {
+    vi.mocked(getCommandConfig).mockReturnValueOnce({ ignore: ['src/app.ts'] })
+    answers.push('y', 'y', 'n')
+
+    await addCommand.parseAsync(['-i'], { from: 'user' })
+
+    expect(generateHunkDescriptions).not.toHaveBeenCalled()
+    expect(patches).toEqual([diff])
+  })
+
+  it('should report when there is nothing to stage', async () => {
+    mockGit.diff.mockResolvedValue('')
+
+    await addCommand.parseAsync(['-i'], { from: 'user' })
+
+    expect(generateHunkDescriptions).not.toHaveBeenCalled()
+    expect(mockGit.raw).not.toHaveBeenCalled()
+  })
+
+  it('should stage paths without -i like git add', async () => {
+    await addCommand.parseAsync(['README.md'], { from: 'user' })
+
+    expect(mockGit.add).toHaveBeenCalledWith(['README.md'])
+    expect(generateHunkDescriptions).not.toHaveBeenCalled()
+  })
+
+  it('should exit when nothing is specified without -i', async () => {
+    await expect(addCommand.parseAsync([], { from: 'user' })).rejects.toThrow('process.exit called')
+
+    expect(mockExit).toHaveBeenCalledWith(1)
+  })
+})
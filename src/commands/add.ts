@@ -0,0 +1,162 @@
+import chalk from 'chalk'
+import { Command } from 'commander'
+import ora from 'ora'
+import { simpleGit } from 'simple-git'
+import { findTemplate, generateHunkDescriptions } from '../lib/ai.js'
+import { getBaseUrl, getLanguage } from '../lib/config.js'
+import { resolveProvider } from '../lib/credentials.js'
+import { type DiffHunk, getDiffHunks, stageHunks } from '../lib/diff.js'
+import { getIgnorePatterns, isIgnored } from '../lib/ignore.js'
+import { findLeftovers } from '../lib/leftovers.js'
+import { providerOption } from '../lib/options.js'
+import { commitCommand } from './commit.js'
+
+function printHunk(hunk: DiffHunk): void {
+  for (const line of hunk.content.replace(/\n$/, '').split('\n')) {
+    if (line.startsWith('@@')) {
+      console.log(chalk.cyan(`  ${line}`))
+    } else if (line.startsWith('+')) {
+      console.log(chalk.green(`  ${line}`))
+    } else if (line.startsWith('-')) {
+      console.log(chalk.red(`  ${line}`))
+    } else {
+      console.log(chalk.gray(`  ${line}`))
+    }
+  }
+}
+
+export const addCommand = new Command('add')
+  .description('Stage changes hunk by hunk with AI descriptions')
+  .argument('[paths...]', 'Limit to these paths')
+  .option('-i, --interactive', 'Review each hunk before staging it')
+  .addOption(providerOption())
+  .option('-m, --model <model>', 'Model to use (provider-specific)')
+  .option('--base-url <url>', 'Base URL for API provider')
+  .action(async (paths: string[], options) => {
+    const git = simpleGit()
+
+    const isRepo = await git.checkIsRepo()
+    if (!isRepo) {
+      console.error(chalk.red('Error: Not a git repository'))
+      process.exit(1)
+    }
+
+    if (!options.interactive) {
+      if (paths.length === 0) {
+        console.error(
+          chalk.yellow('Nothing specified, nothing added. Use gut add -i to pick hunks.')
+        )
+        process.exit(1)
+      }
+      await git.add(paths)
+      console.log(chalk.green(`✓ Staged ${paths.join(', ')}`))
+      return
+    }
+
+    // Binary patches are needed to stage binary files
+    const hunks = getDiffHunks(
+      await git.diff(['--binary', ...(paths.length > 0 ? ['--', ...paths] : [])])
+    )
+    if (hunks.length === 0) {
+      console.log(chalk.yellow('No unstaged changes.'))
+      return
+    }
+
+    const provider = await resolveProvider(options.provider, 'add')
+    const aiOptions = {
+      provider,
+      model: options.model,
+      command: 'add',
+      baseUrl: options.baseUrl || getBaseUrl(),
+      language: getLanguage()
+    }
+
+    const repoRoot = await git.revparse(['--show-toplevel'])
+    const template = findTemplate(repoRoot.trim(), 'add')
+    if (template) {
+      console.log(chalk.gray('Using template from project...'))
+    }
+
+    // Hunks of files matched by .gutignore can still be staged, but are not sent to the AI
+    const ignorePatterns = getIgnorePatterns(repoRoot.trim(), 'add')
+    const describable = hunks.filter((hunk) => !isIgnored(hunk.file, ignorePatterns))
+
+    // Descriptions are a convenience; staging still works without them
+    let descriptions: Record<string, string> = {}
+    if (describable.length > 0) {
+      const spinner = ora(`Describing ${describable.length} hunks...`).start()
+      try {
+        descriptions = await generateHunkDescriptions(describable, aiOptions, template || undefined)
+        spinner.stop()
+      } catch (error) {
+        spinner.warn(
+          `Could not describe hunks: ${error instanceof Error ? error.message : 'Unknown error'}`
+        )
+      }
+    }
+
+    const readline = await import('node:readline')
+    const rl = readline.createInterface({
+      input: process.stdin,
+      output: process.stdout
+    })
+    const ask = (question: string) =>
+      new Promise<string>((resolve) => rl.question(chalk.cyan(question), resolve))
+
+    const selected: DiffHunk[] = []
+    for (const [i, hunk] of hunks.entries()) {
+      console.log(chalk.bold(`\n(${i + 1}/${hunks.length}) ${hunk.file}`))
+      if (descriptions[hunk.id]) {
+        console.log(`  ${descriptions[hunk.id]}`)
+      }
+      for (const leftover of findLeftovers(hunk.content)) {
+        console.log(chalk.yellow(`  ⚠ ${leftover}`))
+      }
+      printHunk(hunk)
+
+      const answer = (await ask('Stage this hunk? (y/n/a to stage the rest/q to quit) '))
+        .trim()
+        .toLowerCase()
+      if (answer === 'y') {
+        selected.push(hunk)
+      } else if (answer === 'a') {
+        selected.push(...hunks.slice(i))
+        break
+      } else if (answer === 'q') {
+        break
+      }
+    }
+
+    if (selected.length === 0) {
+      rl.close()
+      console.log(chalk.gray('\nNothing staged'))
+      return
+    }
+
+    try {
+      await stageHunks(git, selected)
+    } catch (error) {
+      rl.close()
+      console.error(
+        chalk.red(
+          `Failed to stage hunks: ${error instanceof Error ? error.message : 'Unknown error'}`
+        )
+      )
+      process.exit(1)
+    }
+    console.log(chalk.green(`\n✓ Staged ${selected.length} of ${hunks.length} hunks`))
+
+    const answer = await ask('Generate a commit message for the staged changes? (y/N) ')
+    rl.close()
+    if (answer.toLowerCase() !== 'y') return
+
+    // Hand off to gut commit with the same AI settings
+    await commitCommand.parseAsync(
+      [
+        ...(options.provider ? ['--provider', options.provider] : []),
+        ...(options.model ? ['--model', options.model] : []),
+        ...(options.baseUrl ? ['--base-url', options.baseUrl] : [])
+      ],
+      { from: 'user' }
+    )
+  })
@@ -1,14 +1,31 @@
 import chalk from 'chalk'
 import { Command } from 'commander'
+import { getProviderProfile, getProviderProfileNames } from '../lib/config.js'
 import {
   deleteApiKey,
   getProviderDisplayName,
   listProviders,
-  type Provider,
+  type ProviderName,
   saveApiKey
 } from '../lib/credentials.js'
 
-const PROVIDERS: Provider[] = ['gemini', 'openai', 'anthropic']
+const API_KEY_PROVIDERS: ProviderName[] = ['gemini', 'openai', 'anthropic']
+
+/**
+ * Providers that accept an API key: the hosted providers plus configured provider profiles
+ */
+function getAuthProviders(): ProviderName[] {
+  return [...API_KEY_PROVIDERS, ...getProviderProfileNames()]
+}
+
+/**
+ * Normalize a --provider value (built-in names are case-insensitive, profile names are not)
+ */
+function parseProvider(value: string): ProviderName | null {
+  const builtin = value.toLowerCase()
+  if (API_KEY_PROVIDERS.includes(builtin)) return builtin
+  return getProviderProfileNames().includes(value) ? value : null
+}
 
 async function readSecretInput(prompt: string): Promise<string> {
   return new Promise((resolve) => {
@@ -58,7 +75,8 @@ async function readSecretInput(prompt: string): Promise<string> {
   })
 }
 
-async function selectProvider(): Promise<Provider> {
+async function selectProvider(): Promise<ProviderName> {
+  const PROVIDERS = getAuthProviders()
   return new Promise((resolve) => {
     let selectedIndex = 0
     const stdin = process.stdin
@@ -128,18 +146,19 @@ export const authCommand = new Command('auth').description('Manage API key authe
 authCommand
   .command('login')
   .description('Save an API key to the system keychain')
-  .option('-p, --provider <provider>', 'AI provider (gemini, openai, anthropic)')
+  .option('-p, --provider <provider>', 'AI provider (gemini, openai, anthropic, or a profile)')
   .option('-k, --key <key>', 'API key (if not provided, will prompt)')
   .action(async (options) => {
-    let provider: Provider
+    let provider: ProviderName
 
     if (options.provider) {
-      provider = options.provider.toLowerCase() as Provider
-      if (!PROVIDERS.includes(provider)) {
+      const parsed = parseProvider(options.provider)
+      if (!parsed) {
         console.error(chalk.red(`Invalid provider: ${options.provider}`))
-        console.error(chalk.gray(`Valid providers: ${PROVIDERS.join(', ')}`))
+        console.error(chalk.gray(`Valid providers: ${getAuthProviders().join(', ')}`))
         process.exit(1)
       }
+      provider = parsed
     } else {
       provider = await selectProvider()
     }
@@ -175,11 +194,14 @@ authCommand
 authCommand
   .command('logout')
   .description('Remove an API key from the system keychain')
-  .requiredOption('-p, --provider <provider>', 'AI provider (gemini, openai, anthropic)')
+  .requiredOption(
+    '-p, --provider <provider>',
+    'AI provider (gemini, openai, anthropic, or a profile)'
+  )
   .action(async (options) => {
-    const provider = options.provider.toLowerCase() as Provider
+    const provider = parseProvider(options.provider)
 
-    if (!PROVIDERS.includes(provider)) {
+    if (!provider) {
       console.error(chalk.red(`Invalid provider: ${options.provider}`))
       process.exit(1)
     }
@@ -211,8 +233,15 @@ authCommand
         console.log(`  ${getProviderDisplayName(provider).padEnd(20)} ${status}`)
       }
 
+      const profileEnvVars = getProviderProfileNames()
+        .map((name) => getProviderProfile(name)?.apiKeyEnv)
+        .filter((envVar): envVar is string => !!envVar)
       console.log(chalk.gray('\nKeys can also be set via environment variables:'))
-      console.log(chalk.gray('  GUT_GEMINI_API_KEY, GUT_OPENAI_API_KEY, GUT_ANTHROPIC_API_KEY\n'))
+      console.log(
+        chalk.gray(
+          `  ${['GUT_GEMINI_API_KEY', 'GUT_OPENAI_API_KEY', 'GUT_ANTHROPIC_API_KEY', ...profileEnvVars].join(', ')}\n`
+        )
+      )
     } catch {
       console.error(chalk.red('Failed to check status'))
       process.exit(1)
@@ -69,7 +69,13 @@ vi.mock('../lib/config.js', () => ({
   getConfiguredModel: vi.fn(() => undefined),
   getDefaultModel: vi.fn(() => 'gemini-2.5-flash'),
   getLanguage: vi.fn(() => 'en'),
-  getBaseUrl: vi.fn(() => undefined)
+  getBaseUrl: vi.fn(() => undefined),
+  getProviderProfileNames: vi.fn(() => []),
+  getFallbackProviders: vi.fn(() => []),
+  getCacheTtl: vi.fn(() => 0),
+  getTrackUsage: vi.fn(() => false),
+  getSecretsConfig: vi.fn(() => ({ redact: true, blockPaths: [] })),
+  getCommandConfig: vi.fn(() => ({}))
 }))
 
 // Mock gh CLI
@@ -148,7 +154,7 @@ describe('branchCommand', () => {
 
       await branchCommand.parseAsync(['-d', 'test', '-p', 'openai', '-c'], { from: 'user' })
 
-      expect(resolveProvider).toHaveBeenCalledWith('openai')
+      expect(resolveProvider).toHaveBeenCalledWith('openai', 'branch')
     })
   })
 })
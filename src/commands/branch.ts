@@ -74,7 +74,7 @@ export const branchCommand = new Command('branch')
       process.exit(1)
     }
 
-    const provider = await resolveProvider(options.provider)
+    const provider = await resolveProvider(options.provider, 'branch')
     const template = findTemplate(repoRoot.trim(), 'branch')
 
     if (template) {
@@ -89,6 +89,7 @@ export const branchCommand = new Command('branch')
         {
           provider,
           model: options.model,
+          command: 'branch',
           baseUrl: options.baseUrl || getBaseUrl(),
           language: getLanguage()
         },
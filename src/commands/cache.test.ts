@@ -0,0 +1,81 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+// Mock process.exit
+const mockExit = vi.spyOn(process, 'exit').mockImplementation(() => {
+  throw new Error('process.exit called')
+})
+
+// Mock console methods
+const mockLog = vi.spyOn(console, 'log').mockImplementation(() => {})
+vi.spyOn(console, 'error').mockImplementation(() => {})
+
+// Mock cache module
+const mockGetCacheStats = vi.fn()
+const mockClearCache = vi.fn()
+
+vi.mock('../lib/cache.js', () => ({
+  getCacheDir: vi.fn(() => '/home/user/.config/gut/cache'),
+  getCacheStats: (...args: unknown[]) => mockGetCacheStats(...args),
+  clearCache: (...args: unknown[]) => mockClearCache(...args)
+}))
+
+vi.mock('../lib/config.js', () => ({
+  getCacheTtl: vi.fn(() => 3600)
+}))
+
+// Import the command after mocks
+import { cacheCommand } from './cache.js'
+
+describe('cacheCommand', () => {
+  beforeEach(() => {
+    mockGetCacheStats.mockReturnValue({
+      entries: 3,
+      expired: 1,
+      sizeBytes: 2048,
+      oldest: 0,
+      newest: 1000
+    })
+    mockClearCache.mockReturnValue(3)
+  })
+
+  afterEach(() => {
+    vi.clearAllMocks()
+  })
+
+  describe('stats subcommand', () => {
+    it('should show entry count and size', async () => {
+      await cacheCommand.parseAsync(['stats'], { from: 'user' })
+
+      expect(mockGetCacheStats).toHaveBeenCalledWith(3600)
+      const output = mockLog.mock.calls.map(([line]) => line).join('\n')
+      expect(output).toContain('3')
+      expect(output).toContain('1 expired')
+      expect(output).toContain('2.0 KB')
+    })
+  })
+
+  describe('clear subcommand', () => {
+    it('should clear all cached responses', async () => {
+      await cacheCommand.parseAsync(['clear'], { from: 'user' })
+
+      expect(mockClearCache).toHaveBeenCalledWith({ expiredOnly: undefined, ttlSeconds: 3600 })
+    })
+
+    it('should only clear expired responses with --expired', async () => {
+      await cacheCommand.parseAsync(['clear', '--expired'], { from: 'user' })
+
+      expect(mockClearCache).toHaveBeenCalledWith({ expiredOnly: true, ttlSeconds: 3600 })
+    })
+
+    it('should exit when clearing fails', async () => {
+      mockClearCache.mockImplementationOnce(() => {
+        throw new Error('EACCES')
+      })
+
+      await expect(cacheCommand.parseAsync(['clear'], { from: 'user' })).rejects.toThrow(
+        'process.exit called'
+      )
+      expect(mockExit).toHaveBeenCalledWith(1)
+    })
+  })
+})
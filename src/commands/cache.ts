@@ -0,0 +1,55 @@
+import chalk from 'chalk'
+import { Command } from 'commander'
+import { clearCache, getCacheDir, getCacheStats } from '../lib/cache.js'
+import { getCacheTtl } from '../lib/config.js'
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+function formatDate(timestamp: number): string {
+  return new Date(timestamp).toLocaleString()
+}
+
+export const cacheCommand = new Command('cache').description('Manage the AI response cache')
+
+cacheCommand
+  .command('stats')
+  .description('Show cached response statistics')
+  .action(() => {
+    const ttl = getCacheTtl()
+    const stats = getCacheStats(ttl)
+
+    console.log(chalk.bold('\nResponse Cache:\n'))
+    console.log(`  ${'Location'.padEnd(10)} ${getCacheDir()}`)
+    console.log(
+      `  ${'TTL'.padEnd(10)} ${ttl > 0 ? `${ttl}s` : chalk.yellow('disabled (cacheTtl is 0)')}`
+    )
+    console.log(
+      `  ${'Entries'.padEnd(10)} ${stats.entries}${stats.expired > 0 ? chalk.gray(` (${stats.expired} expired)`) : ''}`
+    )
+    console.log(`  ${'Size'.padEnd(10)} ${formatBytes(stats.sizeBytes)}`)
+    if (stats.oldest !== undefined && stats.newest !== undefined) {
+      console.log(`  ${'Oldest'.padEnd(10)} ${formatDate(stats.oldest)}`)
+      console.log(`  ${'Newest'.padEnd(10)} ${formatDate(stats.newest)}`)
+    }
+    console.log()
+  })
+
+cacheCommand
+  .command('clear')
+  .description('Delete cached responses')
+  .option('--expired', 'Only delete responses older than the cache TTL')
+  .action((options: { expired?: boolean }) => {
+    try {
+      const deleted = clearCache({ expiredOnly: options.expired, ttlSeconds: getCacheTtl() })
+      const label = options.expired ? 'expired cached responses' : 'cached responses'
+      console.log(chalk.green(`✓ Deleted ${deleted} ${label}`))
+    } catch (err) {
+      console.error(chalk.red('Failed to clear cache'))
+      console.error(chalk.gray(err instanceof Error ? err.message : 'Unknown error'))
+      process.exit(1)
+    }
+  })
@@ -70,7 +70,13 @@ vi.mock('../lib/config.js', () => ({
   getConfiguredModel: vi.fn(() => undefined),
   getDefaultModel: vi.fn(() => 'gemini-2.5-flash'),
   getLanguage: vi.fn(() => 'en'),
-  getBaseUrl: vi.fn(() => undefined)
+  getBaseUrl: vi.fn(() => undefined),
+  getProviderProfileNames: vi.fn(() => []),
+  getFallbackProviders: vi.fn(() => []),
+  getCacheTtl: vi.fn(() => 0),
+  getTrackUsage: vi.fn(() => false),
+  getSecretsConfig: vi.fn(() => ({ redact: true, blockPaths: [] })),
+  getCommandConfig: vi.fn(() => ({}))
 }))
 
 // Mock simple-git
@@ -172,7 +178,7 @@ describe('changelogCommand', () => {
 
       await changelogCommand.parseAsync(['-p', 'anthropic'], { from: 'user' })
 
-      expect(resolveProvider).toHaveBeenCalledWith('anthropic')
+      expect(resolveProvider).toHaveBeenCalledWith('anthropic', 'changelog')
     })
   })
 })
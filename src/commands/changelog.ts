@@ -5,6 +5,7 @@ import { simpleGit } from 'simple-git'
 import { type Changelog, findTemplate, generateChangelog } from '../lib/ai.js'
 import { getBaseUrl, getLanguage } from '../lib/config.js'
 import { resolveProvider } from '../lib/credentials.js'
+import { filterDiff, getIgnorePatterns } from '../lib/ignore.js'
 import { providerOption } from '../lib/options.js'
 
 function formatChangelog(changelog: Changelog): string {
@@ -53,7 +54,7 @@ export const changelogCommand = new Command('changelog')
       process.exit(1)
     }
 
-    const provider = await resolveProvider(options.provider)
+    const provider = await resolveProvider(options.provider, 'changelog')
     const spinner = ora('Analyzing commits...').start()
 
     try {
@@ -83,11 +84,14 @@ export const changelogCommand = new Command('changelog')
         date: c.date
       }))
 
-      // Get diff
-      const diff = await git.diff([`${fromRef}...${toRef}`])
+      // Get diff, without the files matched by .gutignore
+      const repoRoot = await git.revparse(['--show-toplevel'])
+      const { diff } = filterDiff(
+        await git.diff([`${fromRef}...${toRef}`]),
+        getIgnorePatterns(repoRoot.trim(), 'changelog')
+      )
 
       // Find template
-      const repoRoot = await git.revparse(['--show-toplevel'])
       const template = findTemplate(repoRoot.trim(), 'changelog')
 
       if (template) {
@@ -99,6 +103,7 @@ export const changelogCommand = new Command('changelog')
         {
           provider,
           model: options.model,
+          command: 'changelog',
           baseUrl: options.baseUrl || getBaseUrl(),
           language: getLanguage()
         },
@@ -69,7 +69,13 @@ vi.mock('../lib/config.js', () => ({
   getConfiguredModel: vi.fn(() => undefined),
   getDefaultModel: vi.fn(() => 'gemini-2.5-flash'),
   getLanguage: vi.fn(() => 'en'),
-  getBaseUrl: vi.fn(() => undefined)
+  getBaseUrl: vi.fn(() => undefined),
+  getProviderProfileNames: vi.fn(() => []),
+  getFallbackProviders: vi.fn(() => []),
+  getCacheTtl: vi.fn(() => 0),
+  getTrackUsage: vi.fn(() => false),
+  getSecretsConfig: vi.fn(() => ({ redact: true, blockPaths: [] })),
+  getCommandConfig: vi.fn(() => ({}))
 }))
 
 // Mock simple-git
@@ -179,7 +185,7 @@ describe('checkoutCommand', () => {
 
       await checkoutCommand.parseAsync(['--yes', '-p', 'openai'], { from: 'user' })
 
-      expect(resolveProvider).toHaveBeenCalledWith('openai')
+      expect(resolveProvider).toHaveBeenCalledWith('openai', 'checkout')
     })
   })
 })
@@ -57,7 +57,7 @@ export const checkoutCommand = new Command('checkout')
 
     spinner.text = 'Generating branch name...'
 
-    const provider = await resolveProvider(options.provider)
+    const provider = await resolveProvider(options.provider, 'checkout')
     const template = findTemplate(repoRoot.trim(), 'checkout')
 
     if (template) {
@@ -70,6 +70,7 @@ export const checkoutCommand = new Command('checkout')
         {
           provider,
           model: options.model,
+          command: 'checkout',
           baseUrl: options.baseUrl || getBaseUrl(),
           language: getLanguage()
         },
@@ -9,7 +9,9 @@ export const cleanupCommand = new Command('cleanup')
   .option('-f, --force', 'Skip confirmation prompt')
   .option('--dry-run', 'Show branches that would be deleted without deleting')
   .option('--base <branch>', 'Base branch to compare against (default: main or master)')
-  .action(async (options) => {
+  .action(async (_options, command: Command) => {
+    // --dry-run is also a global option (prompt preview), which commander hands to the program
+    const options = command.optsWithGlobals()
     const git = simpleGit()
 
     // Check if we're in a git repository
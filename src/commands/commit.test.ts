@@ -1,3 +1,6 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
 import { MockLanguageModelV1 } from 'ai/test'
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
 
@@ -21,14 +24,35 @@ vi.mock('ora', () => ({
   }))
 }))
 
+// Answers to confirmation prompts
+const answers: string[] = []
+
+vi.mock('node:readline', () => ({
+  createInterface: vi.fn(() => ({
+    question: vi.fn((_prompt: string, callback: (answer: string) => void) => {
+      callback(answers.shift() ?? 'n')
+    }),
+    close: vi.fn()
+  }))
+}))
+
+// Responses to return before the default message
+const queuedResponses: string[] = []
+// Prompts sent to the model
+const prompts: string[] = []
+
 // Create mock model
 const mockModel = new MockLanguageModelV1({
-  doGenerate: async () => ({
-    rawCall: { rawPrompt: null, rawSettings: {} },
-    finishReason: 'stop' as const,
-    usage: { promptTokens: 10, completionTokens: 20 },
-    text: 'feat(test): add new feature'
-  })
+  defaultObjectGenerationMode: 'json',
+  doGenerate: async ({ prompt }) => {
+    prompts.push(JSON.stringify(prompt))
+    return {
+      rawCall: { rawPrompt: null, rawSettings: {} },
+      finishReason: 'stop' as const,
+      usage: { promptTokens: 10, completionTokens: 20 },
+      text: queuedResponses.shift() ?? 'feat(test): add new feature'
+    }
+  }
 })
 
 // Mock provider SDKs to use MockLanguageModelV1
@@ -61,13 +85,37 @@ vi.mock('../lib/config.js', () => ({
   getConfiguredModel: vi.fn(() => undefined),
   getDefaultModel: vi.fn(() => 'gemini-2.5-flash'),
   getLanguage: vi.fn(() => 'en'),
-  getBaseUrl: vi.fn(() => undefined)
+  getBaseUrl: vi.fn(() => undefined),
+  getProviderProfileNames: vi.fn(() => []),
+  getFallbackProviders: vi.fn(() => []),
+  getCacheTtl: vi.fn(() => 0),
+  getTrackUsage: vi.fn(() => false),
+  getSecretsConfig: vi.fn(() => ({ redact: true, blockPaths: [] })),
+  getCommandConfig: vi.fn(() => ({})),
+  getCommitlint: vi.fn(() => undefined),
+  getCommitTypes: vi.fn(() => undefined),
+  getCommitScopes: vi.fn(() => undefined),
+  getScopeMap: vi.fn(() => ({})),
+  getStyleSamples: vi.fn(() => 0),
+  getTicketConfig: vi.fn(() => undefined)
+}))
+
+// Mock commit history
+vi.mock('../lib/history.js', () => ({
+  DEFAULT_STYLE_SAMPLES: 50,
+  getCommitStyle: vi.fn(() =>
+    Promise.resolve({
+      commits: 2,
+      signals: ['Descriptions start with a capital letter'],
+      examples: ['Add login (AUTH-12)', 'Fix session bug (AUTH-15)']
+    })
+  )
 }))
 
 // Mock simple-git
 const mockGit = {
   checkIsRepo: vi.fn(() => Promise.resolve(true)),
-  revparse: vi.fn(() => Promise.resolve('/test/repo')),
+  revparse: vi.fn((_args: string[]) => Promise.resolve('/test/repo')),
   add: vi.fn(() => Promise.resolve()),
   diff: vi.fn(() => Promise.resolve('diff content')),
   status: vi.fn(() =>
@@ -78,7 +126,8 @@ const mockGit = {
       created: [] as string[]
     })
   ),
-  commit: vi.fn(() => Promise.resolve())
+  commit: vi.fn(() => Promise.resolve()),
+  raw: vi.fn((_args: string[]) => Promise.resolve(''))
 }
 
 vi.mock('simple-git', () => ({
@@ -119,7 +168,241 @@ describe('commitCommand', () => {
 
       await commitCommand.parseAsync(['--commit', '-p', 'openai'], { from: 'user' })
 
-      expect(resolveProvider).toHaveBeenCalledWith('openai')
+      expect(resolveProvider).toHaveBeenCalledWith('openai', 'commit')
+    })
+  })
+
+  describe('commit rules', () => {
+    it('should regenerate a message that violates the rules', async () => {
+      const { getCommitlint } = await import('../lib/config.js')
+      vi.mocked(getCommitlint).mockReturnValue(true)
+      queuedResponses.push('Added a feature.')
+
+      await commitCommand.parseAsync(['--commit'], { from: 'user' })
+
+      expect(mockGit.commit).toHaveBeenCalledWith('feat(test): add new feature')
+      vi.mocked(getCommitlint).mockReturnValue(undefined)
+    })
+
+    it('should not commit a message that keeps violating the rules', async () => {
+      const { getCommitlint } = await import('../lib/config.js')
+      vi.mocked(getCommitlint).mockReturnValue(true)
+      queuedResponses.push('wip', 'wip', 'wip', 'wip')
+
+      await expect(commitCommand.parseAsync(['--commit'], { from: 'user' })).rejects.toThrow(
+        'process.exit called'
+      )
+
+      expect(mockGit.commit).not.toHaveBeenCalled()
+      expect(queuedResponses).toHaveLength(0)
+      vi.mocked(getCommitlint).mockReturnValue(undefined)
+    })
+
+    it('should skip validation when disabled in config', async () => {
+      const { getCommitlint } = await import('../lib/config.js')
+      vi.mocked(getCommitlint).mockReturnValue(false)
+      queuedResponses.push('wip')
+
+      await commitCommand.parseAsync(['--commit'], { from: 'user' })
+
+      expect(mockGit.commit).toHaveBeenCalledWith('wip')
+      vi.mocked(getCommitlint).mockReturnValue(undefined)
+    })
+
+    it('should warn and keep the message when the commitlint config is broken', async () => {
+      const repo = mkdtempSync(join(tmpdir(), 'gut-commit-rules-'))
+      writeFileSync(join(repo, '.commitlintrc'), 'rules: [unclosed')
+      mockGit.revparse.mockImplementation(() => Promise.resolve(repo))
+      queuedResponses.push('wip')
+
+      await commitCommand.parseAsync(['--commit'], { from: 'user' })
+
+      mockGit.revparse.mockImplementation(() => Promise.resolve('/test/repo'))
+      rmSync(repo, { recursive: true, force: true })
+      expect(console.log).toHaveBeenCalledWith(
+        expect.stringContaining('Could not load commitlint config .commitlintrc')
+      )
+      expect(mockGit.commit).toHaveBeenCalledWith('wip')
+    })
+  })
+
+  describe('scope inference', () => {
+    it('should pass the scopes of the changed files to the prompt', async () => {
+      const { getScopeMap } = await import('../lib/config.js')
+      vi.mocked(getScopeMap).mockReturnValueOnce({ 'packages/api': 'api' })
+      mockGit.diff.mockResolvedValue(
+        'diff --git a/packages/api/index.ts b/packages/api/index.ts\n+new content'
+      )
+      prompts.length = 0
+
+      await commitCommand.parseAsync(['--commit'], { from: 'user' })
+
+      expect(prompts[0]).toContain('<scopes>\\napi\\n</scopes>')
+      expect(prompts[0]).toContain('must be one of the scopes listed in the context')
+    })
+  })
+
+  describe('ignored files', () => {
+    it('should keep files matched by the ignore rules out of the prompt', async () => {
+      const { getCommandConfig } = await import('../lib/config.js')
+      vi.mocked(getCommandConfig).mockReturnValue({ ignore: ['*.lock'] })
+      mockGit.diff.mockResolvedValue(
+        'diff --git a/src/app.ts b/src/app.ts\n+new content\ndiff --git a/yarn.lock b/yarn.lock\n+lock content\n'
+      )
+      prompts.length = 0
+
+      await commitCommand.parseAsync(['--commit'], { from: 'user' })
+
+      vi.mocked(getCommandConfig).mockReturnValue({})
+      expect(prompts[0]).toContain('[gut] excluded 1 file (yarn.lock)')
+      expect(prompts[0]).not.toContain('lock content')
+    })
+
+    it('should not call the AI when every staged file is ignored', async () => {
+      const { getCommandConfig } = await import('../lib/config.js')
+      vi.mocked(getCommandConfig).mockReturnValue({ ignore: ['*.lock'] })
+      mockGit.diff.mockResolvedValue('diff --git a/yarn.lock b/yarn.lock\n+lock content\n')
+      prompts.length = 0
+
+      await expect(commitCommand.parseAsync(['--commit'], { from: 'user' })).rejects.toThrow(
+        'process.exit called'
+      )
+
+      vi.mocked(getCommandConfig).mockReturnValue({})
+      expect(prompts).toHaveLength(0)
+      expect(mockGit.commit).not.toHaveBeenCalled()
+      expect(mockExit).toHaveBeenCalledWith(1)
+    })
+  })
+
+  describe('style learning', () => {
+    afterEach(() => {
+      commitCommand.setOptionValue('learnStyle', undefined)
+    })
+
+    it('should add recent commits to the prompt with --learn-style', async () => {
+      const { getCommitStyle } = await import('../lib/history.js')
+      prompts.length = 0
+
+      await commitCommand.parseAsync(['--commit', '--learn-style', '5'], { from: 'user' })
+
+      expect(getCommitStyle).toHaveBeenCalledWith(mockGit, '/test/repo', 5)
+      expect(prompts[0]).toContain('Add login (AUTH-12)')
+    })
+
+    it('should not read history by default', async () => {
+      const { getCommitStyle } = await import('../lib/history.js')
+
+      await commitCommand.parseAsync(['--commit'], { from: 'user' })
+
+      expect(getCommitStyle).not.toHaveBeenCalled()
+    })
+
+    it('should reject an invalid number of commits', async () => {
+      await expect(
+        commitCommand.parseAsync(['--commit', '--learn-style', 'many'], { from: 'user' })
+      ).rejects.toThrow('process.exit called')
+    })
+  })
+
+  describe('with --amend', () => {
+    afterEach(() => {
+      commitCommand.setOptionValue('amend', undefined)
+      commitCommand.setOptionValue('split', undefined)
+      mockGit.revparse.mockImplementation(() => Promise.resolve('/test/repo'))
+    })
+
+    it('should describe the last commit with the staged changes and amend it', async () => {
+      mockGit.revparse.mockImplementation((args: string[]) =>
+        Promise.resolve(args.includes('HEAD^') ? 'abc123\n' : '/test/repo')
+      )
+
+      await commitCommand.parseAsync(['--commit', '--amend'], { from: 'user' })
+
+      expect(mockGit.diff).toHaveBeenCalledWith(['--cached', 'abc123'])
+      expect(mockGit.commit).toHaveBeenCalledWith('feat(test): add new feature', undefined, {
+        '--amend': null
+      })
+    })
+
+    it('should exit when there is no commit to amend', async () => {
+      mockGit.revparse.mockImplementation((args: string[]) =>
+        args[0] === '--verify'
+          ? Promise.reject(new Error('bad revision'))
+          : Promise.resolve('/test/repo')
+      )
+
+      await expect(
+        commitCommand.parseAsync(['--commit', '--amend'], { from: 'user' })
+      ).rejects.toThrow('process.exit called')
+      expect(mockGit.commit).not.toHaveBeenCalled()
+    })
+
+    it('should not combine with --split', async () => {
+      await expect(
+        commitCommand.parseAsync(['--amend', '--split'], { from: 'user' })
+      ).rejects.toThrow('process.exit called')
+    })
+  })
+
+  describe('ticket references', () => {
+    beforeEach(async () => {
+      const { getTicketConfig } = await import('../lib/config.js')
+      vi.mocked(getTicketConfig).mockReturnValue({
+        patterns: ['[A-Z][A-Z0-9]+-\\d+'],
+        format: 'refs'
+      })
+      mockGit.revparse.mockImplementation((args: string[]) =>
+        Promise.resolve(args[0] === '--abbrev-ref' ? 'feature/PROJ-1234-add-login\n' : '/test/repo')
+      )
+    })
+
+    afterEach(async () => {
+      const { getTicketConfig } = await import('../lib/config.js')
+      vi.mocked(getTicketConfig).mockReturnValue(undefined)
+      mockGit.revparse.mockImplementation(() => Promise.resolve('/test/repo'))
+    })
+
+    it('should add the ticket key from the branch name as a footer', async () => {
+      await commitCommand.parseAsync(['--commit'], { from: 'user' })
+
+      expect(mockGit.commit).toHaveBeenCalledWith('feat(test): add new feature\n\nRefs: PROJ-1234')
+    })
+
+    it('should not repeat a ticket key the message already mentions', async () => {
+      queuedResponses.push('feat(test): add login for PROJ-1234')
+
+      await commitCommand.parseAsync(['--commit'], { from: 'user' })
+
+      expect(mockGit.commit).toHaveBeenCalledWith('feat(test): add login for PROJ-1234')
+    })
+
+    it('should validate the message with its ticket reference', async () => {
+      const repo = mkdtempSync(join(tmpdir(), 'gut-commit-tickets-'))
+      writeFileSync(
+        join(repo, '.commitlintrc'),
+        'rules:\n  body-max-line-length: [2, always, 10]\n'
+      )
+      mockGit.revparse.mockImplementation((args: string[]) =>
+        Promise.resolve(args[0] === '--abbrev-ref' ? 'feature/PROJ-1234-add-login\n' : repo)
+      )
+
+      await expect(commitCommand.parseAsync(['--commit'], { from: 'user' })).rejects.toThrow(
+        'process.exit called'
+      )
+
+      rmSync(repo, { recursive: true, force: true })
+      expect(mockGit.commit).not.toHaveBeenCalled()
+    })
+
+    it('should not add a footer when the branch has no ticket key', async () => {
+      mockGit.revparse.mockImplementation((args: string[]) =>
+        Promise.resolve(args[0] === '--abbrev-ref' ? 'main' : '/test/repo')
+      )
+
+      await commitCommand.parseAsync(['--commit'], { from: 'user' })
+
+      expect(mockGit.commit).toHaveBeenCalledWith('feat(test): add new feature')
     })
   })
 
@@ -179,4 +462,111 @@ describe('commitCommand', () => {
       expect(mockExit).toHaveBeenCalledWith(1)
     })
   })
+
+  describe('with --split flag', () => {
+    const diff = [
+      'diff --git a/src/api.ts b/src/api.ts\n--- a/src/api.ts\n+++ b/src/api.ts\n',
+      '@@ -1 +1 @@\n-a\n+b\n@@ -20 +20 @@\n-c\n+d\n',
+      'diff --git a/README.md b/README.md\n--- a/README.md\n+++ b/README.md\n',
+      '@@ -1 +1 @@\n-old\n+new\n'
+    ].join('')
+    const plan = JSON.stringify({
+      commits: [
+        { message: 'feat(api): add login', hunks: ['src/api.ts#1'] },
+        { message: 'docs: update readme', hunks: ['src/api.ts#2', 'README.md'] }
+      ]
+    })
+    // Patches staged for each commit
+    let patches: string[]
+
+    beforeEach(() => {
+      mockGit.diff.mockResolvedValue(diff)
+      patches = []
+      mockGit.raw.mockImplementation(async (args: string[]) => {
+        if (args[0] === 'apply') patches.push(readFileSync(args[2], 'utf-8'))
+        return ''
+      })
+    })
+
+    afterEach(() => {
+      commitCommand.setOptionValue('split', undefined)
+      commitCommand.setOptionValue('commit', undefined)
+    })
+
+    it('should stage and commit each planned group in order', async () => {
+      queuedResponses.push(plan)
+
+      await commitCommand.parseAsync(['--split', '--commit'], { from: 'user' })
+
+      expect(mockGit.diff).toHaveBeenCalledWith(['--cached', '--binary'])
+      expect(mockGit.raw).toHaveBeenCalledWith(['reset', '--quiet'])
+      expect(patches).toEqual([
+        'diff --git a/src/api.ts b/src/api.ts\n--- a/src/api.ts\n+++ b/src/api.ts\n@@ -1 +1 @@\n-a\n+b\n',
+        diff.replace('@@ -1 +1 @@\n-a\n+b\n', '')
+      ])
+      expect(mockGit.commit.mock.calls).toEqual([['feat(api): add login'], ['docs: update readme']])
+    })
+
+    it('should leave ignored files out of the plan and commit them with the first group', async () => {
+      const { getCommandConfig } = await import('../lib/config.js')
+      vi.mocked(getCommandConfig).mockReturnValue({ ignore: ['README.md'] })
+      queuedResponses.push(
+        JSON.stringify({
+          commits: [
+            { message: 'feat(api): add login', hunks: ['src/api.ts#1'] },
+            { message: 'fix(api): handle errors', hunks: ['src/api.ts#2'] }
+          ]
+        })
+      )
+      prompts.length = 0
+
+      try {
+        await commitCommand.parseAsync(['--split', '--commit'], { from: 'user' })
+      } finally {
+        vi.mocked(getCommandConfig).mockReturnValue({})
+      }
+
+      expect(prompts[0]).not.toContain('README.md#1')
+      expect(patches[0]).toContain('diff --git a/README.md b/README.md')
+      expect(patches[1]).not.toContain('README.md')
+      expect(mockGit.commit.mock.calls).toEqual([
+        ['feat(api): add login'],
+        ['fix(api): handle errors']
+      ])
+    })
+
+    it('should commit in the order chosen when reordering', async () => {
+      queuedResponses.push(plan)
+      answers.push('r', '2,1', 'y')
+
+      await commitCommand.parseAsync(['--split'], { from: 'user' })
+
+      expect(mockGit.commit.mock.calls).toEqual([['docs: update readme'], ['feat(api): add login']])
+    })
+
+    it('should leave the index untouched when the plan is cancelled', async () => {
+      queuedResponses.push(plan)
+      answers.push('n')
+
+      await commitCommand.parseAsync(['--split'], { from: 'user' })
+
+      expect(mockGit.raw).not.toHaveBeenCalled()
+      expect(mockGit.commit).not.toHaveBeenCalled()
+    })
+
+    it('should not commit planned messages that fail commit rules', async () => {
+      const { getCommitlint } = await import('../lib/config.js')
+      vi.mocked(getCommitlint).mockReturnValue(true)
+      queuedResponses.push(
+        JSON.stringify({ commits: [{ message: 'Added login.', hunks: ['src/api.ts'] }] })
+      )
+
+      await expect(
+        commitCommand.parseAsync(['--split', '--commit'], { from: 'user' })
+      ).rejects.toThrow('process.exit called')
+
+      expect(mockGit.commit).not.toHaveBeenCalled()
+      vi.mocked(getCommitlint).mockReturnValue(undefined)
+    })
+  })
 })
@@ -1,11 +1,254 @@
+import { basename } from 'node:path'
 import chalk from 'chalk'
 import { Command } from 'commander'
 import ora from 'ora'
-import { simpleGit } from 'simple-git'
-import { findTemplate, generateCommitMessage } from '../lib/ai.js'
-import { getBaseUrl, getLanguage } from '../lib/config.js'
+import { type SimpleGit, simpleGit } from 'simple-git'
+import {
+  type AIOptions,
+  type CommitGroup,
+  type CommitMessageContext,
+  findTemplate,
+  generateCommitMessage,
+  generateCommitPlan,
+  streamCommitMessage
+} from '../lib/ai.js'
+import {
+  getConventionalRules,
+  type LoadedCommitRules,
+  lintCommitMessage,
+  loadCommitRules
+} from '../lib/commitlint.js'
+import {
+  getBaseUrl,
+  getCommitlint,
+  getCommitScopes,
+  getCommitTypes,
+  getLanguage,
+  getScopeMap,
+  getStyleSamples,
+  getTicketConfig
+} from '../lib/config.js'
 import { resolveProvider } from '../lib/credentials.js'
-import { providerOption } from '../lib/options.js'
+import { type DiffHunk, getDiffFiles, getDiffHunks, getParentRef, stageHunks } from '../lib/diff.js'
+import { DEFAULT_STYLE_SAMPLES, getCommitStyle } from '../lib/history.js'
+import { filterDiff, formatExcluded, getIgnorePatterns } from '../lib/ignore.js'
+import { providerOption, shouldStream } from '../lib/options.js'
+import { getShowPrompt, onPreviewExit } from '../lib/preview.js'
+import { getScopeDirs, inferScopes } from '../lib/scopes.js'
+import { appendTicketReference, extractTicketKeys } from '../lib/tickets.js'
+
+// Corrected messages to request before giving up on commit rule violations
+const MAX_LINT_RETRIES = 3
+
+function printCommitMessage(title: string, message: string): void {
+  console.log(chalk.bold(`\n${title}\n`))
+  console.log(chalk.green(`  ${message.split('\n')[0]}`))
+  if (message.includes('\n')) {
+    const details = message.split('\n').slice(1).join('\n')
+    console.log(
+      chalk.gray(
+        details
+          .split('\n')
+          .map((l) => `  ${l}`)
+          .join('\n')
+      )
+    )
+  }
+  console.log()
+}
+
+/**
+ * Load the repo's commitlint config, or the built-in rules when enabled in gut config
+ */
+async function getCommitRules(
+  repoRoot: string,
+  lint: boolean,
+  scopeDirs: Record<string, string>
+): Promise<LoadedCommitRules | null> {
+  const commitlint = lint === false ? false : getCommitlint()
+  if (commitlint === false) return null
+  return loadCommitRules(
+    repoRoot,
+    commitlint
+      ? getConventionalRules(
+          getCommitTypes(),
+          getCommitScopes() ?? [...new Set(Object.values(scopeDirs))]
+        )
+      : null
+  )
+}
+
+function describeRules(commitRules: LoadedCommitRules): string {
+  return commitRules.source === 'built-in' ? 'Conventional Commits' : basename(commitRules.source)
+}
+
+function printViolations(title: string, violations: string[]): void {
+  console.log(chalk.yellow(title))
+  for (const violation of violations) {
+    console.log(chalk.yellow(`  - ${violation}`))
+  }
+}
+
+/**
+ * Describe the files a commit touches, noting files that are only partly included
+ */
+function describeHunks(group: CommitGroup, allHunks: DiffHunk[]): string {
+  const files = [...new Set(group.hunks.map((hunk) => hunk.file))]
+  return files
+    .map((file) => {
+      const total = allHunks.filter((hunk) => hunk.file === file).length
+      const included = group.hunks.filter((hunk) => hunk.file === file)
+      if (included.length === total) return file
+      const numbers = included.map((hunk) => hunk.id.slice(hunk.id.lastIndexOf('#') + 1))
+      return `${file} (hunks ${numbers.join(', ')} of ${total})`
+    })
+    .join(', ')
+}
+
+function printCommitPlan(
+  plan: CommitGroup[],
+  allHunks: DiffHunk[],
+  commitRules: LoadedCommitRules | null
+): void {
+  console.log(chalk.bold(`\nCommit plan (${plan.length} commits):\n`))
+  plan.forEach((group, i) => {
+    const [subject, ...body] = group.message.split('\n')
+    console.log(`  ${chalk.cyan(`${i + 1}.`)} ${chalk.green(subject)}`)
+    for (const line of body) {
+      console.log(chalk.gray(`     ${line}`))
+    }
+    console.log(chalk.gray(`     Files: ${describeHunks(group, allHunks)}`))
+    for (const violation of commitRules
+      ? lintCommitMessage(group.message, commitRules.rules)
+      : []) {
+      console.log(chalk.yellow(`     ⚠ ${violation}`))
+    }
+  })
+  console.log()
+}
+
+/**
+ * Parse a new commit order like "2,1,3". Every commit must be listed exactly once.
+ */
+function parseOrder(input: string, count: number): number[] | null {
+  const order = input
+    .split(/[\s,]+/)
+    .filter(Boolean)
+    .map((n) => Number.parseInt(n, 10) - 1)
+  const valid =
+    order.length === count &&
+    new Set(order).size === count &&
+    order.every((i) => Number.isInteger(i) && i >= 0 && i < count)
+  return valid ? order : null
+}
+
+/**
+ * Split the staged changes into several commits planned by the AI.
+ * The index is reset, then each commit's hunks are staged with `git apply --cached` and committed.
+ */
+async function commitSplit(
+  git: SimpleGit,
+  diff: string,
+  aiOptions: AIOptions,
+  template: string | undefined,
+  context: CommitMessageContext,
+  commitRules: LoadedCommitRules | null,
+  autoCommit: boolean,
+  addTickets: (message: string) => string,
+  excludedFiles: string[]
+): Promise<void> {
+  // Binary patches are needed to stage binary files, but the AI only sees the plain diff
+  const hunks = getDiffHunks(await git.diff(['--cached', '--binary']))
+  // Hunks of files matched by .gutignore are left out of the plan and go into the first commit
+  const excluded = new Set(excludedFiles)
+  const ignoredHunks = hunks.filter((hunk) => excluded.has(hunk.file))
+
+  const spinner = ora('Planning commits...').start()
+  let plan: CommitGroup[]
+  try {
+    plan = (
+      await generateCommitPlan(
+        diff,
+        hunks.filter((hunk) => !excluded.has(hunk.file)),
+        aiOptions,
+        template,
+        context
+      )
+    ).map((group) => ({
+      ...group,
+      message: addTickets(group.message)
+    }))
+    if (ignoredHunks.length > 0 && plan.length > 0) {
+      const first = new Set([...ignoredHunks, ...plan[0].hunks])
+      plan[0] = { ...plan[0], hunks: hunks.filter((hunk) => first.has(hunk)) }
+    }
+    spinner.stop()
+  } catch (error) {
+    spinner.fail('Failed to plan commits')
+    console.error(chalk.red(error instanceof Error ? error.message : 'Unknown error'))
+    process.exit(1)
+  }
+
+  if (commitRules) {
+    const failing = plan.filter(
+      (group) => lintCommitMessage(group.message, commitRules.rules).length
+    )
+    if (failing.length > 0 && autoCommit) {
+      printCommitPlan(plan, hunks, commitRules)
+      console.error(
+        chalk.red(`Not committing messages that fail commit rules (${describeRules(commitRules)}).`)
+      )
+      process.exit(1)
+    }
+  }
+
+  if (!autoCommit) {
+    const readline = await import('node:readline')
+    const rl = readline.createInterface({
+      input: process.stdin,
+      output: process.stdout
+    })
+    const ask = (question: string) =>
+      new Promise<string>((resolve) => rl.question(chalk.cyan(question), resolve))
+
+    for (;;) {
+      printCommitPlan(plan, hunks, commitRules)
+      const answer = (await ask(`Create these ${plan.length} commits? (y/N/r to reorder) `))
+        .trim()
+        .toLowerCase()
+      if (answer === 'y') break
+      if (answer !== 'r') {
+        rl.close()
+        console.log(chalk.gray('Commit cancelled'))
+        return
+      }
+      const order = parseOrder(await ask('New order (e.g. 2,1,3): '), plan.length)
+      if (order) {
+        plan = order.map((i) => plan[i])
+      } else {
+        console.log(chalk.yellow(`Enter each commit number from 1 to ${plan.length} once.`))
+      }
+    }
+    rl.close()
+  } else {
+    printCommitPlan(plan, hunks, commitRules)
+  }
+
+  // Unstage everything; the working tree keeps all changes
+  await git.raw(['reset', '--quiet'])
+
+  try {
+    for (const [i, group] of plan.entries()) {
+      await stageHunks(git, group.hunks)
+      await git.commit(group.message)
+      console.log(chalk.green(`✓ [${i + 1}/${plan.length}] ${group.message.split('\n')[0]}`))
+    }
+  } catch (error) {
+    console.error(chalk.red(error instanceof Error ? error.message : 'Unknown error'))
+    console.error(chalk.yellow('Stopped splitting. Uncommitted changes are left unstaged.'))
+    process.exit(1)
+  }
+}
 
 export const commitCommand = new Command('commit')
   .description('Generate a commit message using AI')
@@ -14,6 +257,14 @@ export const commitCommand = new Command('commit')
   .option('--base-url <url>', 'Base URL for API provider')
   .option('-c, --commit', 'Automatically commit with the generated message')
   .option('-a, --all', 'Force stage all changes (default: auto-stage if nothing staged)')
+  .option('--no-stream', 'Wait for the full message instead of streaming it')
+  .option('--no-lint', 'Skip validating the message against commit rules')
+  .option('--split', 'Split the changes into several logical commits')
+  .option('--amend', 'Regenerate the message of the last commit, including staged changes')
+  .option(
+    '--learn-style [count]',
+    `Match the style of recent commits (default: last ${DEFAULT_STYLE_SAMPLES})`
+  )
   .action(async (options) => {
     const git = simpleGit()
     const repoRoot = await git.revparse(['--show-toplevel']).catch(() => process.cwd())
@@ -25,17 +276,66 @@ export const commitCommand = new Command('commit')
       process.exit(1)
     }
 
-    const provider = await resolveProvider(options.provider)
+    // Recent commits to learn the message style from (0 disables)
+    const styleSamples =
+      options.learnStyle === undefined
+        ? getStyleSamples()
+        : options.learnStyle === true
+          ? DEFAULT_STYLE_SAMPLES
+          : Number(options.learnStyle)
+    if (!Number.isInteger(styleSamples) || styleSamples < 0) {
+      console.error(chalk.red(`Invalid number of commits: ${options.learnStyle}`))
+      process.exit(1)
+    }
+
+    // Ticket keys from the branch name, when ticket references are configured
+    const ticketConfig = getTicketConfig()
+    let ticketKeys: string[] = []
+    if (ticketConfig) {
+      const branch = await git.revparse(['--abbrev-ref', 'HEAD']).catch(() => '')
+      try {
+        ticketKeys = extractTicketKeys(branch.trim(), ticketConfig.patterns)
+      } catch (error) {
+        console.error(chalk.red(error instanceof Error ? error.message : 'Unknown error'))
+        process.exit(1)
+      }
+    }
+    const addTickets = (message: string) =>
+      ticketConfig ? appendTicketReference(message, ticketKeys, ticketConfig.format) : message
+
+    if (options.amend) {
+      if (options.split) {
+        console.error(chalk.red('--amend cannot be used with --split'))
+        process.exit(1)
+      }
+      const hasHead = await git
+        .revparse(['--verify', 'HEAD'])
+        .then(() => true)
+        .catch(() => false)
+      if (!hasHead) {
+        console.error(chalk.yellow('No commit to amend.'))
+        process.exit(1)
+      }
+    }
+
+    const provider = await resolveProvider(options.provider, 'commit')
 
     // Stage all changes if requested
     if (options.all) {
       await git.add('-A')
     }
 
-    // Get staged diff
-    let diff = await git.diff(['--cached'])
+    // Get staged diff; when amending, the last commit's changes are included
+    let diff = options.amend
+      ? await git.diff(['--cached', await getParentRef(git, 'HEAD')])
+      : await git.diff(['--cached'])
 
     // Auto-stage if no staged changes
+    if (!diff.trim() && options.amend) {
+      console.error(chalk.yellow('The last commit has no changes to describe.'))
+      process.exit(1)
+    }
+    let autoStaged = false
     if (!diff.trim()) {
       const status = await git.status()
       const unstaged = await git.diff()
@@ -47,7 +347,26 @@ export const commitCommand = new Command('commit')
       }
       console.log(chalk.gray('No staged changes, staging all changes...'))
       await git.add('-A')
+      autoStaged = true
       diff = await git.diff(['--cached'])
+
+      // A prompt preview exits at the AI call; unstage what was staged automatically
+      if (getShowPrompt()) {
+        onPreviewExit(() => git.raw(['reset', '--quiet']))
+      }
+    }
+
+    // Keep files matched by .gutignore out of the prompt
+    const filtered = filterDiff(diff, getIgnorePatterns(repoRoot.trim(), 'commit'))
+    if (filtered.allExcluded) {
+      if (autoStaged) {
+        await git.raw(['reset', '--quiet'])
+      }
+      console.error(
+        chalk.yellow('Every staged file matches .gutignore, so there is nothing to describe.')
+      )
+      console.error(chalk.gray('Commit them with: git commit -m "<message>"'))
+      process.exit(1)
     }
 
     // Find template
@@ -56,41 +375,153 @@ export const commitCommand = new Command('commit')
       console.log(chalk.gray('Using template from project...'))
     }
 
-    const spinner = ora('Generating commit message...').start()
+    // Valid scopes for the changed files, from workspaces and the configured scopes map
+    const scopeDirs = getScopeDirs(repoRoot.trim(), getScopeMap())
+    const scopes = inferScopes(getDiffFiles(diff), scopeDirs)
+    if (scopes.length > 0) {
+      console.log(chalk.gray(`Scopes: ${scopes.join(', ')}`))
+    }
+
+    if (filtered.excluded.length > 0) {
+      console.log(chalk.gray(`AI context: ${formatExcluded(filtered.excluded)}`))
+      diff = filtered.diff
+    }
+
+    // Learn how this repository writes commit messages, when enabled
+    const style = styleSamples > 0 ? await getCommitStyle(git, repoRoot.trim(), styleSamples) : null
+    if (style) {
+      console.log(chalk.gray(`Commit style: learned from ${style.commits} recent commits`))
+    }
+    const context: CommitMessageContext = { scopes, style }
+    if (ticketKeys.length > 0) {
+      console.log(chalk.gray(`Tickets: ${ticketKeys.join(', ')}`))
+    }
 
+    const aiOptions = {
+      provider,
+      model: options.model,
+      command: 'commit',
+      baseUrl: options.baseUrl || getBaseUrl(),
+      language: getLanguage()
+    }
+
+    // Load the commit rules before generating, so a broken config cannot discard a message
+    let commitRules: LoadedCommitRules | null = null
     try {
-      const message = await generateCommitMessage(
+      commitRules = await getCommitRules(repoRoot.trim(), options.lint, scopeDirs)
+    } catch (error) {
+      console.log(chalk.yellow(`⚠ ${error instanceof Error ? error.message : 'Unknown error'}`))
+      console.log(chalk.gray('  Commit messages will not be validated.'))
+    }
+
+    if (options.split) {
+      await commitSplit(
+        git,
         diff,
-        {
-          provider,
-          model: options.model,
-          baseUrl: options.baseUrl || getBaseUrl(),
-          language: getLanguage()
-        },
-        template || undefined
+        aiOptions,
+        template || undefined,
+        context,
+        commitRules,
+        Boolean(options.commit),
+        addTickets,
+        filtered.excluded
       )
+      return
+    }
 
-      spinner.stop()
-
-      console.log(chalk.bold('\nGenerated commit message:\n'))
-      console.log(chalk.green(`  ${message.split('\n')[0]}`))
-      if (message.includes('\n')) {
-        const details = message.split('\n').slice(1).join('\n')
-        console.log(
-          chalk.gray(
-            details
-              .split('\n')
-              .map((l) => `  ${l}`)
-              .join('\n')
-          )
+    const spinner = ora('Generating commit message...').start()
+
+    try {
+      let message: string
+      if (shouldStream(options)) {
+        const { textStream, text } = await streamCommitMessage(
+          diff,
+          aiOptions,
+          template || undefined,
+          context
         )
+
+        // Print the subject line in green and the body in gray as tokens arrive
+        let started = false
+        let inBody = false
+        for await (const delta of textStream) {
+          if (!started) {
+            spinner.stop()
+            console.log(chalk.bold('\nGenerated commit message:\n'))
+            process.stdout.write('  ')
+            started = true
+          }
+          delta.split('\n').forEach((line, i) => {
+            if (i > 0) {
+              inBody = true
+              process.stdout.write('\n  ')
+            }
+            if (line) {
+              process.stdout.write(inBody ? chalk.gray(line) : chalk.green(line))
+            }
+          })
+        }
+        message = await text
+        spinner.stop()
+        console.log('\n')
+      } else {
+        message = await generateCommitMessage(diff, aiOptions, template || undefined, context)
+
+        spinner.stop()
+
+        printCommitMessage('Generated commit message:', message)
       }
-      console.log()
+
+      // Reference the tickets from the branch name, unless the message already does.
+      // This happens before validation so that the checked message is the one committed.
+      const withTickets = addTickets(message)
+      if (withTickets !== message) {
+        console.log(chalk.gray(`Added ticket reference: ${withTickets.split('\n').pop()}\n`))
+        message = withTickets
+      }
+
+      // Validate against the repo's commitlint config, or the built-in rules when enabled
+      if (commitRules) {
+        const source = describeRules(commitRules)
+        let violations = lintCommitMessage(message, commitRules.rules)
+        if (violations.length > 0) {
+          printViolations(`⚠ Message violates commit rules (${source}):`, violations)
+
+          for (let attempt = 1; violations.length > 0 && attempt <= MAX_LINT_RETRIES; attempt++) {
+            spinner.start(`Fixing commit message (attempt ${attempt}/${MAX_LINT_RETRIES})...`)
+            message = addTickets(
+              await generateCommitMessage(diff, aiOptions, template || undefined, {
+                ...context,
+                feedback: { message, violations }
+              })
+            )
+            spinner.stop()
+            violations = lintCommitMessage(message, commitRules.rules)
+          }
+
+          printCommitMessage('Corrected commit message:', message)
+          if (violations.length > 0) {
+            printViolations(`⚠ Still violates commit rules (${source}):`, violations)
+            console.log()
+            if (options.commit) {
+              console.error(chalk.red('Not committing a message that fails commit rules.'))
+              process.exit(1)
+            }
+          }
+        }
+      }
+
+      // Replace the last commit when amending
+      const commit = (commitMessage: string) =>
+        options.amend
+          ? git.commit(commitMessage, undefined, { '--amend': null })
+          : git.commit(commitMessage)
+      const committed = options.amend ? '✓ Amended successfully' : '✓ Committed successfully'
 
       if (options.commit) {
         // Auto-commit
-        await git.commit(message)
-        console.log(chalk.green('✓ Committed successfully'))
+        await commit(message)
+        console.log(chalk.green(committed))
       } else {
         // Ask for confirmation
         const readline = await import('node:readline')
@@ -105,8 +536,8 @@ export const commitCommand = new Command('commit')
         rl.close()
 
         if (answer.toLowerCase() === 'y') {
-          await git.commit(message)
-          console.log(chalk.green('✓ Committed successfully'))
+          await commit(message)
+          console.log(chalk.green(committed))
         } else if (answer.toLowerCase() === 'e') {
           // Open in editor
           console.log(chalk.gray('Opening editor...'))
@@ -126,8 +557,8 @@ export const commitCommand = new Command('commit')
           fs.unlinkSync(tmpFile)
 
           if (editedMessage) {
-            await git.commit(editedMessage)
-            console.log(chalk.green('✓ Committed successfully'))
+            await commit(editedMessage)
+            console.log(chalk.green(committed))
           } else {
             console.log(chalk.yellow('Commit cancelled (empty message)'))
           }
@@ -135,7 +566,11 @@ export const commitCommand = new Command('commit')
           console.log(chalk.gray('Commit cancelled'))
           // Print the message for manual use
           console.log(chalk.gray('\nTo commit manually:'))
-          console.log(chalk.gray(`  git commit -m "${message.split('\n')[0]}"`))
+          console.log(
+            chalk.gray(
+              `  git commit${options.amend ? ' --amend' : ''} -m "${message.split('\n')[0]}"`
+            )
+          )
         }
       }
     } catch (error) {
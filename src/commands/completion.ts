@@ -4,6 +4,7 @@ import { dirname, join } from 'node:path'
 import type { Argument, Command, Option } from 'commander'
 import { CONFIG_KEY_DESCRIPTIONS, LANGUAGE_DESCRIPTIONS } from '../lib/config.js'
 import { PROVIDER_DESCRIPTIONS } from '../lib/credentials.js'
+import { getProviderChoices } from '../lib/options.js'
 
 // Description lookup for argument choices
 const CHOICE_DESCRIPTIONS: Record<string, Record<string, string>> = {
@@ -190,6 +191,7 @@ function choicesWithDescriptions(
 
 function extractCommands(program: Command): Map<string, CommandInfo> {
   const commands = new Map<string, CommandInfo>()
+  let providerChoices: string[] | undefined
 
   for (const cmd of program.commands as CommandWithInternals[]) {
     const name = cmd.name()
@@ -198,17 +200,22 @@ function extractCommands(program: Command): Map<string, CommandInfo> {
 
     for (const opt of cmd.options as (Option & { argChoices?: string[] })[]) {
       const optName = opt.long || opt.short || ''
+      // Provider choices depend on the configured profiles, so they are not declared up front
+      if (opt.long === '--provider') {
+        providerChoices ??= getProviderChoices()
+      }
+      const choices = opt.long === '--provider' ? providerChoices : opt.argChoices
       if (optName) {
         options.push({
           name: optName,
           description: opt.description || '',
-          choices: opt.argChoices
+          choices
         })
         if (opt.short && opt.long) {
           options.push({
             name: opt.short,
             description: opt.description || '',
-            choices: opt.argChoices
+            choices
           })
         }
       }
@@ -26,8 +26,12 @@ const mockGetLocalConfig = vi.fn()
 const mockSetLanguage = vi.fn()
 const mockSetModel = vi.fn()
 const mockSetProvider = vi.fn()
+const mockSetFallbackProviders = vi.fn()
 const mockIsValidLanguage = vi.fn()
 const mockIsValidProvider = vi.fn()
+const mockSetCommandConfig = vi.fn()
+const mockSetCommitValues = vi.fn()
+const mockGetCommandConfigs = vi.fn()
 
 vi.mock('../lib/config.js', () => ({
   getConfig: () => mockGetConfig(),
@@ -36,12 +40,23 @@ vi.mock('../lib/config.js', () => ({
   setModel: (...args: unknown[]) => mockSetModel(...args),
   setProvider: (...args: unknown[]) => mockSetProvider(...args),
   setBaseUrl: vi.fn(),
+  setFallbackProviders: (...args: unknown[]) => mockSetFallbackProviders(...args),
   isValidLanguage: (v: string) => mockIsValidLanguage(v),
   isValidProvider: (v: string) => mockIsValidProvider(v),
   VALID_LANGUAGES: ['en', 'ja'],
   VALID_PROVIDERS: ['gemini', 'openai', 'anthropic', 'ollama'],
   DEFAULT_MODELS: { gemini: 'gemini-2.5-flash', openai: 'gpt-4o', anthropic: 'claude-3-sonnet' },
-  CONFIG_KEYS: ['lang', 'model', 'provider', 'baseUrl']
+  CONFIG_KEYS: ['lang', 'model', 'provider', 'baseUrl', 'fallback', 'commitlint', 'commitTypes'],
+  getProviderProfileNames: vi.fn(() => []),
+  parseCommandConfigKey: (key: string) => {
+    const match = key.match(/^commands\.(review|stash)\.(provider|model)$/)
+    return match ? { command: match[1], setting: match[2] } : null
+  },
+  setCommandConfig: (...args: unknown[]) => mockSetCommandConfig(...args),
+  setCommitlint: vi.fn(),
+  setCommitValues: (...args: unknown[]) => mockSetCommitValues(...args),
+  getCommandConfigs: () => mockGetCommandConfigs(),
+  getCommandConfig: (command: string) => mockGetCommandConfigs()[command] ?? {}
 }))
 
 // Mock simple-git
@@ -64,6 +79,7 @@ describe('configCommand', () => {
     mockGetLocalConfig.mockReturnValue({})
     mockIsValidLanguage.mockReturnValue(true)
     mockIsValidProvider.mockReturnValue(true)
+    mockGetCommandConfigs.mockReturnValue({})
   })
 
   afterEach(() => {
@@ -115,6 +131,89 @@ describe('configCommand', () => {
       })
     })
 
+    describe('commit rule keys', () => {
+      it('should set allowed commit types from a comma-separated list', async () => {
+        await configCommand.parseAsync(['set', 'commitTypes', 'feat, fix,docs', '--local'], {
+          from: 'user'
+        })
+
+        expect(mockSetCommitValues).toHaveBeenCalledWith(
+          'commitTypes',
+          ['feat', 'fix', 'docs'],
+          true
+        )
+      })
+
+      it('should reject non-boolean commitlint values', async () => {
+        await expect(
+          configCommand.parseAsync(['set', 'commitlint', 'yes'], { from: 'user' })
+        ).rejects.toThrow('process.exit called')
+
+        expect(mockExit).toHaveBeenCalledWith(1)
+      })
+    })
+
+    describe('per-command keys', () => {
+      it('should set a per-command model locally', async () => {
+        await configCommand.parseAsync(
+          ['set', 'commands.review.model', 'claude-opus-4-1', '--local'],
+          {
+            from: 'user'
+          }
+        )
+
+        expect(mockSetCommandConfig).toHaveBeenCalledWith(
+          'review',
+          'model',
+          'claude-opus-4-1',
+          true
+        )
+      })
+
+      it('should reject an invalid per-command provider', async () => {
+        mockIsValidProvider.mockReturnValue(false)
+
+        await expect(
+          configCommand.parseAsync(['set', 'commands.stash.provider', 'invalid'], { from: 'user' })
+        ).rejects.toThrow('process.exit called')
+
+        expect(mockSetCommandConfig).not.toHaveBeenCalled()
+      })
+
+      it('should reject unknown per-command keys', async () => {
+        await expect(
+          configCommand.parseAsync(['set', 'commands.review.temperature', '1'], { from: 'user' })
+        ).rejects.toThrow()
+
+        expect(mockSetCommandConfig).not.toHaveBeenCalled()
+      })
+    })
+
+    describe('fallback key', () => {
+      it('should set fallback providers from a comma-separated list', async () => {
+        await configCommand.parseAsync(['set', 'fallback', 'anthropic, openai,ollama', '--local'], {
+          from: 'user'
+        })
+
+        expect(mockSetFallbackProviders).toHaveBeenCalledWith(
+          ['anthropic', 'openai', 'ollama'],
+          true
+        )
+      })
+
+      it('should reject invalid fallback providers', async () => {
+        mockSetFallbackProviders.mockImplementationOnce(() => {
+          throw new Error('Invalid provider: azure')
+        })
+
+        await expect(
+          configCommand.parseAsync(['set', 'fallback', 'azure'], { from: 'user' })
+        ).rejects.toThrow('process.exit called')
+
+        expect(mockExit).toHaveBeenCalledWith(1)
+      })
+    })
+
     describe('unknown key', () => {
       it('should reject unknown config key via Commander choices validation', async () => {
         // Commander.js validates choices before action runs and calls process.exit
@@ -138,6 +237,15 @@ describe('configCommand', () => {
       // Commander.js validates choices before action runs and calls process.exit
       await expect(configCommand.parseAsync(['get', 'unknown'], { from: 'user' })).rejects.toThrow()
     })
+
+    it('should get a per-command value', async () => {
+      mockGetCommandConfigs.mockReturnValue({ review: { model: 'claude-opus-4-1' } })
+      const consoleSpy = vi.spyOn(console, 'log')
+
+      await configCommand.parseAsync(['get', 'commands.review.model'], { from: 'user' })
+
+      expect(consoleSpy).toHaveBeenCalledWith('claude-opus-4-1')
+    })
   })
 
   describe('list subcommand', () => {
@@ -149,6 +257,27 @@ describe('configCommand', () => {
       expect(consoleSpy).toHaveBeenCalled()
     })
 
+    it('should list per-command overrides one setting per line', async () => {
+      mockGetCommandConfigs.mockReturnValue({ stash: { provider: 'ollama', model: 'llama3.3' } })
+      mockGetLocalConfig.mockReturnValue({ commands: { stash: { model: 'llama3.3' } } })
+      const consoleSpy = vi.spyOn(console, 'log')
+
+      await configCommand.parseAsync(['list'], { from: 'user' })
+
+      const lines = consoleSpy.mock.calls.map(([line]) => String(line))
+      expect(
+        lines.some(
+          (line) =>
+            line.includes('commands.stash.provider') &&
+            line.includes('ollama') &&
+            line.includes('(global)')
+        )
+      ).toBe(true)
+      expect(
+        lines.some((line) => line.includes('commands.stash.model') && line.includes('(local)'))
+      ).toBe(true)
+    })
+
     it('should indicate local config values', async () => {
       mockGetLocalConfig.mockReturnValue({ lang: 'ja' })
       const consoleSpy = vi.spyOn(console, 'log')
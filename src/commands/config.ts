@@ -3,20 +3,32 @@ import { existsSync, mkdirSync } from 'node:fs'
 import { homedir } from 'node:os'
 import { join } from 'node:path'
 import chalk from 'chalk'
-import { Argument, Command } from 'commander'
+import { Argument, Command, InvalidArgumentError } from 'commander'
 import { simpleGit } from 'simple-git'
 import {
   CONFIG_KEYS,
   DEFAULT_MODELS,
   type GutConfig,
+  getCommandConfig,
+  getCommandConfigs,
   getConfig,
   getLocalConfig,
+  getProviderProfileNames,
   isValidLanguage,
   isValidProvider,
+  parseCommandConfigKey,
   setBaseUrl,
+  setCacheTtl,
+  setCommandConfig,
+  setCommitlint,
+  setCommitValues,
+  setFallbackProviders,
   setLanguage,
   setModel,
+  setMonthlyBudget,
   setProvider,
+  setStyleSamples,
+  setTrackUsage,
   VALID_LANGUAGES,
   VALID_PROVIDERS
 } from '../lib/config.js'
@@ -27,16 +39,52 @@ function openFolder(path: string): void {
   execSync(`${cmd} "${path}"`)
 }
 
+// Per-command keys, e.g. commands.review.model
+const COMMAND_KEY_PATTERN = 'commands.<command>.<provider|model|ignore>'
+
+function parseConfigKey(key: string): string {
+  if ((CONFIG_KEYS as readonly string[]).includes(key) || parseCommandConfigKey(key)) {
+    return key
+  }
+  throw new InvalidArgumentError(
+    `Allowed choices are ${[...CONFIG_KEYS, COMMAND_KEY_PATTERN].join(', ')}.`
+  )
+}
+
 export const configCommand = new Command('config').description('Manage gut configuration')
 
 configCommand
   .command('set')
-  .addArgument(new Argument('<key>', 'Config key').choices([...CONFIG_KEYS]))
+  .addArgument(new Argument('<key>', 'Config key').argParser(parseConfigKey))
   .addArgument(new Argument('<value>', 'Config value'))
   .description('Set a configuration value')
   .option('--local', 'Set for current repository only')
   .action((key: string, value: string, options: { local?: boolean }) => {
-    if (key === 'lang') {
+    const commandKey = parseCommandConfigKey(key)
+    if (commandKey) {
+      const { command, setting } = commandKey
+      if (setting === 'provider' && value && !isValidProvider(value)) {
+        console.error(chalk.red(`Invalid provider: ${value}`))
+        console.error(
+          chalk.gray(
+            `Valid providers: ${[...VALID_PROVIDERS, ...getProviderProfileNames()].join(', ')}`
+          )
+        )
+        process.exit(1)
+      }
+      try {
+        setCommandConfig(command, setting, value, options.local ?? false)
+        const scope = options.local ? '(local)' : '(global)'
+        if (value) {
+          console.log(chalk.green(`✓ ${command} ${setting} set to: ${value} ${scope}`))
+        } else {
+          console.log(chalk.green(`✓ ${command} ${setting} cleared ${scope}`))
+        }
+      } catch (err) {
+        console.error(chalk.red((err as Error).message))
+        process.exit(1)
+      }
+    } else if (key === 'lang') {
       if (!isValidLanguage(value)) {
         console.error(chalk.red(`Invalid language: ${value}`))
         console.error(chalk.gray(`Valid languages: ${VALID_LANGUAGES.join(', ')}`))
@@ -69,7 +117,11 @@ configCommand
     } else if (key === 'provider') {
       if (!isValidProvider(value)) {
         console.error(chalk.red(`Invalid provider: ${value}`))
-        console.error(chalk.gray(`Valid providers: ${VALID_PROVIDERS.join(', ')}`))
+        console.error(
+          chalk.gray(
+            `Valid providers: ${[...VALID_PROVIDERS, ...getProviderProfileNames()].join(', ')}`
+          )
+        )
         process.exit(1)
       }
       try {
@@ -90,21 +142,169 @@ configCommand
         console.error(chalk.red((err as Error).message))
         process.exit(1)
       }
+    } else if (key === 'fallback') {
+      try {
+        const providers = value
+          .split(',')
+          .map((provider) => provider.trim())
+          .filter(Boolean)
+        setFallbackProviders(providers, options.local ?? false)
+        const scope = options.local ? '(local)' : '(global)'
+        if (providers.length > 0) {
+          console.log(chalk.green(`✓ Fallback providers set to: ${providers.join(' → ')} ${scope}`))
+        } else {
+          console.log(chalk.green(`✓ Fallback providers cleared ${scope}`))
+        }
+      } catch (err) {
+        console.error(chalk.red((err as Error).message))
+        console.error(
+          chalk.gray(
+            `Valid providers: ${[...VALID_PROVIDERS, ...getProviderProfileNames()].join(', ')}`
+          )
+        )
+        process.exit(1)
+      }
+    } else if (key === 'cacheTtl') {
+      if (!/^\d+$/.test(value)) {
+        console.error(chalk.red(`Invalid cache TTL: ${value}`))
+        console.error(chalk.gray('Expected a number of seconds (0 to disable the cache)'))
+        process.exit(1)
+      }
+      try {
+        const ttl = Number(value)
+        setCacheTtl(ttl, options.local ?? false)
+        const scope = options.local ? '(local)' : '(global)'
+        if (ttl === 0) {
+          console.log(chalk.green(`✓ Response cache disabled ${scope}`))
+        } else {
+          console.log(chalk.green(`✓ Cache TTL set to: ${ttl}s ${scope}`))
+        }
+      } catch (err) {
+        console.error(chalk.red((err as Error).message))
+        process.exit(1)
+      }
+    } else if (key === 'trackUsage') {
+      if (value !== 'true' && value !== 'false') {
+        console.error(chalk.red(`Invalid value for trackUsage: ${value}`))
+        console.error(chalk.gray('Expected true or false'))
+        process.exit(1)
+      }
+      try {
+        setTrackUsage(value === 'true', options.local ?? false)
+        const scope = options.local ? '(local)' : '(global)'
+        console.log(
+          chalk.green(`✓ Usage tracking ${value === 'true' ? 'enabled' : 'disabled'} ${scope}`)
+        )
+      } catch (err) {
+        console.error(chalk.red((err as Error).message))
+        process.exit(1)
+      }
+    } else if (key === 'monthlyBudget') {
+      const budget = Number(value)
+      if (value.trim() === '' || !Number.isFinite(budget) || budget < 0) {
+        console.error(chalk.red(`Invalid budget: ${value}`))
+        console.error(chalk.gray('Expected an amount in USD (0 to disable)'))
+        process.exit(1)
+      }
+      try {
+        setMonthlyBudget(budget, options.local ?? false)
+        const scope = options.local ? '(local)' : '(global)'
+        if (budget === 0) {
+          console.log(chalk.green(`✓ Monthly budget disabled ${scope}`))
+        } else {
+          console.log(chalk.green(`✓ Monthly budget set to: $${budget.toFixed(2)} ${scope}`))
+        }
+      } catch (err) {
+        console.error(chalk.red((err as Error).message))
+        process.exit(1)
+      }
+    } else if (key === 'commitlint') {
+      if (value !== 'true' && value !== 'false') {
+        console.error(chalk.red(`Invalid value for commitlint: ${value}`))
+        console.error(chalk.gray('Expected true or false'))
+        process.exit(1)
+      }
+      try {
+        setCommitlint(value === 'true', options.local ?? false)
+        const scope = options.local ? '(local)' : '(global)'
+        console.log(
+          chalk.green(
+            `✓ Commit message validation ${value === 'true' ? 'enabled' : 'disabled'} ${scope}`
+          )
+        )
+      } catch (err) {
+        console.error(chalk.red((err as Error).message))
+        process.exit(1)
+      }
+    } else if (key === 'styleSamples') {
+      if (!/^\d+$/.test(value)) {
+        console.error(chalk.red(`Invalid number of commits: ${value}`))
+        console.error(chalk.gray('Expected a number of commits (0 to disable)'))
+        process.exit(1)
+      }
+      try {
+        const samples = Number(value)
+        setStyleSamples(samples, options.local ?? false)
+        const scope = options.local ? '(local)' : '(global)'
+        if (samples === 0) {
+          console.log(chalk.green(`✓ Commit style learning disabled ${scope}`))
+        } else {
+          console.log(
+            chalk.green(`✓ Learning commit style from the last ${samples} commits ${scope}`)
+          )
+        }
+      } catch (err) {
+        console.error(chalk.red((err as Error).message))
+        process.exit(1)
+      }
+    } else if (key === 'commitTypes' || key === 'commitScopes') {
+      try {
+        const values = value
+          .split(',')
+          .map((v) => v.trim())
+          .filter(Boolean)
+        setCommitValues(key, values, options.local ?? false)
+        const scope = options.local ? '(local)' : '(global)'
+        const label = key === 'commitTypes' ? 'Commit types' : 'Commit scopes'
+        if (values.length > 0) {
+          console.log(chalk.green(`✓ ${label} set to: ${values.join(', ')} ${scope}`))
+        } else {
+          console.log(chalk.green(`✓ ${label} cleared ${scope}`))
+        }
+      } catch (err) {
+        console.error(chalk.red((err as Error).message))
+        process.exit(1)
+      }
     } else {
       console.error(chalk.red(`Unknown config key: ${key}`))
-      console.error(chalk.gray('Available keys: lang, model, provider, baseUrl'))
+      console.error(
+        chalk.gray(`Available keys: ${[...CONFIG_KEYS, COMMAND_KEY_PATTERN].join(', ')}`)
+      )
       process.exit(1)
     }
   })
 
 configCommand
   .command('get')
-  .addArgument(new Argument('<key>', 'Config key').choices([...CONFIG_KEYS]))
+  .addArgument(new Argument('<key>', 'Config key').argParser(parseConfigKey))
   .description('Get a configuration value')
   .action((key: string) => {
+    const commandKey = parseCommandConfigKey(key)
+    if (commandKey) {
+      const value = getCommandConfig(commandKey.command)[commandKey.setting]
+      if (value) {
+        console.log(Array.isArray(value) ? value.join(', ') : value)
+      } else {
+        console.error(chalk.red(`Unknown config key: ${key}`))
+        process.exit(1)
+      }
+      return
+    }
+
     const config = getConfig()
     if (key in config) {
-      console.log(config[key as keyof GutConfig])
+      const value = config[key as keyof GutConfig]
+      console.log(typeof value === 'object' ? JSON.stringify(value) : value)
     } else {
       console.error(chalk.red(`Unknown config key: ${key}`))
       process.exit(1)
@@ -122,12 +322,25 @@ configCommand
     console.log()
 
     for (const key of Object.keys(effectiveConfig) as (keyof GutConfig)[]) {
-      const value = effectiveConfig[key]
+      // Per-command overrides are listed one setting per line below
+      if (key === 'commands') continue
+      // Provider profiles are objects; show them as JSON
+      const raw = effectiveConfig[key]
+      const value = typeof raw === 'object' ? JSON.stringify(raw) : raw
       const isLocal = key in localConfig
       const scope = isLocal ? chalk.cyan(' (local)') : chalk.gray(' (global)')
       console.log(`  ${chalk.cyan(key)}: ${value}${scope}`)
     }
 
+    for (const [command, commandConfig] of Object.entries(getCommandConfigs())) {
+      for (const [setting, value] of Object.entries(commandConfig)) {
+        const isLocal = localConfig.commands?.[command]?.[setting as keyof typeof commandConfig]
+        const scope = isLocal ? chalk.cyan(' (local)') : chalk.gray(' (global)')
+        const shown = typeof value === 'object' ? JSON.stringify(value) : value
+        console.log(`  ${chalk.cyan(`commands.${command}.${setting}`)}: ${shown}${scope}`)
+      }
+    }
+
     if (Object.keys(localConfig).length > 0) {
       console.log()
       console.log(chalk.gray('Local config: .gut/config.json'))
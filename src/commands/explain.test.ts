@@ -53,7 +53,9 @@ vi.mock('../lib/config.js', () => ({
   getConfiguredModel: vi.fn(() => undefined),
   getDefaultModel: vi.fn(() => 'gemini-2.5-flash'),
   getLanguage: vi.fn(() => 'en'),
-  getBaseUrl: vi.fn(() => undefined)
+  getBaseUrl: vi.fn(() => undefined),
+  getProviderProfileNames: vi.fn(() => []),
+  getCommandConfig: vi.fn(() => ({}))
 }))
 
 // Mock gh CLI
@@ -120,6 +122,43 @@ describe('explainCommand', () => {
     })
   })
 
+  describe('ignored files', () => {
+    const lockDiff = 'diff --git a/yarn.lock b/yarn.lock\n+lodash@4\n'
+    const appDiff = 'diff --git a/src/app.ts b/src/app.ts\n+new content\n'
+
+    beforeEach(async () => {
+      const { getCommandConfig } = await import('../lib/config.js')
+      vi.mocked(getCommandConfig).mockReturnValue({ ignore: ['*.lock'] })
+    })
+
+    afterEach(async () => {
+      const { getCommandConfig } = await import('../lib/config.js')
+      vi.mocked(getCommandConfig).mockReturnValue({})
+    })
+
+    it('should keep ignored files out of the explanation context', async () => {
+      const { generateExplanation } = await import('../lib/ai.js')
+      mockGit.diff.mockResolvedValue(`${appDiff}${lockDiff}`)
+
+      await explainCommand.parseAsync(['--staged'], { from: 'user' })
+
+      const context = vi.mocked(generateExplanation).mock.calls[0][0]
+      expect(context.diff).toContain('[gut] excluded 1 file (yarn.lock)')
+      expect(context.diff).not.toContain('lodash@4')
+    })
+
+    it('should not call the AI when every changed file is ignored', async () => {
+      const { generateExplanation } = await import('../lib/ai.js')
+      mockGit.diff.mockResolvedValue(lockDiff)
+
+      await expect(explainCommand.parseAsync(['--staged'], { from: 'user' })).rejects.toThrow(
+        'process.exit called'
+      )
+
+      expect(generateExplanation).not.toHaveBeenCalled()
+    })
+  })
+
   describe('JSON output', () => {
     it('should output JSON with --json flag', async () => {
       mockGit.diff
@@ -161,7 +200,7 @@ describe('explainCommand', () => {
 
       await explainCommand.parseAsync(['-p', 'openai'], { from: 'user' })
 
-      expect(resolveProvider).toHaveBeenCalledWith('openai')
+      expect(resolveProvider).toHaveBeenCalledWith('openai', 'explain')
     })
   })
 })
@@ -4,11 +4,12 @@ import chalk from 'chalk'
 import { Command } from 'commander'
 import ora from 'ora'
 import { simpleGit } from 'simple-git'
-import { findTemplate, generateExplanation } from '../lib/ai.js'
+import { findTemplate, generateExplanation, streamExplanation } from '../lib/ai.js'
 import { getBaseUrl, getLanguage } from '../lib/config.js'
 import { resolveProvider } from '../lib/credentials.js'
 import { requireGhCli } from '../lib/gh.js'
-import { providerOption } from '../lib/options.js'
+import { filterDiff, getIgnorePatterns } from '../lib/ignore.js'
+import { providerOption, shouldStream } from '../lib/options.js'
 
 export const explainCommand = new Command('explain')
   .description('Get an AI-powered explanation of changes, commits, PRs, or files')
@@ -23,6 +24,7 @@ export const explainCommand = new Command('explain')
   .option('-n, --commits <n>', 'Number of commits to analyze for file history (default: 1)', '1')
   .option('--history', 'Explain file change history instead of content')
   .option('--json', 'Output as JSON')
+  .option('--no-stream', 'Wait for the full explanation instead of streaming it')
   .action(async (target, options) => {
     const git = simpleGit()
 
@@ -32,7 +34,7 @@ export const explainCommand = new Command('explain')
       process.exit(1)
     }
 
-    const provider = await resolveProvider(options.provider)
+    const provider = await resolveProvider(options.provider, 'explain')
     const repoRoot = await git.revparse(['--show-toplevel']).catch(() => process.cwd())
     const spinner = ora('Analyzing...').start()
 
@@ -75,6 +77,15 @@ export const explainCommand = new Command('explain')
         }
       }
 
+      // Keep files matched by .gutignore out of the prompt
+      if (context.diff) {
+        const filtered = filterDiff(context.diff, getIgnorePatterns(repoRoot.trim(), 'explain'))
+        if (filtered.allExcluded) {
+          throw new Error('Every changed file matches .gutignore, so there is nothing to explain')
+        }
+        context.diff = filtered.diff
+      }
+
       // Find template
       const isFileContent = context.type === 'file-content'
       const templateName = isFileContent ? 'explain-file' : 'explain'
@@ -85,16 +96,53 @@ export const explainCommand = new Command('explain')
 
       spinner.text = 'AI is generating explanation...'
 
-      const explanation = await generateExplanation(
-        context,
-        {
-          provider,
-          model: options.model,
-          baseUrl: options.baseUrl || getBaseUrl(),
-          language: getLanguage()
-        },
-        template || undefined
-      )
+      const aiOptions = {
+        provider,
+        model: options.model,
+        command: 'explain',
+        baseUrl: options.baseUrl || getBaseUrl(),
+        language: getLanguage()
+      }
+
+      if (shouldStream(options)) {
+        const { partialObjectStream, object } = await streamExplanation(
+          context,
+          aiOptions,
+          template || undefined
+        )
+
+        // A section is complete once the model has started on the next one
+        let printedSections = 0
+        for await (const partial of partialObjectStream) {
+          while (
+            printedSections < EXPLANATION_SECTIONS.length - 1 &&
+            partial[EXPLANATION_SECTIONS[printedSections + 1]] !== undefined
+          ) {
+            if (printedSections === 0) {
+              spinner.stop()
+              printExplanationHeader(context.type)
+            }
+            printExplanationSection(
+              EXPLANATION_SECTIONS[printedSections],
+              partial as Explanation,
+              context.type
+            )
+            printedSections++
+          }
+        }
+
+        const explanation = await object
+        if (printedSections === 0) {
+          spinner.stop()
+          printExplanationHeader(context.type)
+        }
+        for (const section of EXPLANATION_SECTIONS.slice(printedSections)) {
+          printExplanationSection(section, explanation, context.type)
+        }
+        return
+      }
+
+      const explanation = await generateExplanation(context, aiOptions, template || undefined)
 
       spinner.stop()
 
@@ -337,10 +385,12 @@ interface Explanation {
   notes?: string[]
 }
 
-function printExplanation(
-  explanation: Explanation,
-  type: 'commit' | 'pr' | 'file-history' | 'file-content' | 'uncommitted' | 'staged'
-) {
+type ExplainType = ExplainContext['type']
+
+// Sections in the order the model generates them
+const EXPLANATION_SECTIONS = ['summary', 'purpose', 'changes', 'impact', 'notes'] as const
+
+function printExplanationHeader(type: ExplainType) {
   const icons: Record<string, string> = {
     pr: '🔀',
     'file-content': '📄',
@@ -351,36 +401,53 @@ function printExplanation(
   }
   const icon = icons[type] || '📝'
   console.log(chalk.bold(`\n${icon} Explanation\n`))
+}
 
-  // Summary
-  console.log(chalk.cyan('Summary:'))
-  console.log(`  ${explanation.summary}\n`)
-
-  // Purpose
-  console.log(chalk.cyan('Purpose:'))
-  console.log(`  ${explanation.purpose}\n`)
-
-  // Changes / Components
-  if (explanation.changes.length > 0) {
-    const header = type === 'file-content' ? 'Components:' : 'Key Changes:'
-    console.log(chalk.cyan(header))
-    for (const change of explanation.changes) {
-      console.log(`  ${chalk.yellow(change.file)}`)
-      console.log(`    ${chalk.gray(change.description)}`)
-    }
-    console.log()
+function printExplanationSection(
+  section: (typeof EXPLANATION_SECTIONS)[number],
+  explanation: Explanation,
+  type: ExplainType
+) {
+  switch (section) {
+    case 'summary':
+      console.log(chalk.cyan('Summary:'))
+      console.log(`  ${explanation.summary}\n`)
+      break
+    case 'purpose':
+      console.log(chalk.cyan('Purpose:'))
+      console.log(`  ${explanation.purpose}\n`)
+      break
+    case 'changes':
+      // Changes / Components
+      if (explanation.changes.length > 0) {
+        const header = type === 'file-content' ? 'Components:' : 'Key Changes:'
+        console.log(chalk.cyan(header))
+        for (const change of explanation.changes) {
+          console.log(`  ${chalk.yellow(change.file)}`)
+          console.log(`    ${chalk.gray(change.description)}`)
+        }
+        console.log()
+      }
+      break
+    case 'impact':
+      console.log(chalk.cyan('Impact:'))
+      console.log(`  ${explanation.impact}\n`)
+      break
+    case 'notes':
+      if (explanation.notes && explanation.notes.length > 0) {
+        console.log(chalk.cyan('Notes:'))
+        for (const note of explanation.notes) {
+          console.log(`  ${chalk.gray('•')} ${note}`)
+        }
+        console.log()
+      }
+      break
   }
+}
 
-  // Impact
-  console.log(chalk.cyan('Impact:'))
-  console.log(`  ${explanation.impact}\n`)
-
-  // Notes
-  if (explanation.notes && explanation.notes.length > 0) {
-    console.log(chalk.cyan('Notes:'))
-    for (const note of explanation.notes) {
-      console.log(`  ${chalk.gray('•')} ${note}`)
-    }
-    console.log()
+function printExplanation(explanation: Explanation, type: ExplainType) {
+  printExplanationHeader(type)
+  for (const section of EXPLANATION_SECTIONS) {
+    printExplanationSection(section, explanation, type)
   }
 }
@@ -54,7 +54,8 @@ vi.mock('../lib/config.js', () => ({
   getConfiguredModel: vi.fn(() => undefined),
   getDefaultModel: vi.fn(() => 'gemini-2.5-flash'),
   getLanguage: vi.fn(() => 'en'),
-  getBaseUrl: vi.fn(() => undefined)
+  getBaseUrl: vi.fn(() => undefined),
+  getProviderProfileNames: vi.fn(() => [])
 }))
 
 // Mock simple-git
@@ -185,7 +186,7 @@ describe('findCommand', () => {
 
       await findCommand.parseAsync(['query', '-p', 'anthropic'], { from: 'user' })
 
-      expect(resolveProvider).toHaveBeenCalledWith('anthropic')
+      expect(resolveProvider).toHaveBeenCalledWith('anthropic', 'find')
     })
   })
 })
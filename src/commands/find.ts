@@ -32,7 +32,7 @@ export const findCommand = new Command('find')
       process.exit(1)
     }
 
-    const provider = await resolveProvider(options.provider)
+    const provider = await resolveProvider(options.provider, 'find')
     const repoRoot = await git.revparse(['--show-toplevel']).catch(() => process.cwd())
     const spinner = ora('Searching commits...').start()
 
@@ -83,6 +83,7 @@ export const findCommand = new Command('find')
         {
           provider,
           model: options.model,
+          command: 'find',
           baseUrl: options.baseUrl || getBaseUrl(),
           language: getLanguage()
         },
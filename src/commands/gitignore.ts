@@ -136,7 +136,7 @@ export const gitignoreCommand = new Command('gitignore')
     const repoRoot = await git.revparse(['--show-toplevel']).catch(() => process.cwd())
     const root = repoRoot.trim()
 
-    const provider = await resolveProvider(options.provider)
+    const provider = await resolveProvider(options.provider, 'gitignore')
     const template = findTemplate(root, 'gitignore')
 
     if (template) {
@@ -178,6 +178,7 @@ export const gitignoreCommand = new Command('gitignore')
         {
           provider,
           model: options.model,
+          command: 'gitignore',
           baseUrl: options.baseUrl || getBaseUrl(),
           language: getLanguage()
         },
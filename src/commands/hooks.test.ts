@@ -0,0 +1,169 @@
+import { existsSync, mkdtempSync, readFileSync, rmSync, statSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+// Mock process.exit
+const mockExit = vi.spyOn(process, 'exit').mockImplementation(() => {
+  throw new Error('process.exit called')
+})
+
+// Mock console methods
+vi.spyOn(console, 'log').mockImplementation(() => {})
+vi.spyOn(console, 'error').mockImplementation(() => {})
+
+// Mock AI module
+vi.mock('../lib/ai.js', () => ({
+  generateCommitMessage: vi.fn(() => Promise.resolve('feat: add login')),
+  findTemplate: vi.fn(() => '# Team commit rules')
+}))
+
+vi.mock('../lib/credentials.js', () => ({
+  resolveProvider: vi.fn(() => Promise.resolve('gemini'))
+}))
+
+vi.mock('../lib/config.js', () => ({
+  getBaseUrl: vi.fn(() => undefined),
+  getLanguage: vi.fn(() => 'en'),
+  getScopeMap: vi.fn(() => ({})),
+  getStyleSamples: vi.fn(() => 0),
+  getTicketConfig: vi.fn(() => undefined),
+  getCommandConfig: vi.fn(() => ({}))
+}))
+
+// Mock simple-git
+const mockGit = {
+  checkIsRepo: vi.fn(() => Promise.resolve(true)),
+  revparse: vi.fn((_args: string[]) => Promise.resolve('/test/repo\n')),
+  raw: vi.fn((_args: string[]) => Promise.resolve('')),
+  diff: vi.fn(() => Promise.resolve('diff --git a/file.ts b/file.ts\n+new content'))
+}
+
+vi.mock('simple-git', () => ({
+  simpleGit: vi.fn(() => mockGit)
+}))
+
+import { generateCommitMessage } from '../lib/ai.js'
+import { hooksCommand } from './hooks.js'
+
+describe('hooksCommand', () => {
+  let dir: string
+  let hookPath: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'gut-test-hooks-'))
+    hookPath = join(dir, 'hooks', 'prepare-commit-msg')
+    mockGit.raw.mockResolvedValue(`${join(dir, 'hooks')}\n`)
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+    vi.clearAllMocks()
+  })
+
+  describe('install', () => {
+    it('should write an executable prepare-commit-msg hook', async () => {
+      await hooksCommand.parseAsync(['install'], { from: 'user' })
+
+      expect(mockGit.raw).toHaveBeenCalledWith(['rev-parse', '--git-path', 'hooks'])
+      expect(readFileSync(hookPath, 'utf-8')).toContain(
+        'gut hooks run prepare-commit-msg "$@" || true'
+      )
+      expect(statSync(hookPath).mode & 0o111).toBeTruthy()
+    })
+
+    it('should not overwrite a hook it did not install', async () => {
+      await hooksCommand.parseAsync(['install'], { from: 'user' })
+      writeFileSync(hookPath, '#!/bin/sh\necho custom\n')
+
+      await expect(hooksCommand.parseAsync(['install'], { from: 'user' })).rejects.toThrow(
+        'process.exit called'
+      )
+
+      expect(mockExit).toHaveBeenCalledWith(1)
+      expect(readFileSync(hookPath, 'utf-8')).toContain('echo custom')
+    })
+  })
+
+  describe('uninstall', () => {
+    it('should remove the installed hook', async () => {
+      await hooksCommand.parseAsync(['install'], { from: 'user' })
+      await hooksCommand.parseAsync(['uninstall'], { from: 'user' })
+
+      expect(existsSync(hookPath)).toBe(false)
+    })
+  })
+
+  describe('run prepare-commit-msg', () => {
+    let messageFile: string
+
+    beforeEach(() => {
+      messageFile = join(dir, 'COMMIT_EDITMSG')
+      writeFileSync(messageFile, '\n# Please enter the commit message for your changes.\n')
+    })
+
+    it('should pre-fill the message above the comments', async () => {
+      await hooksCommand.parseAsync(['run', 'prepare-commit-msg', messageFile], { from: 'user' })
+
+      expect(generateCommitMessage).toHaveBeenCalledWith(
+        'diff --git a/file.ts b/file.ts\n+new content',
+        expect.objectContaining({ provider: 'gemini', command: 'commit' }),
+        '# Team commit rules',
+        { scopes: [], style: null }
+      )
+      expect(readFileSync(messageFile, 'utf-8')).toBe(
+        'feat: add login\n\n# Please enter the commit message for your changes.\n'
+      )
+    })
+
+    it('should reference the ticket from the branch name', async () => {
+      const { getTicketConfig } = await import('../lib/config.js')
+      vi.mocked(getTicketConfig).mockReturnValueOnce({
+        patterns: ['([A-Z]+-\\d+)-'],
+        format: 'closes'
+      })
+      mockGit.revparse.mockImplementation((args: string[]) =>
+        Promise.resolve(
+          args[0] === '--abbrev-ref' ? 'feature/PROJ-1234-add-login\n' : '/test/repo\n'
+        )
+      )
+
+      await hooksCommand.parseAsync(['run', 'prepare-commit-msg', messageFile], { from: 'user' })
+
+      mockGit.revparse.mockImplementation(() => Promise.resolve('/test/repo\n'))
+      expect(readFileSync(messageFile, 'utf-8')).toBe(
+        'feat: add login\n\nCloses: PROJ-1234\n\n# Please enter the commit message for your changes.\n'
+      )
+    })
+
+    it('should keep a message given with -m', async () => {
+      writeFileSync(messageFile, 'fix: typo\n')
+
+      await hooksCommand.parseAsync(['run', 'prepare-commit-msg', messageFile, 'message'], {
+        from: 'user'
+      })
+
+      expect(generateCommitMessage).not.toHaveBeenCalled()
+      expect(readFileSync(messageFile, 'utf-8')).toBe('fix: typo\n')
+    })
+
+    it.each(['merge', 'squash', 'commit'])('should skip %s commits', async (source) => {
+      await hooksCommand.parseAsync(['run', 'prepare-commit-msg', messageFile, source, 'HEAD'], {
+        from: 'user'
+      })
+
+      expect(generateCommitMessage).not.toHaveBeenCalled()
+    })
+
+    it('should never fail the commit', async () => {
+      vi.mocked(generateCommitMessage).mockRejectedValueOnce(new Error('No API key'))
+
+      await hooksCommand.parseAsync(['run', 'prepare-commit-msg', messageFile], { from: 'user' })
+
+      expect(mockExit).not.toHaveBeenCalled()
+      expect(readFileSync(messageFile, 'utf-8')).toBe(
+        '\n# Please enter the commit message for your changes.\n'
+      )
+    })
+  })
+})
@@ -0,0 +1,160 @@
+import { chmodSync, existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs'
+import { dirname, join, resolve } from 'node:path'
+import chalk from 'chalk'
+import { Command } from 'commander'
+import { simpleGit } from 'simple-git'
+import { findTemplate, generateCommitMessage } from '../lib/ai.js'
+import {
+  getBaseUrl,
+  getLanguage,
+  getScopeMap,
+  getStyleSamples,
+  getTicketConfig
+} from '../lib/config.js'
+import { resolveProvider } from '../lib/credentials.js'
+import { getDiffFiles } from '../lib/diff.js'
+import { getCommitStyle } from '../lib/history.js'
+import { filterDiff, getIgnorePatterns } from '../lib/ignore.js'
+import { getScopeDirs, inferScopes } from '../lib/scopes.js'
+import { appendTicketReference, extractTicketKeys } from '../lib/tickets.js'
+
+const HOOK_NAME = 'prepare-commit-msg'
+
+// Identifies hooks written by gut, so that other hooks are never overwritten or removed
+const HOOK_MARKER = '# Installed by gut (gut hooks install)'
+
+const HOOK_SCRIPT = `#!/bin/sh
+${HOOK_MARKER}
+# Pre-fills the commit message with AI. Set GUT_SKIP_HOOK=1 to skip it.
+[ -n "$GUT_SKIP_HOOK" ] && exit 0
+command -v gut >/dev/null 2>&1 || exit 0
+gut hooks run ${HOOK_NAME} "$@" || true
+`
+
+// Commit sources whose message must be kept as is: merges, squashes and amends (-c/-C/--amend)
+const SKIPPED_SOURCES = ['merge', 'squash', 'commit']
+
+async function getHookPath(): Promise<string> {
+  const git = simpleGit()
+  const hooksDir = await git.raw(['rev-parse', '--git-path', 'hooks'])
+  return join(resolve(hooksDir.trim()), HOOK_NAME)
+}
+
+function isGutHook(path: string): boolean {
+  return readFileSync(path, 'utf-8').includes(HOOK_MARKER)
+}
+
+/**
+ * Whether the message file already has a message, ignoring git's comment lines
+ */
+function hasMessage(content: string): boolean {
+  return content.split('\n').some((line) => line.trim() && !line.startsWith('#'))
+}
+
+export const hooksCommand = new Command('hooks').description('Manage git hooks')
+
+hooksCommand
+  .command('install')
+  .description(`Install a ${HOOK_NAME} hook that pre-fills commit messages with AI`)
+  .option('-f, --force', 'Overwrite an existing hook')
+  .action(async (options: { force?: boolean }) => {
+    const git = simpleGit()
+    if (!(await git.checkIsRepo())) {
+      console.error(chalk.red('Error: Not a git repository'))
+      process.exit(1)
+    }
+
+    const hookPath = await getHookPath()
+    if (existsSync(hookPath) && !isGutHook(hookPath) && !options.force) {
+      console.error(chalk.red(`A ${HOOK_NAME} hook already exists: ${hookPath}`))
+      console.error(chalk.gray('Use --force to replace it.'))
+      process.exit(1)
+    }
+
+    mkdirSync(dirname(hookPath), { recursive: true })
+    writeFileSync(hookPath, HOOK_SCRIPT)
+    chmodSync(hookPath, 0o755)
+    console.log(chalk.green(`✓ Installed ${HOOK_NAME} hook: ${hookPath}`))
+    console.log(chalk.gray('  git commit now opens with an AI-generated message.'))
+  })
+
+hooksCommand
+  .command('uninstall')
+  .description(`Remove the ${HOOK_NAME} hook installed by gut`)
+  .action(async () => {
+    const hookPath = await getHookPath()
+    if (!existsSync(hookPath)) {
+      console.log(chalk.gray(`No ${HOOK_NAME} hook installed`))
+      return
+    }
+    if (!isGutHook(hookPath)) {
+      console.error(chalk.red(`The ${HOOK_NAME} hook was not installed by gut: ${hookPath}`))
+      process.exit(1)
+    }
+    rmSync(hookPath)
+    console.log(chalk.green(`✓ Removed ${HOOK_NAME} hook`))
+  })
+
+// Called by the installed hook; never fails, so that a commit is never blocked by gut
+hooksCommand
+  .command('run', { hidden: true })
+  .description('Run a git hook')
+  .argument('<hook>', 'Hook name')
+  .argument('<file>', 'Commit message file')
+  .argument('[source]', 'Commit message source')
+  .argument('[sha]', 'Commit the message comes from')
+  .action(async (hook: string, file: string, source?: string) => {
+    if (hook !== HOOK_NAME) {
+      console.error(chalk.red(`Unknown hook: ${hook}`))
+      process.exit(1)
+    }
+    if (source && SKIPPED_SOURCES.includes(source)) return
+
+    try {
+      const content = readFileSync(file, 'utf-8')
+      if (hasMessage(content)) return
+
+      const git = simpleGit()
+      const diff = await git.diff(['--cached'])
+      if (!diff.trim()) return
+
+      const repoRoot = (await git.revparse(['--show-toplevel'])).trim()
+      const template = findTemplate(repoRoot, 'commit')
+      const scopes = inferScopes(getDiffFiles(diff), getScopeDirs(repoRoot, getScopeMap()))
+      // Leave the message to the user when every staged file is excluded from AI context
+      const filtered = filterDiff(diff, getIgnorePatterns(repoRoot, 'commit'))
+      if (filtered.allExcluded) return
+      const styleSamples = getStyleSamples()
+      const style = styleSamples > 0 ? await getCommitStyle(git, repoRoot, styleSamples) : null
+
+      console.error(chalk.gray('gut: generating commit message...'))
+      const provider = await resolveProvider(undefined, 'commit')
+      let message = await generateCommitMessage(
+        filtered.diff,
+        {
+          provider,
+          command: 'commit',
+          baseUrl: getBaseUrl(),
+          language: getLanguage()
+        },
+        template || undefined,
+        { scopes, style }
+      )
+
+      const ticketConfig = getTicketConfig()
+      if (ticketConfig) {
+        const branch = (await git.revparse(['--abbrev-ref', 'HEAD'])).trim()
+        const keys = extractTicketKeys(branch, ticketConfig.patterns)
+        message = appendTicketReference(message, keys, ticketConfig.format)
+      }
+
+      // Keep git's comment block below the message
+      writeFileSync(file, `${message}\n${content}`)
+    } catch (error) {
+      console.error(
+        chalk.yellow(
+          `gut: could not generate a commit message: ${error instanceof Error ? error.message : 'Unknown error'}`
+        )
+      )
+    }
+  })
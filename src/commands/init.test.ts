@@ -72,7 +72,11 @@ vi.mock('../lib/credentials.js', () => ({
 // Mock config
 vi.mock('../lib/config.js', () => ({
   getLanguage: vi.fn(() => 'en'),
-  getDefaultModel: vi.fn(() => 'gemini-2.5-flash')
+  getDefaultModel: vi.fn(() => 'gemini-2.5-flash'),
+  getProviderProfileNames: vi.fn(() => []),
+  getFallbackProviders: vi.fn(() => []),
+  getCacheTtl: vi.fn(() => 0),
+  getTrackUsage: vi.fn(() => false)
 }))
 
 // Mock simple-git
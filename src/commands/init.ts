@@ -12,7 +12,7 @@ import { Command } from 'commander'
 import ora from 'ora'
 import { simpleGit } from 'simple-git'
 import { getDefaultModel, getLanguage } from '../lib/config.js'
-import { getApiKey, type Provider, resolveProvider } from '../lib/credentials.js'
+import { getApiKey, type ProviderName, resolveProvider } from '../lib/credentials.js'
 import { providerOption } from '../lib/options.js'
 
 function openFolder(path: string): void {
@@ -27,10 +27,12 @@ const __dirname = dirname(__filename)
 const GUT_ROOT = join(__dirname, '..')
 
 const TEMPLATE_FILES = [
+  'add.md',
   'branch.md',
   'changelog.md',
   'checkout.md',
   'commit.md',
+  'diff-summary.md',
   'explain.md',
   'explain-file.md',
   'find.md',
@@ -44,7 +46,7 @@ const TEMPLATE_FILES = [
 async function translateTemplate(
   content: string,
   targetLang: string,
-  provider: Provider
+  provider: ProviderName
 ): Promise<string> {
   const apiKey = await getApiKey(provider)
   if (!apiKey) {
@@ -89,7 +91,8 @@ async function translateTemplate(
   const { text } = await generateText({
     model,
     prompt: `Translate the following prompt template to ${targetLangName}.
-Keep all {{variable}} placeholders exactly as they are - do not translate them.
+Keep all {{variable}} placeholders, {{#if}}/{{else}}/{{/if}} blocks and {{> include}} tags exactly as they are - do not translate them.
+Keep any front-matter between --- lines unchanged.
 Keep the markdown formatting intact.
 Only translate the instructional text.
 
@@ -20,7 +20,8 @@ vi.mock('../lib/config.js', () => ({
   setLanguage: (...args: unknown[]) => mockSetLanguage(...args),
   getLocalConfig: () => mockGetLocalConfig(),
   isValidLanguage: (v: string) => mockIsValidLanguage(v),
-  VALID_LANGUAGES: ['en', 'ja']
+  VALID_LANGUAGES: ['en', 'ja'],
+  getProviderProfileNames: vi.fn(() => [])
 }))
 
 // Import the command after mocks
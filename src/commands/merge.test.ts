@@ -81,7 +81,13 @@ vi.mock('../lib/config.js', () => ({
   getConfiguredModel: vi.fn(() => undefined),
   getDefaultModel: vi.fn(() => 'gemini-2.5-flash'),
   getLanguage: vi.fn(() => 'en'),
-  getBaseUrl: vi.fn(() => undefined)
+  getBaseUrl: vi.fn(() => undefined),
+  getProviderProfileNames: vi.fn(() => []),
+  getFallbackProviders: vi.fn(() => []),
+  getCacheTtl: vi.fn(() => 0),
+  getTrackUsage: vi.fn(() => false),
+  getCommandConfig: vi.fn(() => ({})),
+  getSecretsConfig: vi.fn(() => ({ redact: true, blockPaths: [] as string[] }))
 }))
 
 // Mock simple-git
@@ -146,6 +152,32 @@ describe('mergeCommand', () => {
     })
   })
 
+  describe('blocked paths', () => {
+    it('should not send a conflicted file in secrets.blockPaths to the AI', async () => {
+      const { getSecretsConfig } = await import('../lib/config.js')
+      vi.mocked(getSecretsConfig).mockReturnValue({ redact: true, blockPaths: ['secret/**'] })
+      const doGenerate = vi.spyOn(mockModel, 'doGenerate')
+      mockGit.merge.mockRejectedValueOnce(new Error('Merge conflict'))
+      mockGit.status
+        .mockResolvedValueOnce({ modified: [], staged: [], conflicted: [] })
+        .mockResolvedValueOnce({ modified: [], staged: [], conflicted: ['secret/k.txt'] })
+        .mockResolvedValueOnce({ modified: [], staged: [], conflicted: ['secret/k.txt'] })
+
+      try {
+        await mergeCommand.parseAsync(['feature/conflict'], { from: 'user' })
+      } finally {
+        vi.mocked(getSecretsConfig).mockReturnValue({ redact: true, blockPaths: [] })
+      }
+
+      expect(console.error).toHaveBeenCalledWith(
+        expect.stringContaining('Not sending secret/k.txt to the AI provider')
+      )
+      expect(doGenerate).not.toHaveBeenCalled()
+      expect(mockGit.add).not.toHaveBeenCalled()
+      expect(mockGit.commit).not.toHaveBeenCalled()
+    })
+  })
+
   describe('uncommitted changes check', () => {
     it('should exit when there are uncommitted changes', async () => {
       mockGit.status.mockResolvedValue({
@@ -201,7 +233,7 @@ describe('mergeCommand', () => {
 
       await mergeCommand.parseAsync(['feature/test', '-p', 'anthropic'], { from: 'user' })
 
-      expect(resolveProvider).toHaveBeenCalledWith('anthropic')
+      expect(resolveProvider).toHaveBeenCalledWith('anthropic', 'merge')
     })
   })
 })
@@ -8,6 +8,7 @@ import { findTemplate, resolveConflict } from '../lib/ai.js'
 import { getBaseUrl, getLanguage } from '../lib/config.js'
 import { resolveProvider } from '../lib/credentials.js'
 import { providerOption } from '../lib/options.js'
+import { getShowPrompt, onPreviewExit } from '../lib/preview.js'
 
 export const mergeCommand = new Command('merge')
   .description('Merge a branch with AI-powered conflict resolution')
@@ -25,7 +26,7 @@ export const mergeCommand = new Command('merge')
       process.exit(1)
     }
 
-    const provider = await resolveProvider(options.provider)
+    const provider = await resolveProvider(options.provider, 'merge')
 
     // Check for uncommitted changes
     const status = await git.status()
@@ -63,6 +64,11 @@ export const mergeCommand = new Command('merge')
 
     console.log(chalk.yellow(`⚠ ${conflictedFiles.length} conflict(s) detected\n`))
 
+    // A prompt preview exits at the first AI call; leave the repository as it was
+    if (getShowPrompt()) {
+      onPreviewExit(() => git.merge(['--abort']))
+    }
+
     const spinner = ora()
     const rootDir = await git.revparse(['--show-toplevel'])
 
@@ -100,6 +106,7 @@ export const mergeCommand = new Command('merge')
           {
             provider,
             model: options.model,
+            command: 'merge',
             baseUrl: options.baseUrl || getBaseUrl(),
             language: getLanguage()
           },
@@ -145,6 +152,12 @@ export const mergeCommand = new Command('merge')
       }
     }
 
+    // No conflicted file reached the AI, so nothing was previewed; leave the repository as it was
+    if (getShowPrompt()) {
+      await git.merge(['--abort'])
+      return
+    }
+
     // Check remaining conflicts
     const finalStatus = await git.status()
     if (finalStatus.conflicted.length > 0) {
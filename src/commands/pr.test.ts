@@ -78,7 +78,14 @@ vi.mock('../lib/config.js', () => ({
   getConfiguredModel: vi.fn(() => undefined),
   getDefaultModel: vi.fn(() => 'gemini-2.5-flash'),
   getLanguage: vi.fn(() => 'en'),
-  getBaseUrl: vi.fn(() => undefined)
+  getBaseUrl: vi.fn(() => undefined),
+  getProviderProfileNames: vi.fn(() => []),
+  getFallbackProviders: vi.fn(() => []),
+  getCacheTtl: vi.fn(() => 0),
+  getTrackUsage: vi.fn(() => false),
+  getSecretsConfig: vi.fn(() => ({ redact: true, blockPaths: [] })),
+  getCommandConfig: vi.fn(() => ({})),
+  getTicketConfig: vi.fn(() => undefined)
 }))
 
 // Mock gh CLI check
@@ -165,6 +172,39 @@ describe('prCommand', () => {
     })
   })
 
+  describe('ticket references', () => {
+    it('should append the ticket key from the branch name to the body', async () => {
+      const { getTicketConfig } = await import('../lib/config.js')
+      const { execSync } = await import('node:child_process')
+      vi.mocked(getTicketConfig).mockReturnValue({
+        patterns: ['[A-Z][A-Z0-9]+-\\d+'],
+        format: 'closes'
+      })
+      mockGit.branch.mockResolvedValue({
+        current: 'feature/PROJ-1234-add-login',
+        all: ['main', 'feature/PROJ-1234-add-login']
+      })
+
+      await prCommand.parseAsync(['--copy'], { from: 'user' })
+
+      expect(execSync).toHaveBeenCalledWith('pbcopy', {
+        input: expect.stringMatching(/- Added feature X\n\nCloses: PROJ-1234$/)
+      })
+      vi.mocked(getTicketConfig).mockReturnValue(undefined)
+    })
+
+    it('should fail on an invalid ticket pattern', async () => {
+      const { getTicketConfig } = await import('../lib/config.js')
+      vi.mocked(getTicketConfig).mockReturnValue({ patterns: ['('], format: 'refs' })
+
+      await expect(prCommand.parseAsync([], { from: 'user' })).rejects.toThrow(
+        'process.exit called'
+      )
+      expect(mockExit).toHaveBeenCalledWith(1)
+      vi.mocked(getTicketConfig).mockReturnValue(undefined)
+    })
+  })
+
   describe('error handling', () => {
     it('should exit when not in a git repository', async () => {
       mockGit.checkIsRepo.mockResolvedValue(false)
@@ -193,7 +233,7 @@ describe('prCommand', () => {
 
       await prCommand.parseAsync(['-p', 'openai'], { from: 'user' })
 
-      expect(resolveProvider).toHaveBeenCalledWith('openai')
+      expect(resolveProvider).toHaveBeenCalledWith('openai', 'pr')
     })
   })
 
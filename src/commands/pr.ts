@@ -5,8 +5,8 @@ import chalk from 'chalk'
 import { Command } from 'commander'
 import ora from 'ora'
 import { simpleGit } from 'simple-git'
-import { findTemplate, generatePRDescription } from '../lib/ai.js'
-import { getBaseUrl, getLanguage } from '../lib/config.js'
+import { findTemplate, generatePRDescription, streamPRDescription } from '../lib/ai.js'
+import { getBaseUrl, getLanguage, getTicketConfig } from '../lib/config.js'
 import { resolveProvider } from '../lib/credentials.js'
 import {
   getDefaultBranch,
@@ -15,7 +15,9 @@ import {
   isGhCliInstalled,
   pushBranchToOrigin
 } from '../lib/gh.js'
-import { providerOption } from '../lib/options.js'
+import { filterDiff, getIgnorePatterns } from '../lib/ignore.js'
+import { providerOption, shouldStream } from '../lib/options.js'
+import { appendTicketReference, extractTicketKeys } from '../lib/tickets.js'
 
 // GitHub's conventional PR template paths (prioritized)
 const GITHUB_PR_TEMPLATE_PATHS = [
@@ -46,6 +48,7 @@ export const prCommand = new Command('pr')
   .option('-b, --base <branch>', 'Base branch to compare against (default: main or master)')
   .option('--create', 'Create the PR using gh CLI')
   .option('--copy', 'Copy the description to clipboard')
+  .option('--no-stream', 'Wait for the full description instead of streaming it')
   .action(async (options) => {
     const git = simpleGit()
 
@@ -56,7 +59,7 @@ export const prCommand = new Command('pr')
       process.exit(1)
     }
 
-    const provider = await resolveProvider(options.provider)
+    const provider = await resolveProvider(options.provider, 'pr')
 
     const spinner = ora('Analyzing branch...').start()
 
@@ -65,6 +68,10 @@ export const prCommand = new Command('pr')
       const branchInfo = await git.branch()
       const currentBranch = branchInfo.current
 
+      // Ticket keys from the branch name, when ticket references are configured
+      const ticketConfig = getTicketConfig()
+      const ticketKeys = ticketConfig ? extractTicketKeys(currentBranch, ticketConfig.patterns) : []
+
       // Detect base branch
       let baseBranch = options.base
       if (!baseBranch) {
@@ -107,11 +114,14 @@ export const prCommand = new Command('pr')
         process.exit(1)
       }
 
-      // Get diff
-      const diff = await git.diff([`${compareRef}...${currentBranch}`])
+      // Get diff, without the files matched by .gutignore
+      const repoRoot = await git.revparse(['--show-toplevel'])
+      const { diff } = filterDiff(
+        await git.diff([`${compareRef}...${currentBranch}`]),
+        getIgnorePatterns(repoRoot.trim(), 'pr')
+      )
 
       // Find PR template
-      const repoRoot = await git.revparse(['--show-toplevel'])
       const template = findPRTemplate(repoRoot.trim())
 
       if (template) {
@@ -120,30 +130,83 @@ export const prCommand = new Command('pr')
         spinner.text = 'Generating PR description...'
       }
 
-      const { title, body } = await generatePRDescription(
-        {
-          baseBranch,
-          currentBranch,
-          commits,
-          diff
-        },
-        {
-          provider,
-          model: options.model,
-          baseUrl: options.baseUrl || getBaseUrl(),
-          language: getLanguage()
-        },
-        template || undefined
-      )
+      const prContext = {
+        baseBranch,
+        currentBranch,
+        commits,
+        diff
+      }
+      const aiOptions = {
+        provider,
+        model: options.model,
+        command: 'pr',
+        baseUrl: options.baseUrl || getBaseUrl(),
+        language: getLanguage()
+      }
+
+      let title: string
+      let body: string
+      if (shouldStream(options)) {
+        const { partialObjectStream, object } = await streamPRDescription(
+          prContext,
+          aiOptions,
+          template || undefined
+        )
+
+        // The title is complete once the model has started on the body
+        let titlePrinted = false
+        let printedBody = 0
+        const printTitle = (prTitle: string) => {
+          spinner.stop()
+          console.log(chalk.bold('\n📝 Generated PR:\n'))
+          console.log(chalk.cyan('Title:'), chalk.white(prTitle))
+          console.log(chalk.cyan('\nDescription:'))
+          console.log(chalk.gray('─'.repeat(50)))
+          titlePrinted = true
+        }
 
-      spinner.stop()
+        for await (const partial of partialObjectStream) {
+          if (!titlePrinted && partial.title && partial.body !== undefined) {
+            printTitle(partial.title)
+          }
+          if (titlePrinted && partial.body && partial.body.length > printedBody) {
+            process.stdout.write(partial.body.slice(printedBody))
+            printedBody = partial.body.length
+          }
+        }
 
-      console.log(chalk.bold('\n📝 Generated PR:\n'))
-      console.log(chalk.cyan('Title:'), chalk.white(title))
-      console.log(chalk.cyan('\nDescription:'))
-      console.log(chalk.gray('─'.repeat(50)))
-      console.log(body)
-      console.log(chalk.gray('─'.repeat(50)))
+        const result = await object
+        title = result.title
+        body = result.body
+        if (!titlePrinted) {
+          printTitle(title)
+        }
+        process.stdout.write(body.slice(printedBody))
+        console.log()
+        console.log(chalk.gray('─'.repeat(50)))
+      } else {
+        const result = await generatePRDescription(prContext, aiOptions, template || undefined)
+        title = result.title
+        body = result.body
+
+        spinner.stop()
+
+        console.log(chalk.bold('\n📝 Generated PR:\n'))
+        console.log(chalk.cyan('Title:'), chalk.white(title))
+        console.log(chalk.cyan('\nDescription:'))
+        console.log(chalk.gray('─'.repeat(50)))
+        console.log(body)
+        console.log(chalk.gray('─'.repeat(50)))
+      }
+
+      // Reference the tickets from the branch name, unless the description already does
+      if (ticketConfig) {
+        const withTickets = appendTicketReference(body, ticketKeys, ticketConfig.format)
+        if (withTickets !== body) {
+          console.log(chalk.gray(`Added ticket reference: ${withTickets.split('\n').pop()}`))
+          body = withTickets
+        }
+      }
 
       if (options.copy) {
         try {
@@ -1,3 +1,4 @@
+import { simulateReadableStream } from 'ai'
 import { MockLanguageModelV1 } from 'ai/test'
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
 
@@ -17,23 +18,49 @@ vi.mock('ora', () => ({
     stop: vi.fn().mockReturnThis(),
     fail: vi.fn().mockReturnThis(),
     info: vi.fn().mockReturnThis(),
+    succeed: vi.fn().mockReturnThis(),
     text: ''
   }))
 }))
 
+let reviewJson = JSON.stringify({
+  summary: 'Code looks good overall',
+  issues: [
+    { severity: 'warning', file: 'test.ts', line: 10, message: 'Consider adding types' },
+    { severity: 'suggestion', file: 'util.ts', message: 'Extract helper' }
+  ],
+  positives: ['Good test coverage']
+})
+
+// Number of calls that reached the model
+let reviewJsonCalls = 0
+
 // Create mock model for generateObject (returns JSON string)
 const mockModel = new MockLanguageModelV1({
   defaultObjectGenerationMode: 'json',
-  doGenerate: async () => ({
+  doGenerate: async () => {
+    reviewJsonCalls++
+    return {
+      rawCall: { rawPrompt: null, rawSettings: {} },
+      finishReason: 'stop' as const,
+      usage: { promptTokens: 10, completionTokens: 20 },
+      text: reviewJson
+    }
+  },
+  doStream: async () => ({
     rawCall: { rawPrompt: null, rawSettings: {} },
-    finishReason: 'stop' as const,
-    usage: { promptTokens: 10, completionTokens: 20 },
-    text: JSON.stringify({
-      summary: 'Code looks good overall',
-      issues: [
-        { severity: 'warning', file: 'test.ts', line: 10, message: 'Consider adding types' }
-      ],
-      positives: ['Good test coverage']
+    stream: simulateReadableStream({
+      chunks: [
+        ...(reviewJson.match(/.{1,20}/g) ?? []).map((textDelta) => ({
+          type: 'text-delta' as const,
+          textDelta
+        })),
+        {
+          type: 'finish' as const,
+          finishReason: 'stop' as const,
+          usage: { promptTokens: 10, completionTokens: 20 }
+        }
+      ]
     })
   })
 })
@@ -68,7 +95,47 @@ vi.mock('../lib/config.js', () => ({
   getConfiguredModel: vi.fn(() => undefined),
   getDefaultModel: vi.fn(() => 'gemini-2.5-flash'),
   getLanguage: vi.fn(() => 'en'),
-  getBaseUrl: vi.fn(() => undefined)
+  getBaseUrl: vi.fn(() => undefined),
+  getProviderProfileNames: vi.fn(() => []),
+  getFallbackProviders: vi.fn(() => []),
+  getCacheTtl: vi.fn(() => 0),
+  getTrackUsage: vi.fn(() => false),
+  getSecretsConfig: vi.fn(() => ({ redact: true, blockPaths: [] })),
+  getCommandConfig: vi.fn(() => ({})),
+  getReviewConfig: vi.fn(() => ({}))
+}))
+
+// Mock gh CLI calls for PR reviews
+const prDiff = [
+  'diff --git a/test.ts b/test.ts',
+  'index 1111111..2222222 100644',
+  '--- a/test.ts',
+  '+++ b/test.ts',
+  '@@ -8,3 +8,4 @@',
+  ' const a = 1',
+  ' const b = 2',
+  '+const c: any = 3',
+  ' export { a, b }',
+  ''
+].join('\n')
+
+vi.mock('node:child_process', () => ({
+  execSync: vi.fn((command: string) =>
+    command.startsWith('gh pr diff')
+      ? prDiff
+      : JSON.stringify({
+          number: 7,
+          title: 'Add c',
+          author: { login: 'octocat' },
+          url: 'https://github.com/o/r/pull/7',
+          headRefOid: 'abc123'
+        })
+  )
+}))
+
+vi.mock('../lib/gh.js', () => ({
+  requireGhCli: vi.fn(() => true),
+  postPullRequestReview: vi.fn(() => 'https://github.com/o/r/pull/7#pullrequestreview-1')
 }))
 
 // Mock simple-git
@@ -130,6 +197,26 @@ describe('reviewCommand', () => {
     })
   })
 
+  describe('streaming output', () => {
+    it('should print each issue as it arrives in a terminal', async () => {
+      const consoleSpy = vi.spyOn(console, 'log')
+      const originalIsTTY = process.stdout.isTTY
+      process.stdout.isTTY = true
+
+      try {
+        await reviewCommand.parseAsync(['--staged'], { from: 'user' })
+      } finally {
+        process.stdout.isTTY = originalIsTTY
+      }
+
+      const output = consoleSpy.mock.calls.map((call) => String(call[0])).join('\n')
+      expect(output).toContain('Code looks good overall')
+      expect(output).toContain('Consider adding types')
+      expect(output).toContain('Extract helper')
+      expect(output.match(/Issues Found/g)).toHaveLength(1)
+    })
+  })
+
   describe('JSON output', () => {
     it('should output JSON with --json flag', async () => {
       const consoleSpy = vi.spyOn(console, 'log')
@@ -145,6 +232,189 @@ describe('reviewCommand', () => {
     })
   })
 
+  describe('report formats', () => {
+    beforeEach(() => {
+      reviewCommand.setOptionValue('json', undefined)
+    })
+
+    afterEach(() => {
+      reviewCommand.setOptionValue('format', 'text')
+    })
+
+    it('should print a SARIF log with --format sarif', async () => {
+      const consoleSpy = vi.spyOn(console, 'log')
+
+      await reviewCommand.parseAsync(['--format', 'sarif'], { from: 'user' })
+
+      const sarif = JSON.parse(String(consoleSpy.mock.calls.at(-1)?.[0]))
+      expect(sarif.version).toBe('2.1.0')
+      expect(sarif.runs[0].results).toHaveLength(2)
+    })
+
+    it('should print workflow annotations with --format github', async () => {
+      const consoleSpy = vi.spyOn(console, 'log')
+
+      await reviewCommand.parseAsync(['--format', 'github'], { from: 'user' })
+
+      expect(consoleSpy).toHaveBeenCalledWith(
+        '::warning file=test.ts,line=10,title=gut review (warning)::Consider adding types\n::notice file=util.ts,title=gut review (suggestion)::Extract helper'
+      )
+    })
+
+    it('should print an empty report when there are no changes', async () => {
+      const consoleSpy = vi.spyOn(console, 'log')
+      mockGit.diff.mockResolvedValue('')
+
+      await expect(
+        reviewCommand.parseAsync(['--format', 'junit'], { from: 'user' })
+      ).rejects.toThrow('process.exit called')
+
+      expect(consoleSpy).toHaveBeenCalledWith(expect.stringContaining('failures="0"'))
+      expect(mockExit).toHaveBeenCalledWith(0)
+    })
+  })
+
+  describe('posting to GitHub', () => {
+    afterEach(() => {
+      reviewCommand.setOptionValue('post', undefined)
+    })
+
+    it('should post issues on diff lines as inline comments', async () => {
+      const { postPullRequestReview } = await import('../lib/gh.js')
+
+      await reviewCommand.parseAsync(['7', '--post'], { from: 'user' })
+
+      expect(postPullRequestReview).toHaveBeenCalledWith(7, {
+        event: 'COMMENT',
+        commit_id: 'abc123',
+        body: expect.stringContaining('`util.ts`'),
+        comments: [
+          {
+            path: 'test.ts',
+            position: 3,
+            body: expect.stringContaining('Consider adding types')
+          }
+        ]
+      })
+    })
+
+    it('should fall back to a comment when changes cannot be requested on the PR', async () => {
+      const { postPullRequestReview } = await import('../lib/gh.js')
+      vi.mocked(postPullRequestReview).mockImplementationOnce(() => {
+        throw new Error(
+          'GitHub rejected the review: Unprocessable Entity: Review Can not request changes on your own pull request'
+        )
+      })
+      const original = reviewJson
+      reviewJson = JSON.stringify({
+        summary: 'Unsafe change',
+        issues: [{ severity: 'critical', file: 'test.ts', line: 10, message: 'Avoid any' }],
+        positives: []
+      })
+
+      try {
+        await reviewCommand.parseAsync(['7', '--post'], { from: 'user' })
+      } finally {
+        reviewJson = original
+      }
+
+      expect(postPullRequestReview).toHaveBeenCalledTimes(2)
+      expect(postPullRequestReview).toHaveBeenNthCalledWith(
+        1,
+        7,
+        expect.objectContaining({ event: 'REQUEST_CHANGES' })
+      )
+      expect(postPullRequestReview).toHaveBeenLastCalledWith(
+        7,
+        expect.objectContaining({ event: 'COMMENT' })
+      )
+      expect(mockExit).not.toHaveBeenCalled()
+    })
+
+    it('should report a posting failure separately from the review', async () => {
+      const { postPullRequestReview } = await import('../lib/gh.js')
+      vi.mocked(postPullRequestReview).mockImplementationOnce(() => {
+        throw new Error('GitHub rejected the review: Not Found')
+      })
+
+      await expect(reviewCommand.parseAsync(['7', '--post'], { from: 'user' })).rejects.toThrow(
+        'process.exit called'
+      )
+
+      const ora = (await import('ora')).default
+      const spinner = vi.mocked(ora).mock.results[0].value
+      expect(spinner.fail).toHaveBeenCalledWith('Failed to post review to GitHub')
+      expect(spinner.fail).not.toHaveBeenCalledWith('Failed to generate review')
+      expect(console.error).toHaveBeenCalledWith(
+        expect.stringContaining('GitHub rejected the review: Not Found')
+      )
+      expect(postPullRequestReview).toHaveBeenCalledTimes(1)
+      expect(mockExit).toHaveBeenCalledWith(1)
+    })
+
+    it('should require a PR number', async () => {
+      await expect(reviewCommand.parseAsync(['--post'], { from: 'user' })).rejects.toThrow(
+        'process.exit called'
+      )
+
+      expect(mockExit).toHaveBeenCalledWith(1)
+    })
+  })
+
+  describe('CI gates', () => {
+    afterEach(() => {
+      reviewCommand.setOptionValue('failOn', undefined)
+      reviewCommand.setOptionValue('maxWarnings', undefined)
+    })
+
+    it('should exit with an error on issues at or above --fail-on', async () => {
+      await expect(
+        reviewCommand.parseAsync(['--fail-on', 'warning'], { from: 'user' })
+      ).rejects.toThrow('process.exit called')
+
+      expect(console.error).toHaveBeenCalledWith(
+        expect.stringContaining('1 critical/warning issue')
+      )
+      expect(mockExit).toHaveBeenCalledWith(1)
+    })
+
+    it('should pass when no issue reaches --fail-on', async () => {
+      await reviewCommand.parseAsync(['--fail-on', 'critical'], { from: 'user' })
+
+      expect(mockExit).not.toHaveBeenCalled()
+    })
+
+    it('should use review.failOn from config', async () => {
+      const { getReviewConfig } = await import('../lib/config.js')
+      vi.mocked(getReviewConfig).mockReturnValueOnce({ failOn: 'suggestion' })
+
+      await expect(reviewCommand.parseAsync([], { from: 'user' })).rejects.toThrow(
+        'process.exit called'
+      )
+
+      expect(console.error).toHaveBeenCalledWith(
+        expect.stringContaining('2 critical/warning/suggestion issues')
+      )
+    })
+
+    it('should exit with an error when warnings exceed --max-warnings', async () => {
+      await expect(
+        reviewCommand.parseAsync(['--max-warnings', '0'], { from: 'user' })
+      ).rejects.toThrow('process.exit called')
+
+      expect(console.error).toHaveBeenCalledWith(expect.stringContaining('1 warning'))
+      expect(mockExit).toHaveBeenCalledWith(1)
+    })
+
+    it('should reject an invalid --max-warnings', async () => {
+      await expect(
+        reviewCommand.parseAsync(['--max-warnings', 'many'], { from: 'user' })
+      ).rejects.toThrow('process.exit called')
+
+      expect(mockExit).toHaveBeenCalledWith(1)
+    })
+  })
+
   describe('error handling', () => {
     it('should exit when not in a git repository', async () => {
       mockGit.checkIsRepo.mockResolvedValue(false)
@@ -156,6 +426,21 @@ describe('reviewCommand', () => {
       expect(mockExit).toHaveBeenCalledWith(1)
     })
 
+    it('should not call the AI when every changed file is ignored', async () => {
+      const { getCommandConfig } = await import('../lib/config.js')
+      vi.mocked(getCommandConfig).mockReturnValue({ ignore: ['*.lock'] })
+      mockGit.diff.mockResolvedValue('diff --git a/yarn.lock b/yarn.lock\n+lodash@4\n')
+      reviewJsonCalls = 0
+
+      await expect(reviewCommand.parseAsync([], { from: 'user' })).rejects.toThrow(
+        'process.exit called'
+      )
+
+      vi.mocked(getCommandConfig).mockReturnValue({})
+      expect(mockExit).toHaveBeenCalledWith(0)
+      expect(reviewJsonCalls).toBe(0)
+    })
+
     it('should handle no changes to review', async () => {
       mockGit.diff.mockResolvedValue('')
 
@@ -173,7 +458,7 @@ describe('reviewCommand', () => {
 
       await reviewCommand.parseAsync(['-p', 'anthropic'], { from: 'user' })
 
-      expect(resolveProvider).toHaveBeenCalledWith('anthropic')
+      expect(resolveProvider).toHaveBeenCalledWith('anthropic', 'review')
     })
   })
 })
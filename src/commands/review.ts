@@ -1,13 +1,30 @@
 import { execSync } from 'node:child_process'
 import chalk from 'chalk'
-import { Command } from 'commander'
+import { Command, Option } from 'commander'
 import ora from 'ora'
 import { simpleGit } from 'simple-git'
-import { type CodeReview, findTemplate, generateCodeReview } from '../lib/ai.js'
-import { getBaseUrl, getLanguage } from '../lib/config.js'
+import { type CodeReview, findTemplate, generateCodeReview, streamCodeReview } from '../lib/ai.js'
+import { getBaseUrl, getLanguage, getReviewConfig } from '../lib/config.js'
 import { resolveProvider } from '../lib/credentials.js'
-import { requireGhCli } from '../lib/gh.js'
-import { providerOption } from '../lib/options.js'
+import { postPullRequestReview, requireGhCli } from '../lib/gh.js'
+import { buildGitHubReview } from '../lib/github-review.js'
+import { filterDiff, getIgnorePatterns } from '../lib/ignore.js'
+import { providerOption, shouldStream } from '../lib/options.js'
+import {
+  formatGitHubAnnotations,
+  formatJUnit,
+  formatSarif,
+  REVIEW_FORMATS,
+  type ReviewFormat
+} from '../lib/review-formats.js'
+import { getGateFailures, REVIEW_SEVERITIES, type ReviewGate } from '../lib/review-gate.js'
+
+// Formats for CI tools, printed instead of the pretty output
+const REPORT_FORMATTERS: Partial<Record<ReviewFormat, (review: CodeReview) => string>> = {
+  sarif: formatSarif,
+  junit: formatJUnit,
+  github: formatGitHubAnnotations
+}
 
 interface PRInfo {
   number: number
@@ -16,13 +33,15 @@ interface PRInfo {
   url: string
 }
 
-async function getPRDiff(prNumber: string): Promise<{ diff: string; prInfo: PRInfo }> {
+async function getPRDiff(
+  prNumber: string
+): Promise<{ diff: string; prInfo: PRInfo; headSha: string }> {
   try {
     const diff = execSync(`gh pr diff ${prNumber}`, {
       encoding: 'utf-8',
       maxBuffer: 10 * 1024 * 1024
     })
-    const prJsonStr = execSync(`gh pr view ${prNumber} --json number,title,author,url`, {
+    const prJsonStr = execSync(`gh pr view ${prNumber} --json number,title,author,url,headRefOid`, {
       encoding: 'utf-8'
     })
     const prJson = JSON.parse(prJsonStr)
@@ -33,7 +52,8 @@ async function getPRDiff(prNumber: string): Promise<{ diff: string; prInfo: PRIn
         title: prJson.title,
         author: prJson.author.login,
         url: prJson.url
-      }
+      },
+      headSha: prJson.headRefOid
     }
   } catch (err) {
     if (err instanceof Error && err.message.includes('gh: command not found')) {
@@ -53,7 +73,21 @@ export const reviewCommand = new Command('review')
   .option('--base-url <url>', 'Base URL for API provider')
   .option('-s, --staged', 'Review only staged changes')
   .option('-c, --commit <hash>', 'Review a specific commit')
-  .option('--json', 'Output as JSON')
+  .option('--json', 'Output as JSON (same as --format json)')
+  .addOption(
+    new Option('-f, --format <format>', 'Output format')
+      .choices([...REVIEW_FORMATS])
+      .default('text')
+  )
+  .option('--no-stream', 'Wait for the full review instead of streaming issues')
+  .option('--post', 'Post the review to the GitHub PR with inline comments')
+  .addOption(
+    new Option(
+      '--fail-on <severity>',
+      'Exit with an error on issues at or above this severity'
+    ).choices([...REVIEW_SEVERITIES])
+  )
+  .option('--max-warnings <n>', 'Exit with an error when there are more warnings than this')
   .action(async (prNumber, options) => {
     const git = simpleGit()
 
@@ -64,13 +98,35 @@ export const reviewCommand = new Command('review')
       process.exit(1)
     }
 
-    const provider = await resolveProvider(options.provider)
+    if (options.post && !prNumber) {
+      console.error(chalk.red('Error: --post requires a PR number'))
+      process.exit(1)
+    }
+
+    const gate: ReviewGate = { failOn: options.failOn ?? getReviewConfig().failOn }
+    if (options.maxWarnings !== undefined) {
+      const maxWarnings = Number(options.maxWarnings)
+      if (!Number.isInteger(maxWarnings) || maxWarnings < 0) {
+        console.error(chalk.red('Error: --max-warnings must be a non-negative integer'))
+        process.exit(1)
+      }
+      gate.maxWarnings = maxWarnings
+    }
+
+    const format: ReviewFormat = options.json ? 'json' : options.format
+    const formatter = REPORT_FORMATTERS[format]
+
+    const provider = await resolveProvider(options.provider, 'review')
 
     const spinner = ora('Getting diff...').start()
+    let failures: string[] = []
+    let postFailed = false
 
     try {
       let diff: string
       let prInfo: PRInfo | null = null
+      let prDiff = ''
+      let headSha = ''
 
       if (prNumber) {
         // Review GitHub PR - check gh CLI first
@@ -82,6 +138,8 @@ export const reviewCommand = new Command('review')
         const result = await getPRDiff(prNumber)
         diff = result.diff
         prInfo = result.prInfo
+        prDiff = result.diff
+        headSha = result.headSha
         spinner.text = `Reviewing PR #${prNumber}...`
       } else if (options.commit) {
         // Review specific commit
@@ -99,80 +157,185 @@ export const reviewCommand = new Command('review')
         spinner.text = 'Reviewing uncommitted changes...'
       }
 
-      if (!diff.trim()) {
-        spinner.info('No changes to review')
+      const repoRoot = await git.revparse(['--show-toplevel']).catch(() => process.cwd())
+      // Keep files matched by .gutignore out of the prompt
+      const filtered = filterDiff(diff, getIgnorePatterns(repoRoot.trim(), 'review'))
+
+      if (!diff.trim() || filtered.allExcluded) {
+        spinner.info(
+          filtered.allExcluded
+            ? 'No changes to review (every changed file matches .gutignore)'
+            : 'No changes to review'
+        )
+        // CI steps still get a report to upload
+        if (formatter) {
+          console.log(formatter({ summary: 'No changes to review', issues: [], positives: [] }))
+        }
         process.exit(0)
       }
 
+      diff = filtered.diff
       spinner.text = 'AI is reviewing your code...'
 
-      const repoRoot = await git.revparse(['--show-toplevel']).catch(() => process.cwd())
       const template = findTemplate(repoRoot.trim(), 'review')
 
-      const review = await generateCodeReview(
-        diff,
-        {
-          provider,
-          model: options.model,
-          baseUrl: options.baseUrl || getBaseUrl(),
-          language: getLanguage()
-        },
-        template || undefined
-      )
-
-      spinner.stop()
-
-      if (options.json) {
-        console.log(JSON.stringify({ prInfo, review }, null, 2))
-        return
+      const aiOptions = {
+        provider,
+        model: options.model,
+        command: 'review',
+        baseUrl: options.baseUrl || getBaseUrl(),
+        language: getLanguage()
       }
 
-      if (prInfo) {
-        console.log(chalk.bold(`\n🔗 PR #${prInfo.number}: ${prInfo.title}`))
-        console.log(chalk.gray(`   by ${prInfo.author} - ${prInfo.url}`))
+      let review: CodeReview
+      if (shouldStream({ stream: options.stream, json: format !== 'text' })) {
+        const { partialObjectStream, object } = await streamCodeReview(
+          diff,
+          aiOptions,
+          template || undefined
+        )
+
+        let headerPrinted = false
+        let printedIssues = 0
+        const printHeader = (summary: string) => {
+          spinner.stop()
+          if (prInfo) {
+            console.log(chalk.bold(`\n🔗 PR #${prInfo.number}: ${prInfo.title}`))
+            console.log(chalk.gray(`   by ${prInfo.author} - ${prInfo.url}`))
+          }
+          printReviewSummary(summary)
+          headerPrinted = true
+        }
+
+        // An issue is complete once the model has started on the next one
+        for await (const partial of partialObjectStream) {
+          const issues = partial.issues ?? []
+          if (!headerPrinted && issues.length > 0 && partial.summary) {
+            printHeader(partial.summary)
+          }
+          while (headerPrinted && printedIssues < issues.length - 1) {
+            printIssue(issues[printedIssues] as ReviewIssue, printedIssues === 0)
+            printedIssues++
+          }
+        }
+
+        review = await object
+        if (!headerPrinted) {
+          printHeader(review.summary)
+        }
+        review.issues.slice(printedIssues).forEach((issue, i) => {
+          printIssue(issue, printedIssues + i === 0)
+        })
+        printReviewFooter(review)
+      } else {
+        review = await generateCodeReview(diff, aiOptions, template || undefined)
+
+        spinner.stop()
+
+        if (format === 'json') {
+          console.log(JSON.stringify({ prInfo, review }, null, 2))
+        } else if (formatter) {
+          const report = formatter(review)
+          if (report) {
+            console.log(report)
+          }
+        } else {
+          if (prInfo) {
+            console.log(chalk.bold(`\n🔗 PR #${prInfo.number}: ${prInfo.title}`))
+            console.log(chalk.gray(`   by ${prInfo.author} - ${prInfo.url}`))
+          }
+
+          printReview(review)
+        }
       }
 
-      printReview(review)
+      if (options.post && prInfo) {
+        // Positions refer to the full PR diff, including files kept out of the prompt
+        const githubReview = buildGitHubReview(review, prDiff)
+        spinner.start('Posting review to GitHub...')
+        try {
+          let url: string
+          try {
+            url = postPullRequestReview(prInfo.number, { ...githubReview, commit_id: headSha })
+          } catch (error) {
+            if (githubReview.event !== 'REQUEST_CHANGES' || !isOwnPullRequestError(error)) {
+              throw error
+            }
+            // GitHub does not let authors request changes on their own pull requests
+            githubReview.event = 'COMMENT'
+            url = postPullRequestReview(prInfo.number, { ...githubReview, commit_id: headSha })
+          }
+          const verdict =
+            githubReview.event === 'REQUEST_CHANGES' ? 'requesting changes' : 'comment'
+          const count = githubReview.comments.length
+          spinner.succeed(
+            `Posted review (${verdict}, ${count} inline comment${count === 1 ? '' : 's'}): ${url}`
+          )
+        } catch (error) {
+          // The review is already printed, so only posting failed
+          spinner.fail('Failed to post review to GitHub')
+          console.error(chalk.red(error instanceof Error ? error.message : 'Unknown error'))
+          postFailed = true
+        }
+      }
+
+      failures = getGateFailures(review, gate)
     } catch (error) {
       spinner.fail('Failed to generate review')
       console.error(chalk.red(error instanceof Error ? error.message : 'Unknown error'))
       process.exit(1)
     }
+
+    if (failures.length > 0) {
+      console.error(chalk.red(`✖ Review failed: ${failures.join(', ')}`))
+    }
+    if (failures.length > 0 || postFailed) {
+      process.exit(1)
+    }
   })
 
-function printReview(review: CodeReview) {
+function isOwnPullRequestError(error: unknown): boolean {
+  return error instanceof Error && /request changes on your own pull request/i.test(error.message)
+}
+
+type ReviewIssue = CodeReview['issues'][number]
+
+const severityColors = {
+  critical: chalk.red,
+  warning: chalk.yellow,
+  suggestion: chalk.blue
+}
+
+const severityIcons = {
+  critical: '🔴',
+  warning: '🟡',
+  suggestion: '💡'
+}
+
+function printReviewSummary(summary: string) {
   console.log(chalk.bold('\n🔍 AI Code Review\n'))
 
-  // Summary
   console.log(chalk.cyan('Summary:'))
-  console.log(`  ${review.summary}\n`)
+  console.log(`  ${summary}\n`)
+}
 
-  // Issues
-  if (review.issues.length > 0) {
+function printIssue(issue: ReviewIssue, first: boolean = false) {
+  if (first) {
     console.log(chalk.cyan('Issues Found:'))
-    for (const issue of review.issues) {
-      const severityColors = {
-        critical: chalk.red,
-        warning: chalk.yellow,
-        suggestion: chalk.blue
-      }
-      const severityIcons = {
-        critical: '🔴',
-        warning: '🟡',
-        suggestion: '💡'
-      }
+  }
+  const color = severityColors[issue.severity] ?? chalk.gray
+  const icon = severityIcons[issue.severity] ?? '•'
 
-      const color = severityColors[issue.severity]
-      const icon = severityIcons[issue.severity]
+  console.log(`\n  ${icon} ${color(issue.severity.toUpperCase())}`)
+  console.log(`     ${chalk.gray('File:')} ${issue.file}${issue.line ? `:${issue.line}` : ''}`)
+  console.log(`     ${issue.message}`)
+  if (issue.suggestion) {
+    console.log(`     ${chalk.green('→')} ${issue.suggestion}`)
+  }
+}
 
-      console.log(`\n  ${icon} ${color(issue.severity.toUpperCase())}`)
-      console.log(`     ${chalk.gray('File:')} ${issue.file}${issue.line ? `:${issue.line}` : ''}`)
-      console.log(`     ${issue.message}`)
-      if (issue.suggestion) {
-        console.log(`     ${chalk.green('→')} ${issue.suggestion}`)
-      }
-    }
-  } else {
+function printReviewFooter(review: CodeReview) {
+  if (review.issues.length === 0) {
     console.log(chalk.green('  ✓ No issues found!\n'))
   }
 
@@ -195,3 +358,11 @@ function printReview(review: CodeReview) {
   )
   console.log()
 }
+
+function printReview(review: CodeReview) {
+  printReviewSummary(review.summary)
+  review.issues.forEach((issue, i) => {
+    printIssue(issue, i === 0)
+  })
+  printReviewFooter(review)
+}
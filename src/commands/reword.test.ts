@@ -0,0 +1,153 @@
+import { execSync } from 'node:child_process'
+import { chmodSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+// Mock process.exit
+const mockExit = vi.spyOn(process, 'exit').mockImplementation(() => {
+  throw new Error('process.exit called')
+})
+
+// Mock console methods
+vi.spyOn(console, 'log').mockImplementation(() => {})
+vi.spyOn(console, 'error').mockImplementation(() => {})
+
+vi.mock('ora', () => ({
+  default: vi.fn(() => ({
+    start: vi.fn().mockReturnThis(),
+    stop: vi.fn().mockReturnThis(),
+    fail: vi.fn().mockReturnThis(),
+    text: ''
+  }))
+}))
+
+// Answers to return from readline prompts, in order
+const answers: string[] = []
+vi.mock('node:readline', () => ({
+  createInterface: vi.fn(() => ({
+    question: vi.fn((_prompt: string, callback: (answer: string) => void) => {
+      callback(answers.shift() ?? 'n')
+    }),
+    close: vi.fn()
+  }))
+}))
+
+// Describe each commit by the file it adds
+vi.mock('../lib/ai.js', () => ({
+  generateCommitMessage: vi.fn((diff: string) =>
+    Promise.resolve(`feat: add ${diff.match(/b\/(\S+)/)?.[1]}`)
+  ),
+  findTemplate: vi.fn(() => null)
+}))
+
+vi.mock('../lib/credentials.js', () => ({
+  resolveProvider: vi.fn(() => Promise.resolve('gemini')),
+  PROVIDERS: ['gemini', 'openai', 'anthropic', 'ollama']
+}))
+
+vi.mock('../lib/config.js', () => ({
+  getBaseUrl: vi.fn(() => undefined),
+  getLanguage: vi.fn(() => 'en'),
+  getScopeMap: vi.fn(() => ({})),
+  getStyleSamples: vi.fn(() => 0),
+  getTicketConfig: vi.fn(() => undefined),
+  getCommandConfig: vi.fn(() => ({})),
+  getProviderProfileNames: vi.fn(() => [])
+}))
+
+let repo: string
+
+// Run the command against the temporary repository
+vi.mock('simple-git', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('simple-git')>()
+  return { ...actual, simpleGit: vi.fn(() => actual.simpleGit(repo)) }
+})
+
+import { generateCommitMessage } from '../lib/ai.js'
+import { rewordCommand } from './reword.js'
+
+function git(command: string): string {
+  return execSync(`git ${command}`, { cwd: repo, encoding: 'utf-8' }).trim()
+}
+
+function commitFile(file: string, message: string) {
+  writeFileSync(join(repo, file), `${file}\n`)
+  git(`add ${file}`)
+  git(`commit -q -m "${message}"`)
+}
+
+describe('rewordCommand', () => {
+  beforeEach(() => {
+    repo = mkdtempSync(join(tmpdir(), 'gut-test-reword-'))
+    git('init -q && git config user.name Dev && git config user.email dev@example.com')
+    commitFile('a.txt', 'initial')
+    commitFile('b.txt', 'wip')
+    commitFile('c.txt', 'wip again')
+    answers.length = 0
+  })
+
+  afterEach(() => {
+    rmSync(repo, { recursive: true, force: true })
+    vi.clearAllMocks()
+    rewordCommand.setOptionValue('yes', undefined)
+    vi.unstubAllEnvs()
+  })
+
+  it('should reword the commits in the range after confirmation', async () => {
+    answers.push('y')
+
+    await rewordCommand.parseAsync(['HEAD~2..'], { from: 'user' })
+
+    expect(generateCommitMessage).toHaveBeenCalledTimes(2)
+    expect(git('log --format=%s')).toBe('feat: add c.txt\nfeat: add b.txt\ninitial')
+    expect(git('status --porcelain')).toBe('')
+  })
+
+  it('should keep commits unchanged when not confirmed', async () => {
+    const head = git('rev-parse HEAD')
+
+    await rewordCommand.parseAsync(['HEAD~2..'], { from: 'user' })
+
+    expect(git('rev-parse HEAD')).toBe(head)
+  })
+
+  it('should reword the root commit with --yes', async () => {
+    await rewordCommand.parseAsync(['--yes', 'HEAD'], { from: 'user' })
+
+    expect(git('log --format=%s')).toBe('feat: add c.txt\nfeat: add b.txt\nfeat: add a.txt')
+  })
+
+  it('should keep commit hooks from changing or rejecting the new messages', async () => {
+    // Undo any core.hooksPath override passed through the environment
+    vi.stubEnv('GIT_CONFIG_COUNT', '0')
+    const hooks = join(repo, '.git', 'hooks')
+    writeFileSync(
+      join(hooks, 'prepare-commit-msg'),
+      '#!/bin/sh\n[ -n "$GUT_SKIP_HOOK" ] && exit 0\necho hooked > "$1"\n'
+    )
+    writeFileSync(join(hooks, 'commit-msg'), '#!/bin/sh\nexit 1\n')
+    chmodSync(join(hooks, 'prepare-commit-msg'), 0o755)
+    chmodSync(join(hooks, 'commit-msg'), 0o755)
+
+    await rewordCommand.parseAsync(['--yes', 'HEAD~2..'], { from: 'user' })
+
+    expect(git('log --format=%s')).toBe('feat: add c.txt\nfeat: add b.txt\ninitial')
+  })
+
+  it('should refuse to reword with uncommitted changes', async () => {
+    writeFileSync(join(repo, 'a.txt'), 'changed\n')
+
+    await expect(rewordCommand.parseAsync(['HEAD~2..'], { from: 'user' })).rejects.toThrow(
+      'process.exit called'
+    )
+    expect(mockExit).toHaveBeenCalledWith(1)
+    expect(generateCommitMessage).not.toHaveBeenCalled()
+  })
+
+  it('should reject an invalid range', async () => {
+    await expect(rewordCommand.parseAsync(['nope..HEAD'], { from: 'user' })).rejects.toThrow(
+      'process.exit called'
+    )
+  })
+})
@@ -0,0 +1,229 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import chalk from 'chalk'
+import { Command } from 'commander'
+import ora from 'ora'
+import { simpleGit } from 'simple-git'
+import { findTemplate, generateCommitMessage } from '../lib/ai.js'
+import {
+  getBaseUrl,
+  getLanguage,
+  getScopeMap,
+  getStyleSamples,
+  getTicketConfig
+} from '../lib/config.js'
+import { resolveProvider } from '../lib/credentials.js'
+import { EMPTY_TREE, getDiffFiles, getParentRef } from '../lib/diff.js'
+import { getCommitStyle } from '../lib/history.js'
+import { filterDiff, getIgnorePatterns } from '../lib/ignore.js'
+import { providerOption } from '../lib/options.js'
+import { getScopeDirs, inferScopes } from '../lib/scopes.js'
+import { appendTicketReference, extractTicketKeys } from '../lib/tickets.js'
+
+// Width of the "Before" column in the before/after table
+const MAX_SUBJECT_WIDTH = 40
+
+interface Reword {
+  sha: string
+  before: string
+  after: string
+}
+
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`
+}
+
+function truncate(text: string, width: number): string {
+  return text.length > width ? `${text.slice(0, width - 1)}…` : text
+}
+
+function printRewordTable(rewords: Reword[]): void {
+  const subject = (message: string) => message.split('\n')[0]
+  const width = Math.min(
+    MAX_SUBJECT_WIDTH,
+    Math.max('Before'.length, ...rewords.map((r) => subject(r.before).length))
+  )
+  console.log(chalk.bold(`\n  ${'Commit'.padEnd(7)}  ${'Before'.padEnd(width)}  After`))
+  for (const reword of rewords) {
+    console.log(
+      `  ${chalk.cyan(reword.sha.slice(0, 7))}  ${chalk.gray(truncate(subject(reword.before), width).padEnd(width))}  ${chalk.green(subject(reword.after))}`
+    )
+  }
+  console.log()
+}
+
+export const rewordCommand = new Command('reword')
+  .description('Regenerate the messages of existing commits using AI')
+  .argument('<range>', 'Commits to reword, e.g. main..HEAD or HEAD~3..')
+  .addOption(providerOption())
+  .option('-m, --model <model>', 'Model to use (provider-specific)')
+  .option('--base-url <url>', 'Base URL for API provider')
+  .option('-y, --yes', 'Reword without confirmation')
+  .action(async (range: string, options) => {
+    const git = simpleGit()
+
+    const isRepo = await git.checkIsRepo()
+    if (!isRepo) {
+      console.error(chalk.red('Error: Not a git repository'))
+      process.exit(1)
+    }
+
+    let shas: string[]
+    try {
+      shas = (await git.raw(['rev-list', '--reverse', range])).split('\n').filter(Boolean)
+    } catch {
+      console.error(chalk.red(`Invalid range: ${range}`))
+      process.exit(1)
+    }
+    if (shas.length === 0) {
+      console.error(chalk.yellow(`No commits in ${range}`))
+      process.exit(1)
+    }
+
+    // The rebase replays every commit from the oldest one in the range up to HEAD
+    const isOnBranch = await git
+      .raw(['merge-base', '--is-ancestor', shas[shas.length - 1], 'HEAD'])
+      .then(() => true)
+      .catch(() => false)
+    if (!isOnBranch) {
+      console.error(chalk.red('Commits to reword must be on the current branch'))
+      process.exit(1)
+    }
+    const parent = await getParentRef(git, shas[0])
+    const base = parent === EMPTY_TREE ? null : parent
+    const replayed = (await git.raw(['rev-list', '--reverse', base ? `${base}..HEAD` : 'HEAD']))
+      .split('\n')
+      .filter(Boolean)
+    const merges = await git.raw(['rev-list', '--merges', base ? `${base}..HEAD` : 'HEAD'])
+    if (merges.trim()) {
+      console.error(
+        chalk.red('Cannot reword a range that contains or is followed by merge commits')
+      )
+      process.exit(1)
+    }
+
+    const status = await git.status()
+    if (!status.isClean()) {
+      console.error(chalk.yellow('Commit or stash your changes before rewording.'))
+      process.exit(1)
+    }
+
+    const provider = await resolveProvider(options.provider, 'reword')
+    const aiOptions = {
+      provider,
+      model: options.model,
+      command: 'reword',
+      baseUrl: options.baseUrl || getBaseUrl(),
+      language: getLanguage()
+    }
+
+    const repoRoot = (await git.revparse(['--show-toplevel'])).trim()
+    const template = findTemplate(repoRoot, 'commit')
+    if (template) {
+      console.log(chalk.gray('Using template from project...'))
+    }
+    const scopeDirs = getScopeDirs(repoRoot, getScopeMap())
+    const ignorePatterns = getIgnorePatterns(repoRoot, 'reword')
+    const styleSamples = getStyleSamples()
+    const style = styleSamples > 0 ? await getCommitStyle(git, repoRoot, styleSamples) : null
+
+    // Ticket keys from the branch name, when ticket references are configured
+    const ticketConfig = getTicketConfig()
+    let ticketKeys: string[] = []
+    if (ticketConfig) {
+      const branch = (await git.revparse(['--abbrev-ref', 'HEAD'])).trim()
+      try {
+        ticketKeys = extractTicketKeys(branch, ticketConfig.patterns)
+      } catch (error) {
+        console.error(chalk.red(error instanceof Error ? error.message : 'Unknown error'))
+        process.exit(1)
+      }
+    }
+
+    const spinner = ora().start()
+    const rewords: Reword[] = []
+    try {
+      for (const [i, sha] of shas.entries()) {
+        spinner.text = `Generating commit message ${i + 1}/${shas.length}...`
+        const diff = await git.diff([await getParentRef(git, sha), sha])
+        // Commits without changes, or only changes excluded from AI context, keep their message
+        const filtered = filterDiff(diff, ignorePatterns)
+        if (!diff.trim() || filtered.allExcluded) continue
+
+        const before = (await git.raw(['log', '-1', '--format=%B', sha])).trim()
+        const scopes = inferScopes(getDiffFiles(diff), scopeDirs)
+        let after = await generateCommitMessage(filtered.diff, aiOptions, template || undefined, {
+          scopes,
+          style
+        })
+        if (ticketConfig) {
+          after = appendTicketReference(after, ticketKeys, ticketConfig.format)
+        }
+        if (after !== before) {
+          rewords.push({ sha, before, after })
+        }
+      }
+      spinner.stop()
+    } catch (error) {
+      spinner.fail('Failed to generate commit message')
+      console.error(chalk.red(error instanceof Error ? error.message : 'Unknown error'))
+      process.exit(1)
+    }
+
+    if (rewords.length === 0) {
+      console.log(chalk.gray('Nothing to reword'))
+      return
+    }
+    printRewordTable(rewords)
+
+    if (!options.yes) {
+      const readline = await import('node:readline')
+      const rl = readline.createInterface({
+        input: process.stdin,
+        output: process.stdout
+      })
+      const answer = await new Promise<string>((resolve) => {
+        rl.question(chalk.cyan(`Reword ${rewords.length} commits? (y/N) `), resolve)
+      })
+      rl.close()
+      if (answer.toLowerCase() !== 'y') {
+        console.log(chalk.gray('Reword cancelled'))
+        return
+      }
+    }
+
+    // Replace the rebase todo list with one that amends each reworded commit's message
+    const tmpDir = mkdtempSync(join(tmpdir(), 'gut-reword-'))
+    try {
+      const todo = replayed.flatMap((sha) => {
+        const index = rewords.findIndex((reword) => reword.sha === sha)
+        if (index === -1) return [`pick ${sha}`]
+        const messageFile = join(tmpDir, `${index}.txt`)
+        writeFileSync(messageFile, `${rewords[index].after}\n`)
+        return [
+          `pick ${sha}`,
+          `exec git commit --amend --allow-empty --no-verify --quiet -F ${shellQuote(messageFile)}`
+        ]
+      })
+      const todoFile = join(tmpDir, 'todo')
+      writeFileSync(todoFile, `${todo.join('\n')}\n`)
+
+      // Keep commit hooks, including gut's own prepare-commit-msg hook, away from the new messages
+      await git
+        .env({
+          ...process.env,
+          GIT_SEQUENCE_EDITOR: `cp ${shellQuote(todoFile)}`,
+          GUT_SKIP_HOOK: '1'
+        })
+        .raw(['rebase', '--interactive', base ?? '--root'])
+      console.log(chalk.green(`✓ Reworded ${rewords.length} commits`))
+    } catch (error) {
+      await git.raw(['rebase', '--abort']).catch(() => {})
+      console.error(chalk.red(error instanceof Error ? error.message : 'Unknown error'))
+      console.error(chalk.yellow('Reword aborted. The branch is unchanged.'))
+      process.exit(1)
+    } finally {
+      rmSync(tmpDir, { recursive: true, force: true })
+    }
+  })
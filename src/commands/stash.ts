@@ -125,7 +125,7 @@ export const stashCommand = new Command('stash')
       stashName = name
     } else {
       // Generate name with AI
-      const provider = await resolveProvider(options.provider)
+      const provider = await resolveProvider(options.provider, 'stash')
       const diff = await git.diff()
       const stagedDiff = await git.diff(['--cached'])
       const fullDiff = `${diff}\n${stagedDiff}`
@@ -143,6 +143,7 @@ export const stashCommand = new Command('stash')
             {
               provider,
               model: options.model,
+              command: 'stash',
               baseUrl: options.baseUrl || getBaseUrl(),
               language: getLanguage()
             },
@@ -30,7 +30,7 @@ export const summaryCommand = new Command('summary')
       process.exit(1)
     }
 
-    const provider = await resolveProvider(options.provider)
+    const provider = await resolveProvider(options.provider, 'summary')
     const spinner = ora('Generating summary...').start()
 
     try {
@@ -105,6 +105,7 @@ export const summaryCommand = new Command('summary')
         {
           provider,
           model: options.model,
+          command: 'summary',
           baseUrl: options.baseUrl || getBaseUrl(),
           language: getLanguage()
         },
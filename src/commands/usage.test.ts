@@ -0,0 +1,62 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+
+// Mock process.exit
+const mockExit = vi.spyOn(process, 'exit').mockImplementation(() => {
+  throw new Error('process.exit called')
+})
+
+// Mock console methods
+const mockLog = vi.spyOn(console, 'log').mockImplementation(() => {})
+vi.spyOn(console, 'error').mockImplementation(() => {})
+
+const now = new Date()
+const mockReadUsage = vi.fn(() => [
+  {
+    timestamp: now.toISOString(),
+    command: 'review',
+    provider: 'openai',
+    model: 'gpt-4.1-mini',
+    template: 'review',
+    promptTokens: 12000,
+    completionTokens: 800,
+    cost: 0.00608
+  }
+])
+
+vi.mock('../lib/usage.js', async () => {
+  const actual = await vi.importActual<typeof import('../lib/usage.js')>('../lib/usage.js')
+  return { ...actual, readUsage: () => mockReadUsage() }
+})
+
+vi.mock('../lib/config.js', () => ({
+  getMonthlyBudget: vi.fn(() => 10),
+  getTrackUsage: vi.fn(() => true),
+  getModelPrice: vi.fn(() => undefined)
+}))
+
+// Import the command after mocks
+import { usageCommand } from './usage.js'
+
+describe('usageCommand', () => {
+  afterEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should output grouped usage as JSON', async () => {
+    await usageCommand.parseAsync(['--by', 'command', '--json'], { from: 'user' })
+
+    const output = JSON.parse(mockLog.mock.calls[0][0] as string)
+    expect(output.by).toBe('command')
+    expect(output.budget).toBe(10)
+    expect(output.summaries).toEqual([
+      { key: 'review', calls: 1, promptTokens: 12000, completionTokens: 800, cost: 0.00608 }
+    ])
+  })
+
+  it('should reject an invalid number of days', async () => {
+    await expect(usageCommand.parseAsync(['--days', 'abc'], { from: 'user' })).rejects.toThrow(
+      'process.exit called'
+    )
+    expect(mockExit).toHaveBeenCalledWith(1)
+  })
+})
@@ -0,0 +1,89 @@
+import chalk from 'chalk'
+import { Command, Option } from 'commander'
+import { getMonthlyBudget, getTrackUsage } from '../lib/config.js'
+import {
+  filterUsageSince,
+  getMonthToDateCost,
+  readUsage,
+  summarizeUsage,
+  type UsageGrouping
+} from '../lib/usage.js'
+
+const GROUPINGS: UsageGrouping[] = ['day', 'week', 'command', 'model']
+
+function formatCost(cost: number): string {
+  return `$${cost.toFixed(cost > 0 && cost < 0.01 ? 4 : 2)}`
+}
+
+function formatTokens(tokens: number): string {
+  return tokens.toLocaleString('en-US')
+}
+
+export const usageCommand = new Command('usage')
+  .description('Show AI token usage and estimated cost')
+  .addOption(
+    new Option('--by <grouping>', 'Group usage by day, week, command or model')
+      .choices(GROUPINGS)
+      .default('day')
+  )
+  .option('--days <days>', 'Only include the last N days', '30')
+  .option('--json', 'Output as JSON')
+  .action((options: { by: UsageGrouping; days: string; json?: boolean }) => {
+    const days = Number.parseInt(options.days, 10)
+    if (!Number.isInteger(days) || days <= 0) {
+      console.error(chalk.red(`Invalid number of days: ${options.days}`))
+      process.exit(1)
+    }
+
+    const allEntries = readUsage()
+    const since = new Date()
+    since.setHours(0, 0, 0, 0)
+    since.setDate(since.getDate() - (days - 1))
+    const entries = filterUsageSince(allEntries, since)
+    const summaries = summarizeUsage(entries, options.by)
+    const monthToDate = getMonthToDateCost(allEntries)
+    const budget = getMonthlyBudget()
+
+    if (options.json) {
+      console.log(JSON.stringify({ days, by: options.by, monthToDate, budget, summaries }, null, 2))
+      return
+    }
+
+    if (!getTrackUsage()) {
+      console.log(chalk.yellow('Usage tracking is disabled (gut config set trackUsage true)'))
+    }
+
+    console.log(chalk.bold(`\nAI Usage (last ${days} days, by ${options.by}):\n`))
+
+    if (summaries.length === 0) {
+      console.log(chalk.gray('  No AI calls recorded.\n'))
+    } else {
+      const label = options.by[0].toUpperCase() + options.by.slice(1)
+      const width = Math.max(12, ...summaries.map((s) => s.key.length))
+      console.log(
+        chalk.gray(
+          `  ${label.padEnd(width)}  ${'Calls'.padStart(6)}  ${'Input'.padStart(12)}  ${'Output'.padStart(12)}  ${'Cost'.padStart(10)}`
+        )
+      )
+      for (const summary of summaries) {
+        console.log(
+          `  ${chalk.cyan(summary.key.padEnd(width))}  ${String(summary.calls).padStart(6)}  ${formatTokens(summary.promptTokens).padStart(12)}  ${formatTokens(summary.completionTokens).padStart(12)}  ${formatCost(summary.cost).padStart(10)}`
+        )
+      }
+      const total = entries.reduce((sum, entry) => sum + entry.cost, 0)
+      console.log(chalk.bold(`\n  Total: ${formatCost(total)} across ${entries.length} calls`))
+      console.log()
+    }
+
+    if (budget) {
+      const ratio = monthToDate / budget
+      const color = ratio >= 1 ? chalk.red : ratio >= 0.8 ? chalk.yellow : chalk.green
+      console.log(
+        `  This month: ${color(formatCost(monthToDate))} of ${formatCost(budget)} budget (${Math.round(ratio * 100)}%)\n`
+      )
+    } else {
+      console.log(`  This month: ${formatCost(monthToDate)}\n`)
+    }
+
+    console.log(chalk.gray('  Costs are estimates based on list prices per model.\n'))
+  })
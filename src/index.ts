@@ -1,6 +1,8 @@
 import { createRequire } from 'node:module'
-import { Command } from 'commander'
+import { Command, Option } from 'commander'
+import { addCommand } from './commands/add.js'
 import { authCommand } from './commands/auth.js'
+import { cacheCommand } from './commands/cache.js'
 import { handleCompletion, installCompletion, uninstallCompletion } from './commands/completion.js'
 
 const require = createRequire(import.meta.url)
@@ -15,14 +17,21 @@ import { configCommand } from './commands/config.js'
 import { explainCommand } from './commands/explain.js'
 import { findCommand } from './commands/find.js'
 import { gitignoreCommand } from './commands/gitignore.js'
+import { hooksCommand } from './commands/hooks.js'
 import { initCommand } from './commands/init.js'
 import { langCommand } from './commands/lang.js'
 import { mergeCommand } from './commands/merge.js'
 import { prCommand } from './commands/pr.js'
 import { reviewCommand } from './commands/review.js'
+import { rewordCommand } from './commands/reword.js'
 import { stashCommand } from './commands/stash.js'
 import { summaryCommand } from './commands/summary.js'
 import { syncCommand } from './commands/sync.js'
+import { usageCommand } from './commands/usage.js'
+import { setCacheEnabled } from './lib/cache.js'
+import { setCassette } from './lib/cassette.js'
+import { setShowPrompt } from './lib/preview.js'
+import { setUsageCommand } from './lib/usage.js'
 
 const program = new Command()
 
@@ -30,6 +39,35 @@ program
   .name('gut')
   .description('Git Utility Tool - AI-powered git commands')
   .version(pkg.version, '-v, --version')
+  .addOption(
+    new Option('--record <dir>', 'Record AI prompts and responses into a cassette directory')
+  )
+  .addOption(
+    new Option('--replay <dir>', 'Replay AI responses from a cassette directory').conflicts(
+      'record'
+    )
+  )
+  .option('--no-cache', 'Always call the AI provider instead of reusing cached responses')
+  .option('--dry-run', 'Print the AI prompt and schema without calling the provider')
+  .option('--show-prompt', 'Same as --dry-run')
+  .hook('preAction', (_thisCommand, actionCommand) => {
+    const { record, replay, cache, dryRun, showPrompt } = program.opts()
+    setCacheEnabled(cache)
+    setShowPrompt(Boolean(dryRun || showPrompt))
+
+    // Attribute AI usage to the top-level command (e.g. "cache" for "gut cache clear")
+    let command = actionCommand
+    while (command.parent && command.parent !== program) {
+      command = command.parent
+    }
+    setUsageCommand(command.name())
+
+    if (record) {
+      setCassette({ mode: 'record', dir: record })
+    } else if (replay) {
+      setCassette({ mode: 'replay', dir: replay })
+    }
+  })
 
 // Branch management
 program.addCommand(cleanupCommand)
@@ -38,7 +76,9 @@ program.addCommand(cleanupCommand)
 program.addCommand(authCommand)
 
 // AI-powered commands
+program.addCommand(addCommand)
 program.addCommand(commitCommand)
+program.addCommand(rewordCommand)
 program.addCommand(prCommand)
 program.addCommand(reviewCommand)
 program.addCommand(mergeCommand)
@@ -55,7 +95,10 @@ program.addCommand(summaryCommand)
 program.addCommand(configCommand)
 program.addCommand(langCommand)
 program.addCommand(initCommand)
+program.addCommand(hooksCommand)
 program.addCommand(gitignoreCommand)
+program.addCommand(cacheCommand)
+program.addCommand(usageCommand)
 
 // Shell completion command
 const completionCommand = new Command('completion').description('Manage shell completion')
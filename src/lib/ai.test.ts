@@ -1,7 +1,10 @@
 import { existsSync, readFileSync } from 'node:fs'
 import { join } from 'node:path'
+import { createAnthropic } from '@ai-sdk/anthropic'
+import { generateObject, generateText, simulateReadableStream } from 'ai'
 import { MockLanguageModelV1 } from 'ai/test'
 import { describe, expect, it, vi } from 'vitest'
+import { getCommandConfig, getSecretsConfig } from './config.js'
 
 // Mock credentials
 vi.mock('./credentials.js', () => ({
@@ -20,7 +23,14 @@ vi.mock('./config.js', () => ({
       ollama: 'llama3.3'
     }
     return models[provider] || models.gemini
-  })
+  }),
+  getFallbackProviders: vi.fn(() => []),
+  getCommandConfig: vi.fn(() => ({})),
+  getConfiguredProvider: vi.fn(() => undefined),
+  getCacheTtl: vi.fn(() => 0),
+  getTrackUsage: vi.fn(() => false),
+  getSecretsConfig: vi.fn(() => ({ redact: true, blockPaths: [] })),
+  getRepoRoot: vi.fn(() => null)
 }))
 
 // Mock AI SDK's generateText and generateObject with MockLanguageModelV1
@@ -30,6 +40,20 @@ const mockModel = new MockLanguageModelV1({
     finishReason: 'stop' as const,
     usage: { promptTokens: 10, completionTokens: 20 },
     text: 'feat(test): add new feature'
+  }),
+  doStream: async () => ({
+    rawCall: { rawPrompt: null, rawSettings: {} },
+    stream: simulateReadableStream({
+      chunks: [
+        { type: 'text-delta' as const, textDelta: 'feat(test): ' },
+        { type: 'text-delta' as const, textDelta: 'add new feature\n' },
+        {
+          type: 'finish' as const,
+          finishReason: 'stop' as const,
+          usage: { promptTokens: 10, completionTokens: 20 }
+        }
+      ]
+    })
   })
 })
 
@@ -71,15 +95,27 @@ vi.mock('ai', async () => {
         // For conflict resolution
         resolvedContent: 'resolved content',
         explanation: 'Combined both changes',
-        strategy: 'combined'
+        strategy: 'combined',
+        // For commit plans
+        commits: [
+          { message: 'feat(api): add login', hunks: ['src/api.ts#2', 'src/unknown.ts#1'] },
+          { message: 'docs: update readme', hunks: ['README.md'] }
+        ],
+        // For hunk descriptions
+        hunks: [
+          { id: 'src/api.ts#1', description: 'Rename the login handler' },
+          { id: 'src/other.ts#1', description: 'Not in the diff' }
+        ]
       }
     }))
   }
 })
 
 // Mock provider SDKs to avoid actual API calls
+const createGoogleModel = vi.fn((_modelId: string) => mockModel)
+
 vi.mock('@ai-sdk/google', () => ({
-  createGoogleGenerativeAI: vi.fn(() => () => mockModel)
+  createGoogleGenerativeAI: vi.fn(() => createGoogleModel)
 }))
 
 vi.mock('@ai-sdk/openai', () => ({
@@ -103,14 +139,19 @@ import {
   generateChangelog,
   generateCodeReview,
   generateCommitMessage,
+  generateCommitPlan,
   generateExplanation,
   generateGitignore,
+  generateHunkDescriptions,
   generatePRDescription,
   generateStashName,
   generateWorkSummary,
   resolveConflict,
-  searchCommits
+  searchCommits,
+  streamCodeReview,
+  streamCommitMessage
 } from './ai.js'
+import { getDiffHunks } from './diff.js'
 
 describe('findTemplate', () => {
   it('should return null when no template exists', () => {
@@ -154,6 +195,73 @@ new file mode 100644
     expect(result).toBe('feat(test): add new feature')
   })
 
+  it('should render template variables and skip auto context when disabled', async () => {
+    vi.mocked(generateText).mockClear()
+    const template =
+      '---\nautoContext: false\nrender: true\n---\nDiff:\n{{diff}}\n{{#if issue}}Issue{{/if}}'
+
+    await generateCommitMessage('some diff', { provider: 'gemini' }, template)
+
+    const prompt = vi.mocked(generateText).mock.calls[0][0].prompt as string
+    expect(prompt).not.toContain('<context>')
+    expect(prompt).not.toContain('autoContext')
+    expect(prompt).toContain('<instructions>\nDiff:\nsome diff\n\n')
+  })
+
+  it('should send templates that do not opt in to rendering as they are', async () => {
+    vi.mocked(generateText).mockClear()
+    const template =
+      'Like Handlebars: {{#each items}}{{ name }}{{/each}} and Jinja: {{ user.name }}'
+
+    await generateCommitMessage('some diff', { provider: 'gemini' }, template)
+
+    const prompt = vi.mocked(generateText).mock.calls[0][0].prompt as string
+    expect(prompt).toContain(`<instructions>\n${template}\n</instructions>`)
+  })
+
+  it('should use the provider and settings pinned in template front-matter', async () => {
+    vi.mocked(generateText).mockClear()
+    vi.mocked(createAnthropic).mockClear()
+    const template =
+      '---\nprovider: anthropic\nmodel: claude-opus-4-1\ntemperature: 0.2\nmaxTokens: 4000\n---\nWrite it'
+
+    await generateCommitMessage('some diff', { provider: 'gemini' }, template)
+
+    expect(createAnthropic).toHaveBeenCalled()
+    const args = vi.mocked(generateText).mock.calls[0][0]
+    expect(args.maxTokens).toBe(4000)
+    expect(args.temperature).toBe(0.2)
+  })
+
+  it('should keep the default max tokens without front-matter', async () => {
+    vi.mocked(generateText).mockClear()
+
+    await generateCommitMessage('some diff', { provider: 'gemini' }, 'Write it')
+
+    const args = vi.mocked(generateText).mock.calls[0][0]
+    expect(args.maxTokens).toBe(1024)
+    expect(args.temperature).toBeUndefined()
+  })
+
+  it('should add the learned commit style as few-shot examples', async () => {
+    vi.mocked(generateText).mockClear()
+
+    await generateCommitMessage('some diff', { provider: 'gemini' }, undefined, {
+      style: {
+        commits: 2,
+        signals: ['Descriptions start with a capital letter'],
+        examples: ['Add login (AUTH-12)', 'Fix session bug (AUTH-15)']
+      }
+    })
+
+    const prompt = vi.mocked(generateText).mock.calls[0][0].prompt as string
+    expect(prompt).toContain('<styleSignals>\n- Descriptions start with a capital letter\n')
+    expect(prompt).toContain(
+      '<styleExamples>\nAdd login (AUTH-12)\n\n---\n\nFix session bug (AUTH-15)\n'
+    )
+    expect(prompt).toContain('Match the conventions of the repository')
+  })
+
   it('should work with different providers', async () => {
     const diff = 'some diff'
 
@@ -167,6 +275,183 @@ new file mode 100644
   })
 })
 
+describe('streamCommitMessage', () => {
+  it('should stream text deltas and resolve the trimmed message', async () => {
+    const { textStream, text } = await streamCommitMessage('some diff', { provider: 'gemini' })
+
+    const deltas: string[] = []
+    for await (const delta of textStream) {
+      deltas.push(delta)
+    }
+
+    expect(deltas).toEqual(['feat(test): ', 'add new feature\n'])
+    expect(await text).toBe('feat(test): add new feature')
+  })
+})
+
+describe('stream errors', () => {
+  it('should reject the final text when the provider fails', async () => {
+    vi.spyOn(mockModel, 'doStream').mockRejectedValueOnce(new Error('Cannot connect to API'))
+
+    const { textStream, text } = await streamCommitMessage('some diff', { provider: 'gemini' })
+    for await (const _ of textStream) {
+      // Drain the stream like the commands do
+    }
+
+    await expect(text).rejects.toThrow('Cannot connect to API')
+  })
+
+  it('should reject the final object when the provider fails', async () => {
+    createGoogleModel.mockReturnValueOnce(
+      new MockLanguageModelV1({
+        defaultObjectGenerationMode: 'json',
+        doStream: async () => {
+          throw new Error('Cannot connect to API')
+        }
+      })
+    )
+
+    const { partialObjectStream, object } = await streamCodeReview('some diff', {
+      provider: 'gemini'
+    })
+    for await (const _ of partialObjectStream) {
+      // Drain the stream like the commands do
+    }
+
+    await expect(object).rejects.toThrow('Cannot connect to API')
+  })
+})
+
+describe('large diffs', () => {
+  const largeDiff = Array.from(
+    { length: 5 },
+    (_, i) => `diff --git a/file${i}.ts b/file${i}.ts
+@@ -1,0 +1,100 @@
+${'+const value = 1\n'.repeat(100)}`
+  ).join('')
+
+  it('should summarize chunks before generating when the diff exceeds the budget', async () => {
+    vi.mocked(generateText).mockClear()
+
+    const result = await generateCommitMessage(largeDiff, {
+      provider: 'gemini',
+      maxDiffTokens: 500
+    })
+
+    expect(result).toBe('feat(test): add new feature')
+    const prompts = vi.mocked(generateText).mock.calls.map(([args]) => args.prompt as string)
+    // Several summarization calls followed by the final commit message call
+    expect(prompts.length).toBeGreaterThan(2)
+    expect(prompts[prompts.length - 1]).toContain('exceeds the context budget')
+    expect(prompts[prompts.length - 1]).not.toContain('+const value = 1')
+  })
+
+  it('should summarize in the configured language', async () => {
+    vi.mocked(generateText).mockClear()
+
+    await generateCommitMessage(largeDiff, {
+      provider: 'gemini',
+      maxDiffTokens: 500,
+      language: 'ja'
+    })
+
+    const prompts = vi.mocked(generateText).mock.calls.map(([args]) => args.prompt as string)
+    for (const prompt of prompts.slice(0, -1)) {
+      expect(prompt).toContain('Respond in Japanese')
+    }
+  })
+
+  it('should run at most two summaries at a time', async () => {
+    let inFlight = 0
+    let maxInFlight = 0
+    const implementation = vi.mocked(generateText).getMockImplementation()
+    vi.mocked(generateText).mockImplementation(async (args) => {
+      inFlight++
+      maxInFlight = Math.max(maxInFlight, inFlight)
+      await new Promise((resolve) => setTimeout(resolve, 5))
+      inFlight--
+      return implementation?.(args) as ReturnType<typeof generateText>
+    })
+
+    try {
+      await generateCommitMessage(largeDiff, { provider: 'gemini', maxDiffTokens: 500 })
+    } finally {
+      vi.mocked(generateText).mockImplementation(implementation as typeof generateText)
+    }
+
+    expect(maxInFlight).toBe(2)
+  })
+
+  it('should pass diffs within budget unchanged', async () => {
+    vi.mocked(generateText).mockClear()
+
+    await generateCommitMessage(largeDiff, { provider: 'gemini' })
+
+    expect(generateText).toHaveBeenCalledTimes(1)
+    expect(vi.mocked(generateText).mock.calls[0][0].prompt).toContain(largeDiff)
+  })
+})
+
+describe('generateCommitPlan', () => {
+  it('should match the planned hunk IDs to the diff and commit leftover hunks last', async () => {
+    const hunks = getDiffHunks(
+      [
+        'diff --git a/src/api.ts b/src/api.ts\n--- a/src/api.ts\n+++ b/src/api.ts\n',
+        '@@ -1 +1 @@\n-a\n+b\n@@ -20 +20 @@\n-c\n+d\n',
+        'diff --git a/README.md b/README.md\n--- a/README.md\n+++ b/README.md\n',
+        '@@ -1 +1 @@\n-old\n+new\n'
+      ].join('')
+    )
+
+    const plan = await generateCommitPlan('diff', hunks, { provider: 'gemini' })
+
+    expect(plan.map((group) => group.message)).toEqual([
+      'feat(api): add login',
+      'docs: update readme'
+    ])
+    expect(plan.map((group) => group.hunks.map((hunk) => hunk.id))).toEqual([
+      ['src/api.ts#2'],
+      ['src/api.ts#1', 'README.md#1']
+    ])
+  })
+})
+
+describe('generateHunkDescriptions', () => {
+  it('should return descriptions for the hunks in the diff', async () => {
+    const hunks = getDiffHunks(
+      'diff --git a/src/api.ts b/src/api.ts\n--- a/src/api.ts\n+++ b/src/api.ts\n@@ -1 +1 @@\n-a\n+b\n'
+    )
+
+    const descriptions = await generateHunkDescriptions(hunks, { provider: 'gemini' })
+
+    expect(descriptions).toEqual({ 'src/api.ts#1': 'Rename the login handler' })
+  })
+
+  it('should refuse to describe hunks of a blocked path', async () => {
+    vi.mocked(getSecretsConfig).mockReturnValueOnce({ redact: true, blockPaths: ['secret/**'] })
+    const hunks = getDiffHunks(
+      'diff --git a/secret/k.txt b/secret/k.txt\n--- a/secret/k.txt\n+++ b/secret/k.txt\n@@ -1 +1 @@\n-a\n+b\n'
+    )
+
+    await expect(generateHunkDescriptions(hunks, { provider: 'gemini' })).rejects.toThrow(
+      'Not sending secret/k.txt to the AI provider'
+    )
+  })
+
+  it('should mask values in dotenv hunks', async () => {
+    vi.mocked(generateObject).mockClear()
+    const hunks = getDiffHunks(
+      'diff --git a/.env b/.env\n--- a/.env\n+++ b/.env\n@@ -1 +1 @@\n-API_URL=old\n+API_URL=new\n'
+    )
+
+    await generateHunkDescriptions(hunks, { provider: 'gemini' })
+
+    const prompt = vi.mocked(generateObject).mock.calls[0][0].prompt as string
+    expect(prompt).toContain('API_URL=[REDACTED .env value]')
+    expect(prompt).not.toContain('API_URL=new')
+  })
+})
+
 describe('generatePRDescription', () => {
   it('should generate PR title and body', async () => {
     const context = {
@@ -249,6 +534,24 @@ describe('generateExplanation', () => {
     expect(result).toHaveProperty('purpose')
   })
 
+  it('should refuse to explain a file in a blocked path', async () => {
+    const { getSecretsConfig } = await import('./config.js')
+    // Read once for the model and once for the file
+    vi.mocked(getSecretsConfig)
+      .mockReturnValueOnce({ redact: true, blockPaths: ['.env*'] })
+      .mockReturnValueOnce({ redact: true, blockPaths: ['.env*'] })
+    const context = {
+      type: 'file-content' as const,
+      title: '.env',
+      content: 'API_TOKEN=abc',
+      metadata: { filePath: 'config/.env' }
+    }
+
+    await expect(generateExplanation(context, { provider: 'gemini' })).rejects.toThrow(
+      'Not sending config/.env to the AI provider'
+    )
+  })
+
   it('should generate explanation for PR', async () => {
     const context = {
       type: 'pr' as const,
@@ -313,6 +616,28 @@ describe('generateBranchName', () => {
   })
 })
 
+describe('per-command models', () => {
+  it('should use the model configured for the command', async () => {
+    vi.mocked(getCommandConfig).mockReturnValueOnce({ model: 'gemini-2.5-flash-lite' })
+
+    await generateStashName('some diff', { provider: 'gemini', command: 'stash' })
+
+    expect(getCommandConfig).toHaveBeenCalledWith('stash')
+    expect(createGoogleModel).toHaveBeenLastCalledWith('gemini-2.5-flash-lite')
+  })
+
+  it('should ignore a command model configured for another provider', async () => {
+    vi.mocked(getCommandConfig).mockReturnValueOnce({
+      provider: 'anthropic',
+      model: 'claude-opus-4-1'
+    })
+
+    await generateStashName('some diff', { provider: 'gemini', command: 'stash' })
+
+    expect(createGoogleModel).toHaveBeenLastCalledWith('gemini-2.5-flash')
+  })
+})
+
 describe('generateBranchNameFromDiff', () => {
   it('should generate branch name from diff', async () => {
     const diff = `diff --git a/src/auth.ts b/src/auth.ts
@@ -393,6 +718,32 @@ const value = 2;
     expect(result).toHaveProperty('strategy')
     expect(['ours', 'theirs', 'combined', 'rewritten']).toContain(result.strategy)
   })
+
+  it('should refuse to send a conflicted file in a blocked path', async () => {
+    vi.mocked(getSecretsConfig).mockReturnValueOnce({ redact: true, blockPaths: ['secret/**'] })
+    const context = { filename: 'secret/k.txt', oursRef: 'HEAD', theirsRef: 'feature' }
+
+    await expect(
+      resolveConflict('<<<<<<< HEAD\na\n=======\nb\n>>>>>>> feature', context, {
+        provider: 'gemini'
+      })
+    ).rejects.toThrow('Not sending secret/k.txt to the AI provider')
+  })
+
+  it('should mask values in a conflicted dotenv file', async () => {
+    vi.mocked(generateObject).mockClear()
+    const context = { filename: '.env', oursRef: 'HEAD', theirsRef: 'feature' }
+
+    await resolveConflict(
+      '<<<<<<< HEAD\nAPI_URL=ours\n=======\nAPI_URL=theirs\n>>>>>>> feature',
+      context,
+      { provider: 'gemini' }
+    )
+
+    const prompt = vi.mocked(generateObject).mock.calls[0][0].prompt as string
+    expect(prompt).toContain('API_URL=[REDACTED .env value]')
+    expect(prompt).not.toContain('API_URL=theirs')
+  })
 })
 
 describe('generateGitignore', () => {
@@ -424,6 +775,7 @@ describe('template content', () => {
   const jaTemplatesDir = join(templatesDir, 'ja')
 
   const templateFiles = [
+    'add.md',
     'commit.md',
     'pr.md',
     'review.md',
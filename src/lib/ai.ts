@@ -5,21 +5,73 @@ import { fileURLToPath } from 'node:url'
 import { createAnthropic } from '@ai-sdk/anthropic'
 import { createGoogleGenerativeAI } from '@ai-sdk/google'
 import { createOpenAI } from '@ai-sdk/openai'
-import { generateObject, generateText } from 'ai'
+import {
+  type DeepPartial,
+  generateObject,
+  generateText,
+  type LanguageModelV1,
+  type LanguageModelV1Middleware,
+  streamObject,
+  streamText,
+  wrapLanguageModel
+} from 'ai'
+import chalk from 'chalk'
 import { createOllama } from 'ollama-ai-provider'
 import { z } from 'zod'
-import { getConfiguredModel, getDefaultModel, type Language } from './config.js'
-import { getApiKey, type Provider } from './credentials.js'
+import { createCacheMiddleware, isCacheEnabled } from './cache.js'
+import { createRecordingMiddleware, getCassette } from './cassette.js'
+import {
+  getCacheTtl,
+  getCommandConfig,
+  getConfiguredModel,
+  getConfiguredProvider,
+  getDefaultModel,
+  getFallbackProviders,
+  getMonthlyBudget,
+  getProviderProfile,
+  getRepoRoot,
+  getSecretsConfig,
+  getTrackUsage,
+  type Language,
+  type ProviderName,
+  type ProviderProfile
+} from './config.js'
+import { getApiKey, listProviders } from './credentials.js'
+import {
+  type DiffHunk,
+  estimateTokens,
+  getDiffTokenBudget,
+  groupChunks,
+  splitDiff,
+  truncateToTokens
+} from './diff.js'
+import { createFallbackModel, type FallbackTarget } from './fallback.js'
+import type { CommitStyle } from './history.js'
+import { createMockModel } from './mock.js'
+import { createPreviewModel, getShowPrompt } from './preview.js'
+import {
+  assertPathsAllowed,
+  createRedactionMiddleware,
+  getDiffPaths,
+  isEnvFile,
+  redactEnvValues
+} from './secrets.js'
+import { parseTemplate, renderTemplate } from './template.js'
+import { createUsageMiddleware, getBudgetWarning, readUsage } from './usage.js'
 
 export type { Language }
 
 export interface AIOptions {
-  provider: Provider
+  provider: ProviderName
   model?: string
   baseUrl?: string // Base URL for all providers
   ollamaBaseUrl?: string // For Ollama provider (backward compatibility)
   apiKey?: string // Optional: directly provide API key (bypasses keytar/env lookup)
   language?: Language // Language for AI responses ('en' | 'ja')
+  maxDiffTokens?: number // Override the per-model token budget for diffs
+  temperature?: number // Sampling temperature (provider default when unset)
+  maxTokens?: number // Maximum response length (per-command default when unset)
+  command?: string // Command name, for the per-command model (commands.<name>.model)
 }
 
 // Get the directory where gut is installed (for reading default templates)
@@ -96,9 +148,24 @@ export function findTemplate(repoRoot: string, templateName: string): string | n
   return null
 }
 
+/**
+ * Resolve a `{{> name}}` include: project .gut/, then global templates, then gut's own .gut/
+ */
+function resolveInclude(name: string): string | null {
+  const repoRoot = getRepoRoot()
+  const projectTemplate = repoRoot ? findTemplate(repoRoot, name) : findGlobalTemplate(name)
+  if (projectTemplate) {
+    return projectTemplate
+  }
+  const defaultPath = join(GUT_ROOT, '.gut', `${name}.md`)
+  return existsSync(defaultPath) ? readFileSync(defaultPath, 'utf-8') : null
+}
+
 /**
  * Build a prompt with context in XML format and instructions from template.
  * Templates don't need to include variables - context is automatically prepended.
+ * Templates with front-matter `render: true` may also reference context with `{{variable}}`,
+ * `{{#if variable}}` blocks and `{{> include}}` partials; `autoContext: false` turns off the XML context.
  * Output format instructions are also injected automatically, so templates remain pure instructions.
  *
  * @param userTemplate - User-provided template string or null/undefined
@@ -115,17 +182,22 @@ function buildPrompt(
   language?: Language,
   outputFormat?: string
 ): string {
+  // Get template (user template takes priority)
+  const { frontMatter, body } = parseTemplate(userTemplate || loadTemplate(templateName))
+  // Only templates that opt in are rendered, so literal `{{` in other templates is sent as is
+  const template = frontMatter.render ? renderTemplate(body, context, resolveInclude) : body
+
   // Build XML context
-  let contextXml = '<context>\n'
-  for (const [key, value] of Object.entries(context)) {
-    if (value) {
-      contextXml += `<${key}>\n${value}\n</${key}>\n`
+  let contextXml = ''
+  if (frontMatter.autoContext !== false) {
+    contextXml = '<context>\n'
+    for (const [key, value] of Object.entries(context)) {
+      if (value) {
+        contextXml += `<${key}>\n${value}\n</${key}>\n`
+      }
     }
+    contextXml += '</context>\n\n'
   }
-  contextXml += '</context>\n\n'
-
-  // Get template (user template takes priority)
-  const template = userTemplate || loadTemplate(templateName)
 
   // Build language instruction
   const langInstruction =
@@ -137,18 +209,214 @@ function buildPrompt(
   return `${contextXml}<instructions>\n${template}${langInstruction}\n</instructions>${outputSection}`
 }
 
-async function getModel(options: AIOptions) {
-  // Priority: options.model > config model > default model
-  const modelName = options.model || getConfiguredModel() || getDefaultModel(options.provider)
+const BUILTIN_PROVIDERS = ['gemini', 'openai', 'anthropic', 'ollama', 'mock']
+
+/**
+ * Get the provider profile the options refer to (undefined for built-in providers)
+ */
+function resolveProfile(options: AIOptions): ProviderProfile | undefined {
+  if (BUILTIN_PROVIDERS.includes(options.provider)) return undefined
+  const profile = getProviderProfile(options.provider)
+  if (!profile) {
+    throw new Error(
+      `Unknown provider: ${options.provider}. Add it under "providers" in your gut config.`
+    )
+  }
+  return profile
+}
+
+function resolveModelName(options: AIOptions, useConfiguredModel: boolean = true): string {
+  // Priority: options.model > command model > profile model > config model > default model
+  const profile = resolveProfile(options)
+  const commandConfig = options.command ? getCommandConfig(options.command) : {}
+  // A command model only applies to the provider it was configured with
+  const commandModel =
+    !commandConfig.provider || commandConfig.provider === options.provider
+      ? commandConfig.model
+      : undefined
+  // A command routed to another provider doesn't inherit the model configured for the main one
+  const routed =
+    commandConfig.provider === options.provider && options.provider !== getConfiguredProvider()
+  const modelName =
+    options.model ||
+    commandModel ||
+    profile?.model ||
+    (useConfiguredModel && !routed ? getConfiguredModel() : undefined)
+  if (modelName) return modelName
+  if (profile) {
+    throw new Error(
+      `No model configured for ${options.provider}. Set "model" in the provider profile or use --model.`
+    )
+  }
+  return getDefaultModel(options.provider)
+}
+
+async function getModel(options: AIOptions): Promise<LanguageModelV1> {
+  return withRedaction(await createModel(options), options)
+}
+
+async function createModel(options: AIOptions): Promise<LanguageModelV1> {
+  const modelName = resolveModelName(options)
+
+  // Prompt preview prints the call and exits before any provider is set up
+  if (getShowPrompt()) {
+    return createPreviewModel(options.provider, modelName)
+  }
+
+  // Replay serves recorded responses without touching the real provider
+  const cassette = getCassette()
+  if (cassette?.mode === 'replay') {
+    return createMockModel(modelName, cassette.dir, true)
+  }
+
+  if (getTrackUsage()) {
+    warnIfOverBudget()
+  }
+
+  return withCache(await createModelChain(options, modelName), options)
+}
+
+// Redaction warnings already shown in this run, so that retries don't repeat them
+const redactionWarnings = new Set<string>()
+
+/**
+ * Check every prompt for blocked paths and mask possible secrets before it reaches the provider.
+ * Prompt previews show the masked prompt, and cached responses are keyed by it.
+ */
+function withRedaction(model: LanguageModelV1, options: AIOptions): LanguageModelV1 {
+  const { redact, blockPaths } = getSecretsConfig()
+  if (!redact && blockPaths.length === 0) return model
+
+  const onRedact = (found: string[]) => {
+    const counts = new Map<string, number>()
+    for (const kind of found) {
+      counts.set(kind, (counts.get(kind) ?? 0) + 1)
+    }
+    const kinds = [...counts].map(([kind, count]) => (count > 1 ? `${kind} × ${count}` : kind))
+    const warning = `Masked ${found.length} possible secret${found.length === 1 ? '' : 's'} before sending to ${options.provider}: ${kinds.join(', ')}`
+    if (redactionWarnings.has(warning)) return
+    redactionWarnings.add(warning)
+    console.error(chalk.yellow(`\n⚠ ${warning}`))
+  }
+  return wrapLanguageModel({
+    model,
+    middleware: createRedactionMiddleware({ redact, blockPaths, onRedact })
+  })
+}
+
+let budgetChecked = false
+
+/**
+ * Warn (once per run) when month-to-date spend nears the configured monthly budget
+ */
+function warnIfOverBudget(): void {
+  if (budgetChecked) return
+  budgetChecked = true
+  const budget = getMonthlyBudget()
+  if (!budget) return
+  const warning = getBudgetWarning(readUsage(), budget)
+  if (warning) {
+    console.error(chalk.yellow(`⚠ ${warning}`))
+  }
+}
+
+/**
+ * Create the model for the main provider, followed by the configured fallback providers
+ */
+async function createModelChain(options: AIOptions, modelName: string): Promise<LanguageModelV1> {
+  const model = instrument(await createProviderModel(options, modelName), options, modelName)
+
+  const fallbackProviders = getFallbackProviders().filter((p) => p !== options.provider)
+  if (fallbackProviders.length === 0) {
+    return model
+  }
+
+  // Only fall back to providers that can actually be used
+  const available = new Set(
+    (await listProviders()).filter(({ hasKey }) => hasKey).map(({ provider }) => provider)
+  )
+  const fallbacks: FallbackTarget[] = fallbackProviders
+    .filter((provider) => available.has(provider))
+    .map((provider) => ({
+      provider,
+      createModel: async () => {
+        // The configured model and base URL belong to the main provider, so use defaults here
+        const fallbackOptions: AIOptions = { provider, language: options.language }
+        const fallbackModel = resolveModelName(fallbackOptions, false)
+        return instrument(
+          await createProviderModel(fallbackOptions, fallbackModel),
+          fallbackOptions,
+          fallbackModel
+        )
+      }
+    }))
 
+  return createFallbackModel(
+    [
+      { provider: options.provider, modelId: modelName, createModel: async () => model },
+      ...fallbacks
+    ],
+    {
+      onFallback: (from, to, error) => {
+        const reason = error instanceof Error ? error.message : String(error)
+        console.error(chalk.yellow(`\n⚠ ${from} failed: ${reason}`))
+        console.error(chalk.yellow(`  Falling back to ${to}...`))
+      },
+      onAnswer: (provider) => {
+        if (provider !== options.provider) {
+          console.error(chalk.gray(`Answered by ${provider}`))
+        }
+      }
+    }
+  )
+}
+
+/**
+ * Serve repeated calls from the response cache, unless disabled (--no-cache or cacheTtl 0).
+ * Recording and the mock provider always call the model.
+ */
+function withCache(model: LanguageModelV1, options: AIOptions): LanguageModelV1 {
+  if (!isCacheEnabled() || getCassette() || options.provider === 'mock') return model
+  const ttl = getCacheTtl()
+  if (ttl <= 0) return model
+  return wrapLanguageModel({ model, middleware: createCacheMiddleware(ttl) })
+}
+
+/**
+ * Record calls into the active cassette (if recording) and into the usage ledger
+ */
+function instrument(
+  model: LanguageModelV1,
+  options: AIOptions,
+  modelName: string
+): LanguageModelV1 {
+  const middleware: LanguageModelV1Middleware[] = []
+  if (getTrackUsage()) {
+    middleware.push(createUsageMiddleware(options.provider, modelName))
+  }
+  const cassette = getCassette()
+  if (cassette?.mode === 'record') {
+    middleware.push(createRecordingMiddleware(cassette.dir))
+  }
+  return middleware.length > 0 ? wrapLanguageModel({ model, middleware }) : model
+}
+
+async function createProviderModel(
+  options: AIOptions,
+  modelName: string
+): Promise<LanguageModelV1> {
   // Helper to get API key: use provided key or fall back to keytar/env
   async function resolveApiKey(): Promise<string | null> {
     if (options.apiKey) return options.apiKey
     return getApiKey(options.provider)
   }
 
-  // Ollama doesn't require an API key
-  if (options.provider !== 'ollama') {
+  // Only the hosted providers require an API key; profiles check their own below
+  if (
+    options.provider === 'gemini' ||
+    options.provider === 'openai' ||
+    options.provider === 'anthropic'
+  ) {
     const apiKey = await resolveApiKey()
     if (!apiKey) {
       throw new Error(
@@ -187,35 +455,512 @@ async function getModel(options: AIOptions) {
       const ollama = createOllama({ baseURL })
       return ollama(modelName)
     }
+    case 'mock': {
+      return createMockModel(modelName)
+    }
+    default: {
+      // Named OpenAI-compatible endpoint from config
+      const profile = resolveProfile(options)!
+      const apiKey = await resolveApiKey()
+      if (profile.apiKeyEnv && !apiKey) {
+        throw new Error(
+          `No API key found for ${options.provider}. Set ${profile.apiKeyEnv} or run: gut auth login --provider ${options.provider}`
+        )
+      }
+      const compatible = createOpenAI({
+        name: options.provider,
+        baseURL: options.baseUrl || profile.baseUrl,
+        apiKey: apiKey ?? 'not-needed',
+        headers: profile.headers,
+        compatibility: 'compatible'
+      })
+      return compatible(modelName)
+    }
   }
 }
 
-export async function generateCommitMessage(
+/**
+ * Per-call provider options recording which template a call was built from.
+ * Real providers ignore the `gut` namespace; the mock provider uses it to look up fixtures.
+ */
+function templateOptions(templateName: string) {
+  return { providerOptions: { gut: { template: templateName } } }
+}
+
+/**
+ * Apply the settings a template pins in its front-matter.
+ * Template settings take precedence over gut config, while --model still wins when the
+ * provider is unchanged. Switching provider drops the connection settings of the original one.
+ */
+function withTemplateSettings(options: AIOptions, template: string | null | undefined): AIOptions {
+  if (!template) return options
+  const { frontMatter } = parseTemplate(template)
+  const { model, temperature, maxTokens, language } = frontMatter
+
+  let resolved: AIOptions = options
+  if (frontMatter.provider) {
+    const lower = frontMatter.provider.toLowerCase()
+    const provider = BUILTIN_PROVIDERS.includes(lower) ? lower : frontMatter.provider
+    if (provider !== options.provider) {
+      resolved = {
+        provider,
+        language: options.language,
+        maxDiffTokens: options.maxDiffTokens
+      }
+      resolved.model = model || resolveModelName(resolved, false)
+    }
+  }
+  if (model && resolved === options && !options.model) {
+    resolved = { ...options, model }
+  }
+
+  return {
+    ...resolved,
+    ...(temperature !== undefined && { temperature }),
+    ...(maxTokens !== undefined && { maxTokens }),
+    ...(language && { language })
+  }
+}
+
+/**
+ * Generation settings for a call, falling back to the generator's default response length
+ */
+function callSettings(options: AIOptions, defaultMaxTokens?: number) {
+  const maxTokens = options.maxTokens ?? defaultMaxTokens
+  return {
+    ...(maxTokens !== undefined && { maxTokens }),
+    ...(options.temperature !== undefined && { temperature: options.temperature })
+  }
+}
+
+type Model = LanguageModelV1
+
+// Maximum number of summarize-the-summaries passes before falling back to truncation
+const MAX_REDUCE_PASSES = 3
+
+// Maximum number of summary calls in flight at once, to stay under provider rate limits
+const SUMMARY_CONCURRENCY = 2
+
+async function summarizeDiffChunks(
+  chunks: string[],
+  model: Model,
+  language?: Language
+): Promise<string> {
+  const repoRoot = getRepoRoot()
+  const userTemplate = repoRoot
+    ? findTemplate(repoRoot, 'diff-summary')
+    : findGlobalTemplate('diff-summary')
+  const prompt = buildPrompt(
+    userTemplate,
+    'diff-summary',
+    {
+      diff: chunks.join('\n')
+    },
+    language,
+    'Respond with ONLY the summary, nothing else.'
+  )
+
+  const result = await generateText({
+    model,
+    prompt,
+    maxTokens: 1024,
+    ...templateOptions('diff-summary')
+  })
+
+  return result.text.trim()
+}
+
+/**
+ * Summarize each group of chunks, at most SUMMARY_CONCURRENCY at a time
+ *
+ * @returns The summaries, in the order of the groups
+ */
+async function summarizeGroups(
+  groups: string[][],
+  model: Model,
+  language?: Language
+): Promise<string[]> {
+  const summaries: string[] = []
+  for (let i = 0; i < groups.length; i += SUMMARY_CONCURRENCY) {
+    const batch = groups.slice(i, i + SUMMARY_CONCURRENCY)
+    summaries.push(
+      ...(await Promise.all(batch.map((chunks) => summarizeDiffChunks(chunks, model, language))))
+    )
+  }
+  return summaries
+}
+
+/**
+ * Fit a diff into the model's token budget.
+ * Diffs within budget are returned unchanged. Larger diffs are split per file/hunk,
+ * each group of chunks is summarized separately (map), and the summaries are combined,
+ * summarizing again if the combined text is still over budget (reduce).
+ */
+async function prepareDiff(diff: string, model: Model, options: AIOptions): Promise<string> {
+  const budget =
+    options.maxDiffTokens ?? getDiffTokenBudget(options.provider, resolveModelName(options))
+  const totalTokens = estimateTokens(diff)
+  if (totalTokens <= budget) {
+    return diff
+  }
+
+  const groups = groupChunks(splitDiff(diff, budget), budget)
+  let summaries = await summarizeGroups(
+    groups.map((group) => group.map((chunk) => chunk.content)),
+    model,
+    options.language
+  )
+
+  let combined = summaries.join('\n\n')
+  for (let pass = 0; pass < MAX_REDUCE_PASSES && estimateTokens(combined) > budget; pass++) {
+    const summaryChunks = summaries.map((summary) => ({
+      file: '',
+      content: summary,
+      tokens: estimateTokens(summary)
+    }))
+    summaries = await summarizeGroups(
+      groupChunks(summaryChunks, budget).map((group) => group.map((chunk) => chunk.content)),
+      model,
+      options.language
+    )
+    combined = summaries.join('\n\n')
+  }
+
+  const files = [...new Set(groups.flat().map((chunk) => chunk.file))]
+  const header = `The full diff (~${totalTokens} tokens, ${files.length} files) exceeds the context budget. Below are summaries of the changes instead of the raw diff.\nFiles changed: ${files.join(', ')}`
+
+  return truncateToTokens(`${header}\n\n${combined}`, budget)
+}
+
+export interface TextStream {
+  textStream: AsyncIterable<string> // Text deltas as they arrive
+  text: Promise<string> // Final text, resolved once the stream has been consumed
+}
+
+export interface ObjectStream<T> {
+  partialObjectStream: AsyncIterable<DeepPartial<T>> // Growing partial objects as they arrive
+  object: Promise<T> // Final validated object
+}
+
+type StreamErrorHandler = (event: { error: unknown }) => void
+
+/**
+ * Start a streaming call and settle its final value. streamText and streamObject report errors
+ * through onError and leave their final promise pending, so it is raced against the first error.
+ */
+function settleStream<R, T>(
+  stream: (onError: StreamErrorHandler) => R,
+  getFinal: (result: R) => PromiseLike<T>
+): { result: R; final: Promise<T> } {
+  let fail: (error: unknown) => void = () => {}
+  const failed = new Promise<never>((_, reject) => {
+    fail = reject
+  })
+  const result = stream(({ error }) => fail(error))
+  const final = Promise.race([Promise.resolve(getFinal(result)), failed])
+  // Callers await the final value only after reading the stream, so don't report it as unhandled
+  final.catch(() => {})
+  return { result, final }
+}
+
+function toTextStream(
+  stream: (onError: StreamErrorHandler) => {
+    textStream: AsyncIterable<string>
+    text: PromiseLike<string>
+  }
+): TextStream {
+  const { result, final } = settleStream(stream, (result) => result.text)
+  return {
+    textStream: result.textStream,
+    text: final.then((text) => text.trim())
+  }
+}
+
+function toObjectStream<T>(
+  stream: (onError: StreamErrorHandler) => {
+    partialObjectStream: AsyncIterable<DeepPartial<T>>
+    object: PromiseLike<T>
+  }
+): ObjectStream<T> {
+  const { result, final } = settleStream(stream, (result) => result.object)
+  return {
+    partialObjectStream: result.partialObjectStream,
+    object: final
+  }
+}
+
+/**
+ * A rejected commit message and the rules it broke, used to ask for a corrected message
+ */
+export interface CommitMessageFeedback {
+  message: string
+  violations: string[]
+}
+
+/**
+ * Extra context for commit message generation
+ */
+export interface CommitMessageContext {
+  scopes?: string[] // Valid scopes for the changed files, most relevant first
+  feedback?: CommitMessageFeedback // A previous message that failed validation, to be corrected
+  style?: CommitStyle | null // How the repository writes commit messages, learned from its history
+}
+
+/**
+ * Context entries and instruction describing the repository's commit style
+ */
+function commitStyleContext(style: CommitStyle | null | undefined) {
+  if (!style) return { context: {}, instruction: '' }
+  return {
+    context: {
+      styleSignals: style.signals.map((signal) => `- ${signal}`).join('\n'),
+      styleExamples: style.examples.join('\n\n---\n\n')
+    },
+    instruction:
+      ' Match the conventions of the repository described in the style signals, using the style examples as a guide for format only.'
+  }
+}
+
+async function buildCommitPrompt(
   diff: string,
+  model: Model,
   options: AIOptions,
-  template?: string
+  template?: string,
+  context: CommitMessageContext = {}
 ): Promise<string> {
-  const model = await getModel(options)
-
-  const prompt = buildPrompt(
+  const { scopes, feedback } = context
+  const style = commitStyleContext(context.style)
+  const scopeInstruction = scopes?.length
+    ? ' If the message has a scope, it must be one of the scopes listed in the context.'
+    : ''
+  return buildPrompt(
     template,
     'commit',
     {
-      diff: diff.slice(0, 8000)
+      diff: await prepareDiff(diff, model, options),
+      scopes: scopes?.join(', '),
+      ...style.context,
+      rejectedMessage: feedback?.message,
+      violations: feedback?.violations.map((v) => `- ${v}`).join('\n')
     },
     options.language,
-    'Respond with ONLY the commit message, nothing else.'
+    feedback
+      ? `The rejected message broke the listed commit rules. Respond with ONLY a corrected commit message that fixes every violation, nothing else.${scopeInstruction}`
+      : `Respond with ONLY the commit message, nothing else.${scopeInstruction}${style.instruction}`
   )
+}
+
+export async function generateCommitMessage(
+  diff: string,
+  options: AIOptions,
+  template?: string,
+  context?: CommitMessageContext
+): Promise<string> {
+  const aiOptions = withTemplateSettings(options, template)
+  const model = await getModel(aiOptions)
+  const prompt = await buildCommitPrompt(diff, model, aiOptions, template, context)
 
   const result = await generateText({
     model,
     prompt,
-    maxTokens: 1024
+    ...callSettings(aiOptions, 1024),
+    ...templateOptions('commit')
   })
 
   return result.text.trim()
 }
 
+/**
+ * Streaming variant of generateCommitMessage
+ */
+export async function streamCommitMessage(
+  diff: string,
+  options: AIOptions,
+  template?: string,
+  context?: CommitMessageContext
+): Promise<TextStream> {
+  const aiOptions = withTemplateSettings(options, template)
+  const model = await getModel(aiOptions)
+  const prompt = await buildCommitPrompt(diff, model, aiOptions, template, context)
+
+  return toTextStream((onError) =>
+    streamText({
+      model,
+      prompt,
+      ...callSettings(aiOptions, 1024),
+      onError,
+      ...templateOptions('commit')
+    })
+  )
+}
+
+const CommitPlanSchema = z.object({
+  commits: z
+    .array(
+      z.object({
+        message: z.string().describe('Commit message for this group of changes'),
+        hunks: z.array(z.string()).describe('IDs of the hunks to include in this commit')
+      })
+    )
+    .min(1)
+    .describe('Commits in the order they should be made')
+})
+
+/**
+ * One commit of a split plan: its message and the hunks it stages
+ */
+export interface CommitGroup {
+  message: string
+  hunks: DiffHunk[]
+}
+
+/**
+ * Match the hunk IDs the AI returned to the diff's hunks.
+ * Unknown IDs are dropped, a file path selects all of that file's hunks, and hunks the AI
+ * left out are added to the last commit so that every change ends up committed.
+ */
+function resolveCommitPlan(
+  commits: Array<{ message: string; hunks: string[] }>,
+  hunks: DiffHunk[]
+): CommitGroup[] {
+  const assigned = new Set<DiffHunk>()
+  const groups = commits.map((commit) => {
+    const selected = new Set<DiffHunk>()
+    for (const id of commit.hunks) {
+      for (const hunk of hunks) {
+        if ((hunk.id === id || hunk.file === id) && !assigned.has(hunk)) {
+          selected.add(hunk)
+          assigned.add(hunk)
+        }
+      }
+    }
+    return { message: commit.message.trim(), selected }
+  })
+
+  const last = groups[groups.length - 1]
+  for (const hunk of hunks) {
+    if (!assigned.has(hunk)) last.selected.add(hunk)
+  }
+
+  // Keep diff order within each commit so the hunks apply cleanly
+  return groups
+    .filter((group) => group.selected.size > 0)
+    .map((group) => ({
+      message: group.message,
+      hunks: hunks.filter((hunk) => group.selected.has(hunk))
+    }))
+}
+
+/**
+ * Group staged changes into logical commits, each with its own message
+ *
+ * @param diff - Staged diff shown to the AI
+ * @param hunks - Hunks of the staged diff that can be committed separately
+ */
+export async function generateCommitPlan(
+  diff: string,
+  hunks: DiffHunk[],
+  options: AIOptions,
+  template?: string,
+  context: CommitMessageContext = {}
+): Promise<CommitGroup[]> {
+  const aiOptions = withTemplateSettings(options, template)
+  const model = await getModel(aiOptions)
+  const style = commitStyleContext(context.style)
+  const scopeInstruction = context.scopes?.length
+    ? ' If a message has a scope, it must be one of the scopes listed in the context.'
+    : ''
+
+  const prompt = buildPrompt(
+    template,
+    'commit',
+    {
+      diff: await prepareDiff(diff, model, aiOptions),
+      hunks: hunks
+        .map((hunk) => `- ${hunk.id}: ${hunk.content.split('\n')[0] || hunk.header.split('\n')[0]}`)
+        .join('\n'),
+      scopes: context.scopes?.join(', '),
+      ...style.context
+    },
+    aiOptions.language,
+    `Split the changes into logical, atomic commits instead of writing a single message. Group related hunks together and list the commits in the order they should be made. Assign every hunk ID listed in the context to exactly one commit. Each commit message must follow the instructions above.${scopeInstruction}${style.instruction}`
+  )
+
+  const result = await generateObject({
+    model,
+    schema: CommitPlanSchema,
+    prompt,
+    ...callSettings(aiOptions),
+    ...templateOptions('commit-split')
+  })
+
+  return resolveCommitPlan(result.object.commits, hunks)
+}
+
+const HunkDescriptionsSchema = z.object({
+  hunks: z.array(
+    z.object({
+      id: z.string().describe('Hunk ID'),
+      description: z.string().describe('One-line description of what the hunk does')
+    })
+  )
+})
+
+// Large hunks are cut so that one hunk cannot crowd out the others
+const MAX_HUNK_TOKENS = 500
+
+/**
+ * Describe what each hunk does in one line
+ *
+ * @returns Descriptions keyed by hunk ID; hunks the AI skipped have no entry
+ */
+export async function generateHunkDescriptions(
+  hunks: DiffHunk[],
+  options: AIOptions,
+  template?: string
+): Promise<Record<string, string>> {
+  // Hunks are listed without their diff headers, so the redaction middleware can't tell
+  // which file each one belongs to
+  const { redact, blockPaths } = getSecretsConfig()
+  assertPathsAllowed(getDiffPaths(hunks.map((hunk) => hunk.header).join('')), blockPaths)
+
+  const aiOptions = withTemplateSettings(options, template)
+  const model = await getModel(aiOptions)
+
+  const prompt = buildPrompt(
+    template,
+    'add',
+    {
+      hunks: hunks
+        .map((hunk) => {
+          const content = truncateToTokens(
+            hunk.content || '(binary or mode change)',
+            MAX_HUNK_TOKENS
+          )
+          return `### ${hunk.id}\n${redact && isEnvFile(hunk.file) ? redactEnvValues(content) : content}`
+        })
+        .join('\n\n')
+    },
+    aiOptions.language,
+    'Describe every hunk listed in the context, using its ID exactly as given.'
+  )
+
+  const result = await generateObject({
+    model,
+    schema: HunkDescriptionsSchema,
+    prompt,
+    ...callSettings(aiOptions),
+    ...templateOptions('add')
+  })
+
+  const ids = new Set(hunks.map((hunk) => hunk.id))
+  return Object.fromEntries(
+    result.object.hunks
+      .filter((hunk) => ids.has(hunk.id))
+      .map((hunk) => [hunk.id, hunk.description.trim()])
+  )
+}
+
 const PRDescriptionSchema = z.object({
   title: z.string().describe('Concise PR title (50-72 chars)'),
   body: z.string().describe('PR description in markdown format')
@@ -223,39 +968,76 @@ const PRDescriptionSchema = z.object({
 
 export type PRDescription = z.infer<typeof PRDescriptionSchema>
 
-export async function generatePRDescription(
-  context: {
-    baseBranch: string
-    currentBranch: string
-    commits: string[]
-    diff: string
-  },
+interface PRContext {
+  baseBranch: string
+  currentBranch: string
+  commits: string[]
+  diff: string
+}
+
+async function buildPRPrompt(
+  context: PRContext,
+  model: Model,
   options: AIOptions,
   template?: string
-): Promise<{ title: string; body: string }> {
-  const model = await getModel(options)
-
-  const prompt = buildPrompt(
+): Promise<string> {
+  return buildPrompt(
     template,
     'pr',
     {
       baseBranch: context.baseBranch,
       currentBranch: context.currentBranch,
       commits: context.commits.map((c) => `- ${c}`).join('\n'),
-      diff: context.diff.slice(0, 6000)
+      diff: await prepareDiff(context.diff, model, options)
     },
     options.language
   )
+}
+
+export async function generatePRDescription(
+  context: PRContext,
+  options: AIOptions,
+  template?: string
+): Promise<{ title: string; body: string }> {
+  const aiOptions = withTemplateSettings(options, template)
+  const model = await getModel(aiOptions)
+  const prompt = await buildPRPrompt(context, model, aiOptions, template)
 
   const result = await generateObject({
     model,
     schema: PRDescriptionSchema,
-    prompt
+    prompt,
+    ...callSettings(aiOptions),
+    ...templateOptions('pr')
   })
 
   return result.object
 }
 
+/**
+ * Streaming variant of generatePRDescription
+ */
+export async function streamPRDescription(
+  context: PRContext,
+  options: AIOptions,
+  template?: string
+): Promise<ObjectStream<PRDescription>> {
+  const aiOptions = withTemplateSettings(options, template)
+  const model = await getModel(aiOptions)
+  const prompt = await buildPRPrompt(context, model, aiOptions, template)
+
+  return toObjectStream<PRDescription>((onError) =>
+    streamObject({
+      model,
+      schema: PRDescriptionSchema,
+      prompt,
+      ...callSettings(aiOptions),
+      onError,
+      ...templateOptions('pr')
+    })
+  )
+}
+
 const CodeReviewSchema = z.object({
   summary: z.string().describe('Brief overall assessment'),
   issues: z.array(
@@ -264,7 +1046,10 @@ const CodeReviewSchema = z.object({
       file: z.string(),
       line: z.number().optional(),
       message: z.string(),
-      suggestion: z.string().optional()
+      suggestion: z
+        .string()
+        .optional()
+        .describe('How to fix it; replacement code for the line goes in a fenced code block')
     })
   ),
   positives: z.array(z.string()).describe('Good practices observed')
@@ -272,31 +1057,66 @@ const CodeReviewSchema = z.object({
 
 export type CodeReview = z.infer<typeof CodeReviewSchema>
 
-export async function generateCodeReview(
+async function buildReviewPrompt(
   diff: string,
+  model: Model,
   options: AIOptions,
   template?: string
-): Promise<CodeReview> {
-  const model = await getModel(options)
-
-  const prompt = buildPrompt(
+): Promise<string> {
+  return buildPrompt(
     template,
     'review',
     {
-      diff: diff.slice(0, 10000)
+      diff: await prepareDiff(diff, model, options)
     },
     options.language
   )
+}
+
+export async function generateCodeReview(
+  diff: string,
+  options: AIOptions,
+  template?: string
+): Promise<CodeReview> {
+  const aiOptions = withTemplateSettings(options, template)
+  const model = await getModel(aiOptions)
+  const prompt = await buildReviewPrompt(diff, model, aiOptions, template)
 
   const result = await generateObject({
     model,
     schema: CodeReviewSchema,
-    prompt
+    prompt,
+    ...callSettings(aiOptions),
+    ...templateOptions('review')
   })
 
   return result.object
 }
 
+/**
+ * Streaming variant of generateCodeReview
+ */
+export async function streamCodeReview(
+  diff: string,
+  options: AIOptions,
+  template?: string
+): Promise<ObjectStream<CodeReview>> {
+  const aiOptions = withTemplateSettings(options, template)
+  const model = await getModel(aiOptions)
+  const prompt = await buildReviewPrompt(diff, model, aiOptions, template)
+
+  return toObjectStream<CodeReview>((onError) =>
+    streamObject({
+      model,
+      schema: CodeReviewSchema,
+      prompt,
+      ...callSettings(aiOptions),
+      onError,
+      ...templateOptions('review')
+    })
+  )
+}
+
 const ChangelogSchema = z.object({
   version: z.string().optional().describe('Version string if detected'),
   date: z.string().describe('Release date in YYYY-MM-DD format'),
@@ -321,7 +1141,8 @@ export async function generateChangelog(
   options: AIOptions,
   template?: string
 ): Promise<Changelog> {
-  const model = await getModel(options)
+  const aiOptions = withTemplateSettings(options, template)
+  const model = await getModel(aiOptions)
 
   const commitList = context.commits
     .map((c) => `- ${c.hash.slice(0, 7)} ${c.message} (${c.author})`)
@@ -334,16 +1155,18 @@ export async function generateChangelog(
       fromRef: context.fromRef,
       toRef: context.toRef,
       commits: commitList,
-      diff: context.diff.slice(0, 8000),
+      diff: await prepareDiff(context.diff, model, aiOptions),
       todayDate: new Date().toISOString().split('T')[0]
     },
-    options.language
+    aiOptions.language
   )
 
   const result = await generateObject({
     model,
     schema: ChangelogSchema,
-    prompt
+    prompt,
+    ...callSettings(aiOptions),
+    ...templateOptions('changelog')
   })
 
   return result.object
@@ -372,46 +1195,49 @@ const ExplanationSchema = z.object({
 
 export type Explanation = z.infer<typeof ExplanationSchema>
 
-export async function generateExplanation(
-  context: {
-    type: 'commit' | 'pr' | 'file-history' | 'file-content' | 'uncommitted' | 'staged'
-    title: string
-    diff?: string
-    content?: string
-    metadata: {
-      hash?: string
-      author?: string
-      date?: string
-      prNumber?: string
-      baseBranch?: string
-      headBranch?: string
-      commits?: string[]
-      filePath?: string
-    }
-  },
+interface ExplanationContext {
+  type: 'commit' | 'pr' | 'file-history' | 'file-content' | 'uncommitted' | 'staged'
+  title: string
+  diff?: string
+  content?: string
+  metadata: {
+    hash?: string
+    author?: string
+    date?: string
+    prNumber?: string
+    baseBranch?: string
+    headBranch?: string
+    commits?: string[]
+    filePath?: string
+  }
+}
+
+function explainTemplateName(context: ExplanationContext): string {
+  return context.type === 'file-content' ? 'explain-file' : 'explain'
+}
+
+async function buildExplanationPrompt(
+  context: ExplanationContext,
+  model: Model,
   options: AIOptions,
   template?: string
-): Promise<Explanation> {
-  const model = await getModel(options)
-
+): Promise<string> {
   // Handle file content explanation
   if (context.type === 'file-content') {
-    const prompt = buildPrompt(
+    const filePath = context.metadata.filePath || ''
+    // Whole files are not diffs, so blocked paths and dotenv values are handled here
+    const { redact, blockPaths } = getSecretsConfig()
+    assertPathsAllowed([filePath], blockPaths)
+    const content = context.content?.slice(0, 15000) || ''
+    return buildPrompt(
       template,
       'explain-file',
       {
-        filePath: context.metadata.filePath || '',
-        content: context.content?.slice(0, 15000) || ''
+        filePath,
+        content: redact && isEnvFile(filePath) ? redactEnvValues(content) : content
       },
       options.language
     )
-
-    const result = await generateObject({
-      model,
-      schema: ExplanationSchema,
-      prompt
-    })
-    return result.object
   }
 
   // Build context info for diff-based explanations
@@ -446,26 +1272,62 @@ Date: ${context.metadata.date}`
     targetType = 'commit'
   }
 
-  const prompt = buildPrompt(
+  return buildPrompt(
     template,
     'explain',
     {
       targetType,
       contextInfo,
-      diff: context.diff?.slice(0, 12000) || ''
+      diff: context.diff ? await prepareDiff(context.diff, model, options) : ''
     },
     options.language
   )
+}
+
+export async function generateExplanation(
+  context: ExplanationContext,
+  options: AIOptions,
+  template?: string
+): Promise<Explanation> {
+  const aiOptions = withTemplateSettings(options, template)
+  const model = await getModel(aiOptions)
+  const prompt = await buildExplanationPrompt(context, model, aiOptions, template)
 
   const result = await generateObject({
     model,
     schema: ExplanationSchema,
-    prompt
+    prompt,
+    ...callSettings(aiOptions),
+    ...templateOptions(explainTemplateName(context))
   })
 
   return result.object
 }
 
+/**
+ * Streaming variant of generateExplanation
+ */
+export async function streamExplanation(
+  context: ExplanationContext,
+  options: AIOptions,
+  template?: string
+): Promise<ObjectStream<Explanation>> {
+  const aiOptions = withTemplateSettings(options, template)
+  const model = await getModel(aiOptions)
+  const prompt = await buildExplanationPrompt(context, model, aiOptions, template)
+
+  return toObjectStream<Explanation>((onError) =>
+    streamObject({
+      model,
+      schema: ExplanationSchema,
+      prompt,
+      ...callSettings(aiOptions),
+      onError,
+      ...templateOptions(explainTemplateName(context))
+    })
+  )
+}
+
 const CommitSearchSchema = z.object({
   matches: z.array(
     z.object({
@@ -502,7 +1364,8 @@ export async function searchCommits(
   maxResults: number = 5,
   template?: string
 ): Promise<CommitSearchResult> {
-  const model = await getModel(options)
+  const aiOptions = withTemplateSettings(options, template)
+  const model = await getModel(aiOptions)
 
   const commitList = commits
     .map(
@@ -519,13 +1382,15 @@ export async function searchCommits(
       commits: commitList,
       maxResults: String(maxResults)
     },
-    options.language
+    aiOptions.language
   )
 
   const result = await generateObject({
     model,
     schema: CommitSearchSchema,
-    prompt
+    prompt,
+    ...callSettings(aiOptions),
+    ...templateOptions('find')
   })
 
   // Enrich results with full commit data and assign relevance based on position
@@ -564,7 +1429,8 @@ export async function generateBranchName(
   },
   template?: string
 ): Promise<string> {
-  const model = await getModel(options)
+  const aiOptions = withTemplateSettings(options, template)
+  const model = await getModel(aiOptions)
 
   const prompt = buildPrompt(
     template,
@@ -574,14 +1440,15 @@ export async function generateBranchName(
       type: context?.type,
       issue: context?.issue
     },
-    options.language,
+    aiOptions.language,
     'Respond with ONLY the branch name, nothing else.'
   )
 
   const result = await generateText({
     model,
     prompt,
-    maxTokens: 1024
+    ...callSettings(aiOptions, 1024),
+    ...templateOptions('branch')
   })
 
   return result.text.trim().replace(/[^a-zA-Z0-9/_-]/g, '')
@@ -592,7 +1459,8 @@ export async function generateBranchNameFromDiff(
   options: AIOptions,
   template?: string | null
 ): Promise<string> {
-  const model = await getModel(options)
+  const aiOptions = withTemplateSettings(options, template)
+  const model = await getModel(aiOptions)
 
   const prompt = buildPrompt(
     template,
@@ -600,14 +1468,15 @@ export async function generateBranchNameFromDiff(
     {
       diff: diff.slice(0, 8000)
     },
-    options.language,
+    aiOptions.language,
     'Respond with ONLY the branch name, nothing else.'
   )
 
   const result = await generateText({
     model,
     prompt,
-    maxTokens: 1024
+    ...callSettings(aiOptions, 1024),
+    ...templateOptions('checkout')
   })
 
   return result.text.trim().replace(/[^a-zA-Z0-9/_-]/g, '')
@@ -618,7 +1487,8 @@ export async function generateStashName(
   options: AIOptions,
   template?: string
 ): Promise<string> {
-  const model = await getModel(options)
+  const aiOptions = withTemplateSettings(options, template)
+  const model = await getModel(aiOptions)
 
   const prompt = buildPrompt(
     template,
@@ -626,14 +1496,15 @@ export async function generateStashName(
     {
       diff: diff.slice(0, 4000)
     },
-    options.language,
+    aiOptions.language,
     'Respond with ONLY the stash name, nothing else.'
   )
 
   const result = await generateText({
     model,
     prompt,
-    maxTokens: 1024
+    ...callSettings(aiOptions, 1024),
+    ...templateOptions('stash')
   })
 
   return result.text.trim()
@@ -673,7 +1544,8 @@ export async function generateWorkSummary(
   format: 'daily' | 'weekly' | 'custom' = 'custom',
   template?: string
 ): Promise<WorkSummary> {
-  const model = await getModel(options)
+  const aiOptions = withTemplateSettings(options, template)
+  const model = await getModel(aiOptions)
 
   const commitList = context.commits
     .map((c) => `- ${c.hash.slice(0, 7)} ${c.message.split('\n')[0]} (${c.date.split('T')[0]})`)
@@ -698,13 +1570,15 @@ export async function generateWorkSummary(
       commits: commitList,
       diff: context.diff?.slice(0, 6000)
     },
-    options.language
+    aiOptions.language
   )
 
   const result = await generateObject({
     model,
     schema: WorkSummarySchema,
-    prompt
+    prompt,
+    ...callSettings(aiOptions),
+    ...templateOptions('summary')
   })
 
   return {
@@ -726,7 +1600,13 @@ export async function resolveConflict(
   options: AIOptions,
   template?: string
 ): Promise<ConflictResolution> {
-  const model = await getModel(options)
+  // The prompt holds the whole conflicted file rather than a diff, which the redaction
+  // middleware would not recognize
+  const { redact, blockPaths } = getSecretsConfig()
+  assertPathsAllowed([context.filename], blockPaths)
+
+  const aiOptions = withTemplateSettings(options, template)
+  const model = await getModel(aiOptions)
 
   const prompt = buildPrompt(
     template,
@@ -735,15 +1615,20 @@ export async function resolveConflict(
       filename: context.filename,
       oursRef: context.oursRef,
       theirsRef: context.theirsRef,
-      content: conflictedContent
+      content:
+        redact && isEnvFile(context.filename)
+          ? redactEnvValues(conflictedContent)
+          : conflictedContent
     },
-    options.language
+    aiOptions.language
   )
 
   const result = await generateObject({
     model,
     schema: ConflictResolutionSchema,
-    prompt
+    prompt,
+    ...callSettings(aiOptions),
+    ...templateOptions('merge')
   })
 
   return result.object
@@ -758,7 +1643,8 @@ export async function generateGitignore(
   options: AIOptions,
   template?: string
 ): Promise<string> {
-  const model = await getModel(options)
+  const aiOptions = withTemplateSettings(options, template)
+  const model = await getModel(aiOptions)
 
   const prompt = buildPrompt(
     template,
@@ -768,14 +1654,15 @@ export async function generateGitignore(
       configFiles: context.configFiles,
       existingGitignore: context.existingGitignore
     },
-    options.language,
+    aiOptions.language,
     'Respond with ONLY the .gitignore content, nothing else. No explanations or markdown code blocks.'
   )
 
   const result = await generateText({
     model,
     prompt,
-    maxTokens: 2000
+    ...callSettings(aiOptions, 2000),
+    ...templateOptions('gitignore')
   })
 
   return result.text.trim()
@@ -0,0 +1,188 @@
+import { readdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import {
+  generateObject,
+  generateText,
+  simulateReadableStream,
+  streamObject,
+  streamText,
+  wrapLanguageModel
+} from 'ai'
+import { MockLanguageModelV1 } from 'ai/test'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { z } from 'zod'
+import { clearCache, createCacheMiddleware, getCacheStats } from './cache.js'
+
+const doGenerate = vi.fn(async () => ({
+  rawCall: { rawPrompt: null, rawSettings: {} },
+  finishReason: 'stop' as const,
+  usage: { promptTokens: 10, completionTokens: 20 },
+  text: 'feat: generated message'
+}))
+
+const doStream = vi.fn(async () => ({
+  rawCall: { rawPrompt: null, rawSettings: {} },
+  stream: simulateReadableStream({
+    chunks: [
+      { type: 'text-delta' as const, textDelta: 'feat: streamed ' },
+      { type: 'text-delta' as const, textDelta: 'message' },
+      {
+        type: 'finish' as const,
+        finishReason: 'stop' as const,
+        usage: { promptTokens: 10, completionTokens: 20 }
+      }
+    ]
+  })
+}))
+
+// Models without structured outputs (e.g. Anthropic) return objects as tool calls
+const toolCall = {
+  toolCallType: 'function' as const,
+  toolCallId: 'call-1',
+  toolName: 'json',
+  args: '{"summary":"Looks good"}'
+}
+
+const doGenerateTool = vi.fn(async () => ({
+  rawCall: { rawPrompt: null, rawSettings: {} },
+  finishReason: 'tool-calls' as const,
+  usage: { promptTokens: 10, completionTokens: 20 },
+  text: '',
+  toolCalls: [toolCall]
+}))
+
+const doStreamTool = vi.fn(async () => ({
+  rawCall: { rawPrompt: null, rawSettings: {} },
+  stream: simulateReadableStream({
+    chunks: [
+      {
+        type: 'tool-call-delta' as const,
+        toolCallType: 'function' as const,
+        toolCallId: 'call-1',
+        toolName: 'json',
+        argsTextDelta: toolCall.args
+      },
+      { type: 'tool-call' as const, ...toolCall },
+      {
+        type: 'finish' as const,
+        finishReason: 'tool-calls' as const,
+        usage: { promptTokens: 10, completionTokens: 20 }
+      }
+    ]
+  })
+}))
+
+const reviewSchema = z.object({ summary: z.string() })
+
+const commitCall = { providerOptions: { gut: { template: 'commit' } } }
+
+describe('response cache', () => {
+  const cacheDir = join(tmpdir(), `gut-cache-${Date.now()}`)
+
+  function cachedModel(ttlSeconds: number = 60) {
+    return wrapLanguageModel({
+      model: new MockLanguageModelV1({ doGenerate, doStream }),
+      middleware: createCacheMiddleware(ttlSeconds, cacheDir)
+    })
+  }
+
+  function cachedToolModel() {
+    return wrapLanguageModel({
+      model: new MockLanguageModelV1({
+        defaultObjectGenerationMode: 'tool',
+        doGenerate: doGenerateTool,
+        doStream: doStreamTool
+      }),
+      middleware: createCacheMiddleware(60, cacheDir)
+    })
+  }
+
+  afterEach(() => {
+    vi.clearAllMocks()
+    rmSync(cacheDir, { recursive: true, force: true })
+  })
+
+  it('should answer a repeated prompt from the cache', async () => {
+    const first = await generateText({ model: cachedModel(), prompt: 'diff', ...commitCall })
+    const second = await generateText({ model: cachedModel(), prompt: 'diff', ...commitCall })
+
+    expect(second.text).toBe(first.text)
+    expect(second.usage.totalTokens).toBe(0)
+    expect(doGenerate).toHaveBeenCalledTimes(1)
+  })
+
+  it('should call the model again for a different prompt', async () => {
+    await generateText({ model: cachedModel(), prompt: 'diff', ...commitCall })
+    await generateText({ model: cachedModel(), prompt: 'other diff', ...commitCall })
+
+    expect(doGenerate).toHaveBeenCalledTimes(2)
+  })
+
+  it('should ignore entries older than the TTL', async () => {
+    await generateText({ model: cachedModel(), prompt: 'diff', ...commitCall })
+    const [file] = readdirSync(cacheDir)
+    const entry = JSON.parse(readFileSync(join(cacheDir, file), 'utf-8'))
+    writeFileSync(join(cacheDir, file), JSON.stringify({ ...entry, createdAt: 0 }))
+
+    await generateText({ model: cachedModel(), prompt: 'diff', ...commitCall })
+
+    expect(doGenerate).toHaveBeenCalledTimes(2)
+  })
+
+  it('should cache streamed responses once complete', async () => {
+    const consume = async () => {
+      let text = ''
+      for await (const delta of streamText({ model: cachedModel(), prompt: 'diff', ...commitCall })
+        .textStream) {
+        text += delta
+      }
+      return text
+    }
+
+    expect(await consume()).toBe('feat: streamed message')
+    expect(await consume()).toBe('feat: streamed message')
+    expect(doStream).toHaveBeenCalledTimes(1)
+  })
+
+  it('should cache objects generated in tool mode', async () => {
+    const generate = () =>
+      generateObject({ model: cachedToolModel(), schema: reviewSchema, prompt: 'diff' })
+
+    expect((await generate()).object).toEqual({ summary: 'Looks good' })
+    expect((await generate()).object).toEqual({ summary: 'Looks good' })
+    expect(doGenerateTool).toHaveBeenCalledTimes(1)
+  })
+
+  it('should cache objects streamed in tool mode', async () => {
+    const stream = async () => {
+      const result = streamObject({
+        model: cachedToolModel(),
+        schema: reviewSchema,
+        prompt: 'diff'
+      })
+      for await (const _ of result.partialObjectStream) {
+        // consume the stream
+      }
+      return result.object
+    }
+
+    expect(await stream()).toEqual({ summary: 'Looks good' })
+    expect(await stream()).toEqual({ summary: 'Looks good' })
+    expect(doStreamTool).toHaveBeenCalledTimes(1)
+  })
+
+  it('should report stats and clear entries', async () => {
+    await generateText({ model: cachedModel(), prompt: 'diff', ...commitCall })
+    await generateText({ model: cachedModel(), prompt: 'other diff', ...commitCall })
+
+    const stats = getCacheStats(60, cacheDir)
+    expect(stats.entries).toBe(2)
+    expect(stats.expired).toBe(0)
+    expect(stats.sizeBytes).toBeGreaterThan(0)
+
+    expect(clearCache({ expiredOnly: true, ttlSeconds: 60 }, cacheDir)).toBe(0)
+    expect(clearCache({}, cacheDir)).toBe(2)
+    expect(getCacheStats(60, cacheDir).entries).toBe(0)
+  })
+})
@@ -0,0 +1,269 @@
+import { createHash } from 'node:crypto'
+import {
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  rmSync,
+  statSync,
+  writeFileSync
+} from 'node:fs'
+import { homedir } from 'node:os'
+import { join } from 'node:path'
+import type {
+  LanguageModelV1,
+  LanguageModelV1CallOptions,
+  LanguageModelV1Middleware,
+  LanguageModelV1StreamPart
+} from 'ai'
+import { getCallTemplate } from './mock.js'
+
+// A function call made by the model; object generation in tool mode returns the object this way
+type ToolCall = NonNullable<Awaited<ReturnType<LanguageModelV1['doGenerate']>>['toolCalls']>[number]
+
+/**
+ * A cached model response
+ */
+export interface CacheEntry {
+  createdAt: number
+  provider: string
+  model: string
+  template: string
+  response: string
+  toolCalls?: ToolCall[]
+}
+
+export interface CacheStats {
+  entries: number
+  expired: number
+  sizeBytes: number
+  oldest?: number
+  newest?: number
+}
+
+let cacheEnabled = true
+
+/**
+ * Enable or disable the response cache for this process (used by --no-cache)
+ */
+export function setCacheEnabled(enabled: boolean): void {
+  cacheEnabled = enabled
+}
+
+export function isCacheEnabled(): boolean {
+  return cacheEnabled
+}
+
+export function getCacheDir(): string {
+  return join(homedir(), '.config', 'gut', 'cache')
+}
+
+/**
+ * Build the cache key for a call.
+ * The prompt built by buildPrompt embeds the template content, so editing a template
+ * invalidates its cached responses.
+ */
+export function getCacheKey(model: LanguageModelV1, params: LanguageModelV1CallOptions): string {
+  return createHash('sha256')
+    .update(
+      JSON.stringify({
+        provider: model.provider,
+        model: model.modelId,
+        template: getCallTemplate(params),
+        prompt: params.prompt,
+        mode: params.mode,
+        temperature: params.temperature,
+        maxTokens: params.maxTokens
+      })
+    )
+    .digest('hex')
+}
+
+function getEntryPath(dir: string, key: string): string {
+  return join(dir, `${key}.json`)
+}
+
+function readEntry(path: string): CacheEntry | null {
+  if (!existsSync(path)) return null
+  try {
+    return JSON.parse(readFileSync(path, 'utf-8')) as CacheEntry
+  } catch {
+    return null
+  }
+}
+
+function isFresh(entry: CacheEntry, ttlSeconds: number): boolean {
+  return Date.now() - entry.createdAt < ttlSeconds * 1000
+}
+
+function saveEntry(
+  dir: string,
+  model: LanguageModelV1,
+  params: LanguageModelV1CallOptions,
+  response: string,
+  toolCalls: ToolCall[] = []
+): void {
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true })
+  }
+  const entry: CacheEntry = {
+    createdAt: Date.now(),
+    provider: model.provider,
+    model: model.modelId,
+    template: getCallTemplate(params),
+    response,
+    ...(toolCalls.length > 0 ? { toolCalls } : {})
+  }
+  writeFileSync(getEntryPath(dir, getCacheKey(model, params)), JSON.stringify(entry, null, 2))
+}
+
+/**
+ * Create a middleware that serves repeated calls from an on-disk cache.
+ * Cached responses report zero token usage, since no API call was made.
+ *
+ * @param ttlSeconds - How long responses stay valid
+ * @param dir - Cache directory
+ */
+export function createCacheMiddleware(
+  ttlSeconds: number,
+  dir: string = getCacheDir()
+): LanguageModelV1Middleware {
+  function lookup(model: LanguageModelV1, params: LanguageModelV1CallOptions): CacheEntry | null {
+    const entry = readEntry(getEntryPath(dir, getCacheKey(model, params)))
+    return entry && isFresh(entry, ttlSeconds) ? entry : null
+  }
+
+  return {
+    wrapGenerate: async ({ doGenerate, params, model }) => {
+      const cached = lookup(model, params)
+      if (cached !== null) {
+        return {
+          text: cached.response,
+          toolCalls: cached.toolCalls,
+          finishReason: cached.toolCalls ? 'tool-calls' : 'stop',
+          usage: { promptTokens: 0, completionTokens: 0 },
+          rawCall: { rawPrompt: params.prompt, rawSettings: {} }
+        }
+      }
+
+      const result = await doGenerate()
+      const toolCalls = result.toolCalls ?? []
+      if ((result.text || toolCalls.length > 0) && result.finishReason !== 'error') {
+        saveEntry(dir, model, params, result.text ?? '', toolCalls)
+      }
+      return result
+    },
+    wrapStream: async ({ doStream, params, model }) => {
+      const cached = lookup(model, params)
+      if (cached !== null) {
+        return {
+          stream: new ReadableStream<LanguageModelV1StreamPart>({
+            start(controller) {
+              if (cached.response) {
+                controller.enqueue({ type: 'text-delta', textDelta: cached.response })
+              }
+              for (const toolCall of cached.toolCalls ?? []) {
+                const { toolCallType, toolCallId, toolName, args } = toolCall
+                controller.enqueue({
+                  type: 'tool-call-delta',
+                  toolCallType,
+                  toolCallId,
+                  toolName,
+                  argsTextDelta: args
+                })
+                controller.enqueue({ type: 'tool-call', ...toolCall })
+              }
+              controller.enqueue({
+                type: 'finish',
+                finishReason: cached.toolCalls ? 'tool-calls' : 'stop',
+                usage: { promptTokens: 0, completionTokens: 0 }
+              })
+              controller.close()
+            }
+          }),
+          rawCall: { rawPrompt: params.prompt, rawSettings: {} }
+        }
+      }
+
+      const { stream, ...rest } = await doStream()
+      let text = ''
+      const toolCalls: ToolCall[] = []
+      let failed = false
+      return {
+        stream: stream.pipeThrough(
+          new TransformStream<LanguageModelV1StreamPart, LanguageModelV1StreamPart>({
+            transform(part, controller) {
+              if (part.type === 'text-delta') {
+                text += part.textDelta
+              } else if (part.type === 'tool-call') {
+                const { type: _type, ...toolCall } = part
+                toolCalls.push(toolCall)
+              } else if (
+                part.type === 'error' ||
+                (part.type === 'finish' && part.finishReason === 'error')
+              ) {
+                failed = true
+              }
+              controller.enqueue(part)
+            },
+            flush() {
+              // Only cache complete responses
+              if (!failed && (text || toolCalls.length > 0)) {
+                saveEntry(dir, model, params, text, toolCalls)
+              }
+            }
+          })
+        ),
+        ...rest
+      }
+    }
+  }
+}
+
+function listEntryFiles(dir: string): string[] {
+  if (!existsSync(dir)) return []
+  return readdirSync(dir)
+    .filter((file) => file.endsWith('.json'))
+    .map((file) => join(dir, file))
+}
+
+/**
+ * Summarize the cache contents
+ *
+ * @param ttlSeconds - TTL used to count expired entries
+ */
+export function getCacheStats(ttlSeconds: number, dir: string = getCacheDir()): CacheStats {
+  const stats: CacheStats = { entries: 0, expired: 0, sizeBytes: 0 }
+  for (const path of listEntryFiles(dir)) {
+    const entry = readEntry(path)
+    if (!entry) continue
+    stats.entries++
+    stats.sizeBytes += statSync(path).size
+    if (!isFresh(entry, ttlSeconds)) stats.expired++
+    stats.oldest = Math.min(stats.oldest ?? entry.createdAt, entry.createdAt)
+    stats.newest = Math.max(stats.newest ?? entry.createdAt, entry.createdAt)
+  }
+  return stats
+}
+
+/**
+ * Delete cached responses
+ *
+ * @param expiredOnly - Only delete entries older than the TTL
+ * @returns Number of deleted entries
+ */
+export function clearCache(
+  options: { expiredOnly?: boolean; ttlSeconds?: number } = {},
+  dir: string = getCacheDir()
+): number {
+  let deleted = 0
+  for (const path of listEntryFiles(dir)) {
+    if (options.expiredOnly) {
+      const entry = readEntry(path)
+      if (entry && isFresh(entry, options.ttlSeconds ?? 0)) continue
+    }
+    rmSync(path, { force: true })
+    deleted++
+  }
+  return deleted
+}
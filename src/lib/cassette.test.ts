@@ -0,0 +1,208 @@
+import { existsSync, readdirSync, readFileSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import {
+  generateObject,
+  generateText,
+  simulateReadableStream,
+  streamObject,
+  streamText,
+  wrapLanguageModel
+} from 'ai'
+import { MockLanguageModelV1 } from 'ai/test'
+import { afterEach, describe, expect, it } from 'vitest'
+import { z } from 'zod'
+import { createRecordingMiddleware, getCassette, setCassette } from './cassette.js'
+import { createMockModel } from './mock.js'
+
+const realModel = new MockLanguageModelV1({
+  doGenerate: async () => ({
+    rawCall: { rawPrompt: null, rawSettings: {} },
+    finishReason: 'stop' as const,
+    usage: { promptTokens: 10, completionTokens: 20 },
+    text: 'feat: recorded message'
+  }),
+  doStream: async () => ({
+    rawCall: { rawPrompt: null, rawSettings: {} },
+    stream: simulateReadableStream({
+      chunks: [
+        { type: 'text-delta' as const, textDelta: 'feat: streamed ' },
+        { type: 'text-delta' as const, textDelta: 'message' },
+        {
+          type: 'finish' as const,
+          finishReason: 'stop' as const,
+          usage: { promptTokens: 10, completionTokens: 20 }
+        }
+      ]
+    })
+  })
+})
+
+// Models without structured outputs (e.g. Anthropic) return objects as tool calls
+const toolCall = {
+  toolCallType: 'function' as const,
+  toolCallId: 'call-1',
+  toolName: 'json',
+  args: '{"summary":"Looks good"}'
+}
+
+const toolModel = new MockLanguageModelV1({
+  defaultObjectGenerationMode: 'tool',
+  doGenerate: async () => ({
+    rawCall: { rawPrompt: null, rawSettings: {} },
+    finishReason: 'tool-calls' as const,
+    usage: { promptTokens: 10, completionTokens: 20 },
+    text: '',
+    toolCalls: [toolCall]
+  }),
+  doStream: async () => ({
+    rawCall: { rawPrompt: null, rawSettings: {} },
+    stream: simulateReadableStream({
+      chunks: [
+        {
+          type: 'tool-call-delta' as const,
+          toolCallType: 'function' as const,
+          toolCallId: 'call-1',
+          toolName: 'json',
+          argsTextDelta: toolCall.args
+        },
+        { type: 'tool-call' as const, ...toolCall },
+        {
+          type: 'finish' as const,
+          finishReason: 'tool-calls' as const,
+          usage: { promptTokens: 10, completionTokens: 20 }
+        }
+      ]
+    })
+  })
+})
+
+const reviewSchema = z.object({ summary: z.string() })
+const reviewCall = { providerOptions: { gut: { template: 'review' } } }
+
+const commitCall = { providerOptions: { gut: { template: 'commit' } } }
+
+describe('cassette', () => {
+  const cassetteDir = join(tmpdir(), `gut-cassette-${Date.now()}`)
+
+  afterEach(() => {
+    setCassette(null)
+    rmSync(cassetteDir, { recursive: true, force: true })
+  })
+
+  it('should keep the active cassette', () => {
+    setCassette({ mode: 'record', dir: cassetteDir })
+    expect(getCassette()).toEqual({ mode: 'record', dir: cassetteDir })
+  })
+
+  it('should record prompt and response, then replay them', async () => {
+    const recording = wrapLanguageModel({
+      model: realModel,
+      middleware: createRecordingMiddleware(cassetteDir)
+    })
+
+    await generateText({ model: recording, prompt: 'diff prompt', ...commitCall })
+
+    const files = readdirSync(cassetteDir)
+    expect(files).toHaveLength(1)
+    expect(files[0]).toMatch(/^commit-[0-9a-f]+\.json$/)
+    const saved = JSON.parse(readFileSync(join(cassetteDir, files[0]), 'utf-8'))
+    expect(saved).toMatchObject({
+      template: 'commit',
+      prompt: 'diff prompt',
+      response: 'feat: recorded message'
+    })
+
+    const replay = createMockModel('mock', cassetteDir, true)
+    const result = await generateText({ model: replay, prompt: 'diff prompt', ...commitCall })
+    expect(result.text).toBe('feat: recorded message')
+  })
+
+  it('should record streamed responses once the stream completes', async () => {
+    const recording = wrapLanguageModel({
+      model: realModel,
+      middleware: createRecordingMiddleware(cassetteDir)
+    })
+
+    const result = streamText({ model: recording, prompt: 'diff prompt', ...commitCall })
+    for await (const _ of result.textStream) {
+      // consume the stream
+    }
+
+    const files = readdirSync(cassetteDir)
+    const saved = JSON.parse(readFileSync(join(cassetteDir, files[0]), 'utf-8'))
+    expect(saved.response).toBe('feat: streamed message')
+  })
+
+  it('should record objects returned as tool calls, then replay them', async () => {
+    const recording = wrapLanguageModel({
+      model: toolModel,
+      middleware: createRecordingMiddleware(cassetteDir)
+    })
+
+    await generateObject({ model: recording, schema: reviewSchema, prompt: 'diff', ...reviewCall })
+
+    const replay = createMockModel('mock', cassetteDir, true)
+    const result = await generateObject({
+      model: replay,
+      schema: reviewSchema,
+      prompt: 'diff',
+      ...reviewCall
+    })
+    expect(result.object).toEqual({ summary: 'Looks good' })
+  })
+
+  it('should record objects streamed as tool calls', async () => {
+    const recording = wrapLanguageModel({
+      model: toolModel,
+      middleware: createRecordingMiddleware(cassetteDir)
+    })
+
+    const result = streamObject({
+      model: recording,
+      schema: reviewSchema,
+      prompt: 'diff',
+      ...reviewCall
+    })
+    for await (const _ of result.partialObjectStream) {
+      // consume the stream
+    }
+
+    const files = readdirSync(cassetteDir)
+    const saved = JSON.parse(readFileSync(join(cassetteDir, files[0]), 'utf-8'))
+    expect(saved.response).toBe('{"summary":"Looks good"}')
+  })
+
+  it('should replay a changelog recorded on an earlier day', async () => {
+    const changelogCall = { providerOptions: { gut: { template: 'changelog' } } }
+    const changelogPrompt = (date: string) =>
+      `<context>\n<commits>\n- abc1234 feat: add login (Dev)\n</commits>\n<todayDate>\n${date}\n</todayDate>\n</context>\n\n<instructions>\nWrite a changelog\n</instructions>`
+    const recording = wrapLanguageModel({
+      model: realModel,
+      middleware: createRecordingMiddleware(cassetteDir)
+    })
+
+    await generateText({
+      model: recording,
+      prompt: changelogPrompt('2024-01-01'),
+      ...changelogCall
+    })
+
+    const replay = createMockModel('mock', cassetteDir, true)
+    const result = await generateText({
+      model: replay,
+      prompt: changelogPrompt('2024-01-02'),
+      ...changelogCall
+    })
+    expect(result.text).toBe('feat: recorded message')
+  })
+
+  it('should fail on replay when the prompt was not recorded', async () => {
+    const replay = createMockModel('mock', cassetteDir, true)
+
+    await expect(
+      generateText({ model: replay, prompt: 'unknown prompt', ...commitCall })
+    ).rejects.toThrow('No recorded response for commit')
+    expect(existsSync(cassetteDir)).toBe(false)
+  })
+})
@@ -0,0 +1,72 @@
+import { existsSync, mkdirSync, writeFileSync } from 'node:fs'
+import type { LanguageModelV1CallOptions, LanguageModelV1Middleware } from 'ai'
+import { type Fixture, getCallTemplate, getFixturePath, getPromptText, hashPrompt } from './mock.js'
+
+export interface Cassette {
+  mode: 'record' | 'replay'
+  dir: string
+}
+
+let activeCassette: Cassette | null = null
+
+/**
+ * Set the cassette used for all AI calls in this process (null to disable).
+ * Recording saves every prompt and raw response; replay serves them back via the mock provider.
+ */
+export function setCassette(cassette: Cassette | null): void {
+  activeCassette = cassette
+}
+
+export function getCassette(): Cassette | null {
+  return activeCassette
+}
+
+function saveRecording(dir: string, params: LanguageModelV1CallOptions, response: string): void {
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true })
+  }
+  const template = getCallTemplate(params)
+  const prompt = getPromptText(params)
+  const promptHash = hashPrompt(prompt)
+  const fixture: Fixture = { template, promptHash, prompt, response }
+  writeFileSync(getFixturePath(dir, template, promptHash), JSON.stringify(fixture, null, 2))
+}
+
+/**
+ * Create a middleware that records every call's prompt and raw response into a cassette directory.
+ * Recordings use the mock provider's fixture format, so a cassette can be replayed with --replay
+ * or used directly as GUT_MOCK_FIXTURES. Objects that the model returned as a tool call (tool mode)
+ * are recorded as their JSON arguments, which the mock provider replays in JSON mode.
+ */
+export function createRecordingMiddleware(dir: string): LanguageModelV1Middleware {
+  return {
+    wrapGenerate: async ({ doGenerate, params }) => {
+      const result = await doGenerate()
+      saveRecording(dir, params, result.text || result.toolCalls?.[0]?.args || '')
+      return result
+    },
+    wrapStream: async ({ doStream, params }) => {
+      const { stream, ...rest } = await doStream()
+      let text = ''
+      let toolArgs = ''
+      return {
+        stream: stream.pipeThrough(
+          new TransformStream({
+            transform(part, controller) {
+              if (part.type === 'text-delta') {
+                text += part.textDelta
+              } else if (part.type === 'tool-call' && !toolArgs) {
+                toolArgs = part.args
+              }
+              controller.enqueue(part)
+            },
+            flush() {
+              saveRecording(dir, params, text || toolArgs)
+            }
+          })
+        ),
+        ...rest
+      }
+    }
+  }
+}
@@ -0,0 +1,153 @@
+import { mkdirSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import {
+  CONVENTIONAL_RULES,
+  findCommitlintConfig,
+  getConventionalRules,
+  lintCommitMessage,
+  loadCommitRules
+} from './commitlint.js'
+
+describe('lintCommitMessage', () => {
+  it('should accept a valid conventional commit', () => {
+    expect(
+      lintCommitMessage('feat(api): add login endpoint\n\n- validate tokens', CONVENTIONAL_RULES)
+    ).toEqual([])
+  })
+
+  it('should report missing type and subject', () => {
+    expect(lintCommitMessage('Added login', CONVENTIONAL_RULES)).toEqual([
+      'type may not be empty',
+      'subject may not be empty'
+    ])
+  })
+
+  it('should report type, case, full stop and length violations', () => {
+    const violations = lintCommitMessage(
+      `feature: Add login endpoint.${'x'.repeat(100)}`,
+      CONVENTIONAL_RULES
+    )
+
+    expect(violations).toContain(
+      'type must be one of [build, chore, ci, docs, feat, fix, perf, refactor, revert, style, test]'
+    )
+    expect(violations).toContain(
+      'subject must not be sentence-case, start-case, pascal-case, upper-case'
+    )
+    expect(violations).toContain(
+      'header must not be longer than 100 characters, current length is 128'
+    )
+  })
+
+  it('should report a trailing full stop', () => {
+    expect(lintCommitMessage('fix: handle empty diff.', CONVENTIONAL_RULES)).toEqual([
+      'subject may not end with full stop'
+    ])
+  })
+
+  it('should ignore warnings and disabled rules', () => {
+    expect(
+      lintCommitMessage('fix: handle empty diff\nno blank line', {
+        'body-leading-blank': [1, 'always'],
+        'type-enum': [0, 'always', ['feat']]
+      })
+    ).toEqual([])
+  })
+
+  it('should check allowed types and scopes', () => {
+    const rules = getConventionalRules(['feat', 'fix'], ['api', 'web'])
+
+    expect(lintCommitMessage('feat(api,web): share session', rules)).toEqual([])
+    expect(lintCommitMessage('docs(cli): update readme', rules)).toEqual([
+      'type must be one of [feat, fix]',
+      'scope must be one of [api, web]'
+    ])
+  })
+})
+
+describe('loadCommitRules', () => {
+  const testRepo = join(tmpdir(), 'gut-test-commitlint')
+
+  beforeEach(() => {
+    mkdirSync(testRepo, { recursive: true })
+  })
+
+  afterEach(() => {
+    rmSync(testRepo, { recursive: true, force: true })
+  })
+
+  it('should return the fallback rules when there is no config', async () => {
+    expect(findCommitlintConfig(testRepo)).toBeNull()
+    expect(await loadCommitRules(testRepo)).toBeNull()
+    expect(await loadCommitRules(testRepo, CONVENTIONAL_RULES)).toEqual({
+      rules: CONVENTIONAL_RULES,
+      source: 'built-in'
+    })
+  })
+
+  it('should merge rules over the conventional preset', async () => {
+    writeFileSync(
+      join(testRepo, '.commitlintrc.json'),
+      JSON.stringify({
+        extends: ['@commitlint/config-conventional'],
+        rules: { 'header-max-length': [2, 'always', 72] }
+      })
+    )
+
+    const loaded = await loadCommitRules(testRepo)
+
+    expect(loaded?.source).toBe(join(testRepo, '.commitlintrc.json'))
+    expect(loaded?.rules['header-max-length']).toEqual([2, 'always', 72])
+    expect(loaded?.rules['type-enum']).toEqual(CONVENTIONAL_RULES['type-enum'])
+  })
+
+  it('should read the commitlint key from package.json', async () => {
+    writeFileSync(
+      join(testRepo, 'package.json'),
+      JSON.stringify({ commitlint: { rules: { 'type-enum': [2, 'always', ['feat']] } } })
+    )
+
+    const loaded = await loadCommitRules(testRepo)
+
+    expect(loaded?.rules).toEqual({ 'type-enum': [2, 'always', ['feat']] })
+  })
+
+  it('should read YAML configs', async () => {
+    writeFileSync(
+      join(testRepo, '.commitlintrc'),
+      "extends:\n  - '@commitlint/config-conventional'\nrules:\n  header-max-length: [2, always, 72]\n"
+    )
+
+    const loaded = await loadCommitRules(testRepo)
+
+    expect(loaded?.rules['header-max-length']).toEqual([2, 'always', 72])
+    expect(loaded?.rules['type-enum']).toEqual(CONVENTIONAL_RULES['type-enum'])
+  })
+
+  it('should find .commitlintrc.yml', () => {
+    writeFileSync(join(testRepo, '.commitlintrc.yml'), 'rules: {}\n')
+
+    expect(findCommitlintConfig(testRepo)).toBe(join(testRepo, '.commitlintrc.yml'))
+  })
+
+  it('should name the config file when it cannot be read', async () => {
+    writeFileSync(join(testRepo, '.commitlintrc.yaml'), 'rules: [unclosed')
+
+    await expect(loadCommitRules(testRepo)).rejects.toThrow(
+      'Could not load commitlint config .commitlintrc.yaml'
+    )
+  })
+
+  it('should load JavaScript configs', async () => {
+    writeFileSync(
+      join(testRepo, 'commitlint.config.cjs'),
+      "module.exports = { rules: { 'scope-empty': [2, 'never'] } }"
+    )
+
+    const loaded = await loadCommitRules(testRepo)
+
+    expect(loaded?.rules).toEqual({ 'scope-empty': [2, 'never'] })
+  })
+})
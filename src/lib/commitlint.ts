@@ -0,0 +1,281 @@
+import { existsSync, readFileSync } from 'node:fs'
+import { basename, join } from 'node:path'
+import { pathToFileURL } from 'node:url'
+import { parse as parseYaml } from 'yaml'
+
+/**
+ * A commitlint rule: [level (0 off, 1 warning, 2 error), 'always' | 'never', value]
+ */
+export type CommitRule = [level: 0 | 1 | 2, applicable?: 'always' | 'never', value?: unknown]
+
+export type CommitRules = Record<string, CommitRule>
+
+export interface LoadedCommitRules {
+  rules: CommitRules
+  source: string // Config file the rules came from, or 'built-in'
+}
+
+export const DEFAULT_COMMIT_TYPES = [
+  'build',
+  'chore',
+  'ci',
+  'docs',
+  'feat',
+  'fix',
+  'perf',
+  'refactor',
+  'revert',
+  'style',
+  'test'
+]
+
+/**
+ * Built-in Conventional Commits ruleset, matching @commitlint/config-conventional
+ */
+export const CONVENTIONAL_RULES: CommitRules = {
+  'type-enum': [2, 'always', DEFAULT_COMMIT_TYPES],
+  'type-case': [2, 'always', 'lower-case'],
+  'type-empty': [2, 'never'],
+  'scope-case': [2, 'always', 'lower-case'],
+  'subject-case': [2, 'never', ['sentence-case', 'start-case', 'pascal-case', 'upper-case']],
+  'subject-empty': [2, 'never'],
+  'subject-full-stop': [2, 'never', '.'],
+  'header-max-length': [2, 'always', 100],
+  'body-leading-blank': [1, 'always'],
+  'body-max-line-length': [2, 'always', 100]
+}
+
+// Searched in order, like commitlint itself
+const CONFIG_FILES = [
+  '.commitlintrc',
+  '.commitlintrc.json',
+  '.commitlintrc.yaml',
+  '.commitlintrc.yml',
+  '.commitlintrc.js',
+  '.commitlintrc.cjs',
+  '.commitlintrc.mjs',
+  '.commitlintrc.ts',
+  '.commitlintrc.cts',
+  '.commitlintrc.mts',
+  'commitlint.config.js',
+  'commitlint.config.cjs',
+  'commitlint.config.mjs',
+  'commitlint.config.ts',
+  'commitlint.config.cts',
+  'commitlint.config.mts'
+]
+
+interface CommitlintConfig {
+  extends?: string | string[]
+  rules?: CommitRules
+}
+
+async function readConfigFile(path: string): Promise<CommitlintConfig> {
+  // TypeScript configs load on Node versions that can strip types (22.6+ with a flag, 23.6+)
+  if (/\.[cm]?[jt]s$/.test(path)) {
+    const module = await import(pathToFileURL(path).href)
+    return (module.default ?? module) as CommitlintConfig
+  }
+  const content = readFileSync(path, 'utf-8')
+  if (basename(path) === 'package.json') {
+    return JSON.parse(content).commitlint as CommitlintConfig
+  }
+  // .commitlintrc may be JSON or YAML; YAML parses both
+  return (parseYaml(content) ?? {}) as CommitlintConfig
+}
+
+/**
+ * Find the repository's commitlint config (a config file or the `commitlint` key in package.json)
+ */
+export function findCommitlintConfig(repoRoot: string): string | null {
+  for (const file of CONFIG_FILES) {
+    const path = join(repoRoot, file)
+    if (existsSync(path)) return path
+  }
+  const packagePath = join(repoRoot, 'package.json')
+  if (existsSync(packagePath)) {
+    try {
+      if (JSON.parse(readFileSync(packagePath, 'utf-8')).commitlint) return packagePath
+    } catch {
+      // Not our concern if package.json is broken
+    }
+  }
+  return null
+}
+
+/**
+ * Get the built-in ruleset, optionally restricted to the given types and scopes
+ */
+export function getConventionalRules(types?: string[], scopes?: string[]): CommitRules {
+  return {
+    ...CONVENTIONAL_RULES,
+    ...(types?.length && { 'type-enum': [2, 'always', types] }),
+    ...(scopes?.length && { 'scope-enum': [2, 'always', scopes] })
+  }
+}
+
+/**
+ * Load the repository's commitlint rules.
+ * Configs extending @commitlint/config-conventional start from the built-in ruleset.
+ *
+ * @param fallback - Rules to use when the repo has no commitlint config
+ * @returns The rules, or null when there is nothing to validate against
+ * @throws When the config file cannot be read
+ */
+export async function loadCommitRules(
+  repoRoot: string,
+  fallback: CommitRules | null = null
+): Promise<LoadedCommitRules | null> {
+  const path = findCommitlintConfig(repoRoot)
+  if (!path) {
+    return fallback ? { rules: fallback, source: 'built-in' } : null
+  }
+
+  let config: CommitlintConfig
+  try {
+    config = await readConfigFile(path)
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error)
+    throw new Error(`Could not load commitlint config ${basename(path)}: ${reason}`, {
+      cause: error
+    })
+  }
+  const presets = [config.extends ?? []].flat()
+  const base = presets.some((preset) => preset.includes('config-conventional'))
+    ? CONVENTIONAL_RULES
+    : {}
+  return { rules: { ...base, ...config.rules }, source: path }
+}
+
+interface ParsedCommit {
+  header: string
+  type?: string
+  scope?: string
+  subject?: string
+  body: string[] // Lines after the header
+}
+
+function parseCommit(message: string): ParsedCommit {
+  const [header = '', ...body] = message.split('\n')
+  const match = header.match(/^(\w[\w-]*)(?:\(([^)]*)\))?!?: ?(.*)$/)
+  if (!match) {
+    return { header, body }
+  }
+  const [, type, scope, subject] = match
+  return { header, type, scope: scope || undefined, subject: subject || undefined, body }
+}
+
+const CASE_CHECKS: Record<string, (value: string) => boolean> = {
+  'lower-case': (value) => value === value.toLowerCase(),
+  'upper-case': (value) => value === value.toUpperCase(),
+  'sentence-case': (value) =>
+    value[0] === value[0].toUpperCase() && value.slice(1) === value.slice(1).toLowerCase(),
+  'start-case': (value) =>
+    value
+      .split(/\s+/)
+      .filter(Boolean)
+      .every((word) => word[0] === word[0].toUpperCase()),
+  'pascal-case': (value) => /^[A-Z][a-zA-Z0-9]*$/.test(value),
+  'camel-case': (value) => /^[a-z][a-zA-Z0-9]*$/.test(value),
+  'kebab-case': (value) => /^[a-z0-9]+(-[a-z0-9]+)*$/.test(value),
+  'snake-case': (value) => /^[a-z0-9]+(_[a-z0-9]+)*$/.test(value)
+}
+
+function matchesCase(value: string, cases: string[]): boolean {
+  return cases.some((name) => CASE_CHECKS[name](value))
+}
+
+/**
+ * Check one rule. Returns the violation message, or null when the rule passes or is unsupported.
+ */
+function checkRule(name: string, rule: CommitRule, commit: ParsedCommit): string | null {
+  const [, applicable = 'always', value] = rule
+  const never = applicable === 'never'
+  const [field, check] = [name.slice(0, name.indexOf('-')), name.slice(name.indexOf('-') + 1)]
+  const fieldValue =
+    field === 'type'
+      ? commit.type
+      : field === 'scope'
+        ? commit.scope
+        : field === 'subject'
+          ? commit.subject
+          : undefined
+
+  switch (check) {
+    case 'empty': {
+      const empty = !fieldValue
+      if (never && empty) return `${field} may not be empty`
+      if (!never && !empty) return `${field} must be empty`
+      return null
+    }
+    case 'enum': {
+      if (!fieldValue || !Array.isArray(value) || value.length === 0) return null
+      // Scopes may list several comma-separated values
+      const values = field === 'scope' ? fieldValue.split(/\s*[,/]\s*/) : [fieldValue]
+      const allowed = values.every((v) => value.includes(v))
+      if (!never && !allowed) return `${field} must be one of [${value.join(', ')}]`
+      if (never && values.some((v) => value.includes(v))) {
+        return `${field} must not be one of [${value.join(', ')}]`
+      }
+      return null
+    }
+    case 'case': {
+      const cases = [value]
+        .flat()
+        .map(String)
+        .filter((name) => name in CASE_CHECKS)
+      if (!fieldValue || cases.length === 0) return null
+      const matches = matchesCase(fieldValue, cases)
+      if (!never && !matches) return `${field} must be ${cases.join(', ')}`
+      if (never && matches) return `${field} must not be ${cases.join(', ')}`
+      return null
+    }
+    case 'full-stop': {
+      if (!fieldValue) return null
+      const stop = typeof value === 'string' ? value : '.'
+      const ends = fieldValue.endsWith(stop)
+      if (never && ends) return `${field} may not end with full stop`
+      if (!never && !ends) return `${field} must end with full stop`
+      return null
+    }
+    case 'max-length': {
+      if (typeof value !== 'number') return null
+      const text = field === 'header' ? commit.header : fieldValue
+      if (text && text.length > value) {
+        return `${field} must not be longer than ${value} characters, current length is ${text.length}`
+      }
+      return null
+    }
+    case 'leading-blank': {
+      if (field !== 'body' || commit.body.length === 0) return null
+      const blank = commit.body[0].trim() === ''
+      if (!never && !blank) return 'body must have leading blank line'
+      if (never && blank) return 'body must not have leading blank line'
+      return null
+    }
+    case 'max-line-length': {
+      if (field !== 'body' || typeof value !== 'number') return null
+      const longLine = commit.body.find((line) => line.length > value)
+      return longLine ? `body's lines must not be longer than ${value} characters` : null
+    }
+    default:
+      return null
+  }
+}
+
+/**
+ * Validate a commit message.
+ * Only error-level rules (level 2) are reported; unsupported rules are ignored.
+ *
+ * @returns The violations, empty if the message passes
+ */
+export function lintCommitMessage(message: string, rules: CommitRules): string[] {
+  const commit = parseCommit(message.trim())
+  const violations: string[] = []
+  for (const [name, rule] of Object.entries(rules)) {
+    if (!Array.isArray(rule) || rule[0] !== 2) continue
+    const violation = checkRule(name, rule, commit)
+    if (violation) violations.push(violation)
+  }
+  return violations
+}
@@ -17,12 +17,26 @@ vi.mock('child_process', () => ({
 }))
 
 import {
+  getCommandConfig,
+  getCommitTypes,
   getConfig,
   getDefaultModel,
+  getFallbackProviders,
   getGlobalConfig,
+  getProviderProfile,
+  getProviderProfileNames,
+  getReviewConfig,
+  getSecretsConfig,
+  getStyleSamples,
+  getTicketConfig,
   isValidLanguage,
   isValidProvider,
-  setGlobalConfig
+  parseCommandConfigKey,
+  setCommandConfig,
+  setCommitValues,
+  setFallbackProviders,
+  setGlobalConfig,
+  setStyleSamples
 } from './config.js'
 
 describe('config', () => {
@@ -79,6 +93,57 @@ describe('config', () => {
       expect(isValidProvider('')).toBe(false)
       expect(isValidProvider('gpt')).toBe(false)
     })
+
+    it('should accept configured provider profiles', () => {
+      const configPath = join(globalConfigDir, 'config.json')
+      writeFileSync(
+        configPath,
+        JSON.stringify({
+          providers: { vllm: { type: 'openai-compatible', baseUrl: 'http://localhost:8000/v1' } }
+        })
+      )
+
+      expect(isValidProvider('vllm')).toBe(true)
+    })
+  })
+
+  describe('provider profiles', () => {
+    it('should merge local profiles over global ones', () => {
+      const globalPath = join(globalConfigDir, 'config.json')
+      const localPath = join(localConfigDir, 'config.json')
+
+      writeFileSync(
+        globalPath,
+        JSON.stringify({
+          providers: {
+            vllm: { type: 'openai-compatible', baseUrl: 'http://global:8000/v1' },
+            gateway: { type: 'openai-compatible', baseUrl: 'https://gateway.example.com/v1' }
+          }
+        })
+      )
+      writeFileSync(
+        localPath,
+        JSON.stringify({
+          providers: { vllm: { type: 'openai-compatible', baseUrl: 'http://local:8000/v1' } }
+        })
+      )
+
+      expect(getProviderProfileNames()).toEqual(['vllm', 'gateway'])
+      expect(getProviderProfile('vllm')?.baseUrl).toBe('http://local:8000/v1')
+      expect(getProviderProfile('missing')).toBeUndefined()
+    })
+
+    it('should not let profiles shadow built-in providers', () => {
+      const configPath = join(globalConfigDir, 'config.json')
+      writeFileSync(
+        configPath,
+        JSON.stringify({
+          providers: { openai: { type: 'openai-compatible', baseUrl: 'http://localhost/v1' } }
+        })
+      )
+
+      expect(getProviderProfileNames()).toEqual([])
+    })
   })
 
   describe('getGlobalConfig', () => {
@@ -119,4 +184,159 @@ describe('config', () => {
       expect(config.model).toBe('gpt-4') // Global value preserved
     })
   })
+  describe('fallback providers', () => {
+    it('should save and clear the fallback chain', () => {
+      setFallbackProviders(['anthropic', 'ollama'])
+      expect(getFallbackProviders()).toEqual(['anthropic', 'ollama'])
+
+      setFallbackProviders([])
+      expect(getFallbackProviders()).toEqual([])
+    })
+
+    it('should reject unknown providers', () => {
+      expect(() => setFallbackProviders(['anthropic', 'azure'])).toThrow('Invalid provider: azure')
+    })
+  })
+
+  describe('per-command config', () => {
+    it('should parse per-command keys', () => {
+      expect(parseCommandConfigKey('commands.review.model')).toEqual({
+        command: 'review',
+        setting: 'model'
+      })
+      expect(parseCommandConfigKey('commands.review.temperature')).toBeNull()
+      expect(parseCommandConfigKey('commands.auth.model')).toBeNull()
+      expect(parseCommandConfigKey('model')).toBeNull()
+    })
+
+    it('should merge local settings over global ones per command', () => {
+      setCommandConfig('review', 'provider', 'anthropic')
+      setCommandConfig('review', 'model', 'claude-sonnet-4-5')
+      setCommandConfig('review', 'model', 'claude-opus-4-1', true)
+
+      expect(getCommandConfig('review')).toEqual({
+        provider: 'anthropic',
+        model: 'claude-opus-4-1'
+      })
+      expect(getCommandConfig('stash')).toEqual({})
+    })
+
+    it('should clear settings with an empty value', () => {
+      setCommandConfig('stash', 'model', 'gemini-2.5-flash-lite')
+      setCommandConfig('stash', 'model', '')
+
+      expect(getCommandConfig('stash')).toEqual({})
+      expect(getGlobalConfig().commands).toBeUndefined()
+    })
+
+    it('should store ignore patterns as a list', () => {
+      setCommandConfig('review', 'ignore', '*.snap, dist/')
+
+      expect(parseCommandConfigKey('commands.review.ignore')).toEqual({
+        command: 'review',
+        setting: 'ignore'
+      })
+      expect(getCommandConfig('review')).toEqual({ ignore: ['*.snap', 'dist/'] })
+
+      setCommandConfig('review', 'ignore', '')
+      expect(getCommandConfig('review')).toEqual({})
+    })
+
+    it('should reject unknown commands and providers', () => {
+      expect(() => setCommandConfig('auth', 'model', 'x')).toThrow('Unknown command: auth')
+      expect(() => setCommandConfig('review', 'provider', 'azure')).toThrow(
+        'Invalid provider: azure'
+      )
+    })
+  })
+
+  describe('commit rule values', () => {
+    it('should save and clear allowed commit types', () => {
+      setCommitValues('commitTypes', ['feat', 'fix'])
+      expect(getCommitTypes()).toEqual(['feat', 'fix'])
+
+      setCommitValues('commitTypes', [])
+      expect(getCommitTypes()).toBeUndefined()
+    })
+
+    it('should reject values with spaces or punctuation', () => {
+      expect(() => setCommitValues('commitScopes', ['api', 'my scope'])).toThrow(
+        'Invalid value: my scope'
+      )
+    })
+  })
+
+  describe('style samples', () => {
+    it('should be disabled by default', () => {
+      expect(getStyleSamples()).toBe(0)
+
+      setStyleSamples(30)
+      expect(getStyleSamples()).toBe(30)
+    })
+
+    it('should reject negative and fractional counts', () => {
+      expect(() => setStyleSamples(-1)).toThrow('Invalid number of commits: -1')
+      expect(() => setStyleSamples(1.5)).toThrow('Invalid number of commits: 1.5')
+    })
+  })
+
+  describe('ticket config', () => {
+    it('should be disabled until tickets are configured', () => {
+      expect(getTicketConfig()).toBeUndefined()
+    })
+
+    it('should default to Jira-style keys and Refs', () => {
+      writeFileSync(join(localConfigDir, 'config.json'), JSON.stringify({ tickets: {} }))
+
+      expect(getTicketConfig()).toEqual({ patterns: ['[A-Z][A-Z0-9]+-\\d+'], format: 'refs' })
+    })
+
+    it('should use the configured patterns and format', () => {
+      writeFileSync(
+        join(localConfigDir, 'config.json'),
+        JSON.stringify({ tickets: { patterns: ['gh-(\\d+)'], format: 'closes' } })
+      )
+
+      expect(getTicketConfig()).toEqual({ patterns: ['gh-(\\d+)'], format: 'closes' })
+    })
+  })
+
+  describe('secrets config', () => {
+    it('should mask secrets by default', () => {
+      expect(getSecretsConfig()).toEqual({ redact: true, blockPaths: [] })
+    })
+
+    it('should keep paths blocked in either config', () => {
+      writeFileSync(
+        join(globalConfigDir, 'config.json'),
+        JSON.stringify({ secrets: { blockPaths: ['*.pem'] } })
+      )
+      writeFileSync(
+        join(localConfigDir, 'config.json'),
+        JSON.stringify({ secrets: { redact: false, blockPaths: ['.env*'] } })
+      )
+
+      expect(getSecretsConfig()).toEqual({ redact: false, blockPaths: ['*.pem', '.env*'] })
+    })
+  })
+
+  describe('review config', () => {
+    it('should read review.failOn', () => {
+      writeFileSync(
+        join(localConfigDir, 'config.json'),
+        JSON.stringify({ review: { failOn: 'warning' } })
+      )
+
+      expect(getReviewConfig()).toEqual({ failOn: 'warning' })
+    })
+
+    it('should ignore an unknown severity', () => {
+      writeFileSync(
+        join(localConfigDir, 'config.json'),
+        JSON.stringify({ review: { failOn: 'major' } })
+      )
+
+      expect(getReviewConfig()).toEqual({})
+    })
+  })
 })
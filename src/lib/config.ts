@@ -2,26 +2,131 @@ import { execSync } from 'node:child_process'
 import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs'
 import { homedir } from 'node:os'
 import { join } from 'node:path'
+import { isReviewSeverity, type ReviewSeverity } from './review-gate.js'
+import { DEFAULT_TICKET_PATTERN, type TicketFormat } from './tickets.js'
 
 export type Language = 'en' | 'ja'
-export type Provider = 'gemini' | 'openai' | 'anthropic' | 'ollama'
+export type Provider = 'gemini' | 'openai' | 'anthropic' | 'ollama' | 'mock'
+
+// A built-in provider or the name of a provider profile from config
+export type ProviderName = Provider | (string & {})
+
+/**
+ * A named provider endpoint, e.g. a vLLM, LM Studio or internal gateway deployment
+ */
+export interface ProviderProfile {
+  type: 'openai-compatible'
+  baseUrl: string
+  apiKeyEnv?: string // Environment variable holding the API key (omit for keyless endpoints)
+  model?: string // Default model for this endpoint
+  headers?: Record<string, string> // Extra HTTP headers sent with every request
+}
+
+/**
+ * Per-command overrides, e.g. a stronger model for review than for stash names
+ */
+export interface CommandConfig {
+  provider?: ProviderName
+  model?: string
+  ignore?: string[] // Extra .gutignore patterns for this command
+}
+
+/**
+ * Ticket keys to extract from branch names, e.g. PROJ-1234 from feature/PROJ-1234-add-login
+ */
+export interface TicketConfig {
+  patterns?: string[] // Regular expressions; the first capture group is the key when present
+  format?: TicketFormat // Reference keyword (default: refs)
+}
+
+/**
+ * What must not be sent to AI providers
+ */
+export interface SecretsConfig {
+  redact?: boolean // Mask possible secrets in prompts (default: true)
+  blockPaths?: string[] // Globs of files whose changes are never sent
+}
+
+/**
+ * Review settings for CI
+ */
+export interface ReviewConfig {
+  failOn?: ReviewSeverity // Exit with an error on issues at or above this severity
+}
 
 export interface GutConfig {
   lang: Language
   model?: string
-  provider?: Provider
+  provider?: ProviderName
   baseUrl?: string
+  providers?: Record<string, ProviderProfile>
+  fallback?: ProviderName[] // Providers to try, in order, when the main provider fails
+  cacheTtl?: number // Seconds to keep cached AI responses (0 disables the cache)
+  trackUsage?: boolean // Record token usage of AI calls (default: true)
+  monthlyBudget?: number // Monthly AI spend in USD to warn about
+  commands?: Record<string, CommandConfig> // Keyed by command name
+  commitlint?: boolean // Validate generated commit messages (default: when the repo has a commitlint config)
+  commitTypes?: string[] // Allowed types for the built-in Conventional Commits rules
+  commitScopes?: string[] // Allowed scopes for the built-in Conventional Commits rules
+  scopes?: Record<string, string> // Path prefix -> commit scope
+  styleSamples?: number // Recent commits to learn the commit message style from (0 disables)
+  tickets?: TicketConfig // Reference tickets from the branch name in commits and PRs
+  secrets?: SecretsConfig // Secret masking and blocked paths for prompts
+  review?: ReviewConfig
 }
 
-export const CONFIG_KEYS = ['lang', 'model', 'provider', 'baseUrl'] as const
+export const CONFIG_KEYS = [
+  'lang',
+  'model',
+  'provider',
+  'baseUrl',
+  'fallback',
+  'cacheTtl',
+  'trackUsage',
+  'monthlyBudget',
+  'commitlint',
+  'commitTypes',
+  'commitScopes',
+  'styleSamples'
+] as const
 
 export const CONFIG_KEY_DESCRIPTIONS: Record<(typeof CONFIG_KEYS)[number], string> = {
   lang: 'Output language',
   model: 'AI model name',
   provider: 'AI provider',
-  baseUrl: 'Custom API base URL'
+  baseUrl: 'Custom API base URL',
+  fallback: 'Fallback providers (comma-separated)',
+  cacheTtl: 'Response cache lifetime in seconds (0 to disable)',
+  trackUsage: 'Record token usage and cost (true/false)',
+  monthlyBudget: 'Monthly AI budget in USD (0 to disable)',
+  commitlint: 'Validate generated commit messages (true/false)',
+  commitTypes: 'Allowed commit types (comma-separated)',
+  commitScopes: 'Allowed commit scopes (comma-separated)',
+  styleSamples: 'Recent commits to learn the commit message style from (0 to disable)'
 }
 
+// Commands that can be routed to their own provider and model (commands.<name>.<key>)
+export const AI_COMMANDS = [
+  'add',
+  'commit',
+  'reword',
+  'pr',
+  'review',
+  'merge',
+  'explain',
+  'find',
+  'branch',
+  'checkout',
+  'stash',
+  'summary',
+  'changelog',
+  'gitignore'
+] as const
+
+export const COMMAND_CONFIG_KEYS = ['provider', 'model', 'ignore'] as const
+
+export type CommandConfigKey = (typeof COMMAND_CONFIG_KEYS)[number]
+
 const DEFAULT_CONFIG: GutConfig = {
   lang: 'en'
 }
@@ -30,7 +135,35 @@ export const DEFAULT_MODELS: Record<string, string> = {
   gemini: 'gemini-2.5-flash',
   openai: 'gpt-4.1-mini',
   anthropic: 'claude-sonnet-4-5',
-  ollama: 'llama3.3'
+  ollama: 'llama3.3',
+  mock: 'mock'
+}
+
+/**
+ * Price per million tokens in USD, used to estimate the cost of AI calls.
+ * Models without an entry (local models, provider profiles) are counted as free.
+ */
+export interface ModelPrice {
+  input: number
+  output: number
+}
+
+export const MODEL_PRICES: Record<string, ModelPrice> = {
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-2.5-flash-lite': { input: 0.1, output: 0.4 },
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'claude-sonnet-4-5': { input: 3, output: 15 },
+  'claude-haiku-4-5': { input: 1, output: 5 },
+  'claude-opus-4-1': { input: 15, output: 75 }
+}
+
+export function getModelPrice(model: string): ModelPrice | undefined {
+  return MODEL_PRICES[model]
 }
 
 function getGlobalConfigPath(): string {
@@ -38,9 +171,12 @@ function getGlobalConfigPath(): string {
   return join(configDir, 'config.json')
 }
 
-function getRepoRoot(): string | null {
+export function getRepoRoot(): string | null {
   try {
-    return execSync('git rev-parse --show-toplevel', { encoding: 'utf-8' }).trim()
+    return execSync('git rev-parse --show-toplevel', {
+      encoding: 'utf-8',
+      stdio: ['ignore', 'pipe', 'ignore']
+    }).trim()
   } catch {
     return null
   }
@@ -161,17 +297,36 @@ export function getDefaultModel(provider: string): string {
   return DEFAULT_MODELS[provider] || DEFAULT_MODELS.gemini
 }
 
-export const VALID_PROVIDERS: Provider[] = ['gemini', 'openai', 'anthropic', 'ollama']
+export const VALID_PROVIDERS: Provider[] = ['gemini', 'openai', 'anthropic', 'ollama', 'mock']
 
-export function isValidProvider(provider: string): provider is Provider {
-  return VALID_PROVIDERS.includes(provider as Provider)
+/**
+ * Get provider profiles. Local profiles are merged over global ones by name.
+ */
+export function getProviderProfiles(): Record<string, ProviderProfile> {
+  return { ...getGlobalConfig().providers, ...getLocalConfig().providers }
 }
 
-export function getConfiguredProvider(): Provider | undefined {
+export function getProviderProfile(name: string): ProviderProfile | undefined {
+  return getProviderProfiles()[name]
+}
+
+export function getProviderProfileNames(): string[] {
+  return Object.keys(getProviderProfiles()).filter(
+    (name) => !VALID_PROVIDERS.includes(name as Provider)
+  )
+}
+
+export function isValidProvider(provider: string): provider is ProviderName {
+  return (
+    VALID_PROVIDERS.includes(provider as Provider) || getProviderProfileNames().includes(provider)
+  )
+}
+
+export function getConfiguredProvider(): ProviderName | undefined {
   return getConfig().provider
 }
 
-export function setProvider(provider: Provider, local: boolean = false): void {
+export function setProvider(provider: ProviderName, local: boolean = false): void {
   if (local) {
     setLocalConfig('provider', provider)
   } else {
@@ -179,6 +334,274 @@ export function setProvider(provider: Provider, local: boolean = false): void {
   }
 }
 
+/**
+ * Parse a per-command config key like `commands.review.model`
+ * @returns The command and setting, or null if the key is not a valid per-command key
+ */
+export function parseCommandConfigKey(
+  key: string
+): { command: string; setting: CommandConfigKey } | null {
+  const match = key.match(/^commands\.([\w-]+)\.([\w-]+)$/)
+  if (!match) return null
+  const [, command, setting] = match
+  if (!(AI_COMMANDS as readonly string[]).includes(command)) return null
+  if (!(COMMAND_CONFIG_KEYS as readonly string[]).includes(setting)) return null
+  return { command, setting: setting as CommandConfigKey }
+}
+
+/**
+ * Get the overrides for every command. Local settings are merged over global ones per command.
+ */
+export function getCommandConfigs(): Record<string, CommandConfig> {
+  const globalCommands = getGlobalConfig().commands ?? {}
+  const localCommands = getLocalConfig().commands ?? {}
+  const merged: Record<string, CommandConfig> = {}
+  for (const command of new Set([...Object.keys(globalCommands), ...Object.keys(localCommands)])) {
+    merged[command] = { ...globalCommands[command], ...localCommands[command] }
+  }
+  return merged
+}
+
+export function getCommandConfig(command: string): CommandConfig {
+  return getCommandConfigs()[command] ?? {}
+}
+
+/**
+ * Set a per-command override (an empty value clears it).
+ * `ignore` takes a comma-separated list of patterns.
+ */
+export function setCommandConfig(
+  command: string,
+  setting: CommandConfigKey,
+  value: string,
+  local: boolean = false
+): void {
+  if (!(AI_COMMANDS as readonly string[]).includes(command)) {
+    throw new Error(`Unknown command: ${command}`)
+  }
+  if (setting === 'provider' && value && !isValidProvider(value)) {
+    throw new Error(`Invalid provider: ${value}`)
+  }
+
+  const path = local ? getLocalConfigPath() : getGlobalConfigPath()
+  if (!path) throw new Error('Not in a git repository')
+  const config = local ? getLocalConfig() : getGlobalConfig()
+  const commands = { ...config.commands }
+  const commandConfig: CommandConfig = { ...commands[command] }
+  const patterns = value
+    .split(',')
+    .map((pattern) => pattern.trim())
+    .filter(Boolean)
+  if (setting === 'ignore' && patterns.length > 0) {
+    commandConfig.ignore = patterns
+  } else if (setting !== 'ignore' && value) {
+    commandConfig[setting] = value
+  } else {
+    delete commandConfig[setting]
+  }
+
+  if (Object.keys(commandConfig).length > 0) {
+    commands[command] = commandConfig
+  } else {
+    delete commands[command]
+  }
+  if (Object.keys(commands).length > 0) {
+    config.commands = commands
+  } else {
+    delete config.commands
+  }
+
+  if (local) {
+    ensureLocalConfigDir()
+  } else {
+    ensureGlobalConfigDir()
+  }
+  writeFileSync(path, JSON.stringify(config, null, 2))
+}
+
+export function getFallbackProviders(): ProviderName[] {
+  return getConfig().fallback ?? []
+}
+
+/**
+ * Set the fallback provider chain (an empty list clears it)
+ */
+export function setFallbackProviders(providers: ProviderName[], local: boolean = false): void {
+  if (providers.length === 0) {
+    const path = local ? getLocalConfigPath() : getGlobalConfigPath()
+    if (local && !path) throw new Error('Not in a git repository')
+    const config = local ? getLocalConfig() : getGlobalConfig()
+    delete config.fallback
+    writeFileSync(path || getGlobalConfigPath(), JSON.stringify(config, null, 2))
+    return
+  }
+
+  const invalid = providers.filter((provider) => !isValidProvider(provider))
+  if (invalid.length > 0) {
+    throw new Error(`Invalid provider: ${invalid.join(', ')}`)
+  }
+
+  if (local) {
+    setLocalConfig('fallback', providers)
+  } else {
+    setGlobalConfig('fallback', providers)
+  }
+}
+
+// Cached responses are kept for a day unless configured otherwise
+export const DEFAULT_CACHE_TTL = 24 * 60 * 60
+
+export function getCacheTtl(): number {
+  return getConfig().cacheTtl ?? DEFAULT_CACHE_TTL
+}
+
+export function setCacheTtl(ttl: number, local: boolean = false): void {
+  if (!Number.isInteger(ttl) || ttl < 0) {
+    throw new Error(`Invalid cache TTL: ${ttl} (expected a number of seconds)`)
+  }
+  if (local) {
+    setLocalConfig('cacheTtl', ttl)
+  } else {
+    setGlobalConfig('cacheTtl', ttl)
+  }
+}
+
+export function getTrackUsage(): boolean {
+  return getConfig().trackUsage ?? true
+}
+
+export function setTrackUsage(enabled: boolean, local: boolean = false): void {
+  if (local) {
+    setLocalConfig('trackUsage', enabled)
+  } else {
+    setGlobalConfig('trackUsage', enabled)
+  }
+}
+
+export function getMonthlyBudget(): number | undefined {
+  const budget = getConfig().monthlyBudget
+  return budget && budget > 0 ? budget : undefined
+}
+
+export function setMonthlyBudget(budget: number, local: boolean = false): void {
+  if (!Number.isFinite(budget) || budget < 0) {
+    throw new Error(`Invalid budget: ${budget} (expected an amount in USD)`)
+  }
+  if (local) {
+    setLocalConfig('monthlyBudget', budget)
+  } else {
+    setGlobalConfig('monthlyBudget', budget)
+  }
+}
+
+/**
+ * Whether to validate generated commit messages.
+ * Undefined means automatic: validate when the repo has a commitlint config.
+ */
+export function getCommitlint(): boolean | undefined {
+  return getConfig().commitlint
+}
+
+export function setCommitlint(enabled: boolean, local: boolean = false): void {
+  if (local) {
+    setLocalConfig('commitlint', enabled)
+  } else {
+    setGlobalConfig('commitlint', enabled)
+  }
+}
+
+export function getCommitTypes(): string[] | undefined {
+  return getConfig().commitTypes
+}
+
+export function getCommitScopes(): string[] | undefined {
+  return getConfig().commitScopes
+}
+
+export function getStyleSamples(): number {
+  return getConfig().styleSamples ?? 0
+}
+
+export function setStyleSamples(samples: number, local: boolean = false): void {
+  if (!Number.isInteger(samples) || samples < 0) {
+    throw new Error(`Invalid number of commits: ${samples}`)
+  }
+  if (local) {
+    setLocalConfig('styleSamples', samples)
+  } else {
+    setGlobalConfig('styleSamples', samples)
+  }
+}
+
+/**
+ * Get the configured path -> commit scope map. Local entries are merged over global ones.
+ */
+export function getScopeMap(): Record<string, string> {
+  return { ...getGlobalConfig().scopes, ...getLocalConfig().scopes }
+}
+
+/**
+ * Get the ticket reference settings, or undefined when ticket references are not configured
+ */
+export function getTicketConfig(): Required<TicketConfig> | undefined {
+  const tickets = getConfig().tickets
+  if (!tickets) return undefined
+  return {
+    patterns: tickets.patterns?.length ? tickets.patterns : [DEFAULT_TICKET_PATTERN],
+    format: tickets.format === 'closes' ? 'closes' : 'refs'
+  }
+}
+
+/**
+ * Get the secret masking settings. Paths blocked in either the global or the local config
+ * stay blocked.
+ */
+export function getSecretsConfig(): Required<SecretsConfig> {
+  const globalSecrets = getGlobalConfig().secrets
+  const localSecrets = getLocalConfig().secrets
+  return {
+    redact: (localSecrets?.redact ?? globalSecrets?.redact) !== false,
+    blockPaths: [...(globalSecrets?.blockPaths ?? []), ...(localSecrets?.blockPaths ?? [])]
+  }
+}
+
+/**
+ * Get the review settings, ignoring an unknown failOn severity
+ */
+export function getReviewConfig(): ReviewConfig {
+  const failOn = getConfig().review?.failOn
+  return isReviewSeverity(failOn) ? { failOn } : {}
+}
+
+/**
+ * Set the allowed commit types or scopes (an empty list clears the setting)
+ */
+export function setCommitValues(
+  key: 'commitTypes' | 'commitScopes',
+  values: string[],
+  local: boolean = false
+): void {
+  const invalid = values.filter((value) => !/^[\w./-]+$/.test(value))
+  if (invalid.length > 0) {
+    throw new Error(`Invalid value: ${invalid.join(', ')}`)
+  }
+
+  if (values.length === 0) {
+    const path = local ? getLocalConfigPath() : getGlobalConfigPath()
+    if (local && !path) throw new Error('Not in a git repository')
+    const config = local ? getLocalConfig() : getGlobalConfig()
+    delete config[key]
+    writeFileSync(path || getGlobalConfigPath(), JSON.stringify(config, null, 2))
+    return
+  }
+
+  if (local) {
+    setLocalConfig(key, values)
+  } else {
+    setGlobalConfig(key, values)
+  }
+}
+
 export function getBaseUrl(): string | undefined {
   return getConfig().baseUrl
 }
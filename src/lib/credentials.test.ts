@@ -2,18 +2,33 @@ import { beforeEach, describe, expect, it, vi } from 'vitest'
 
 // Mock config module
 vi.mock('./config.js', () => ({
-  getConfiguredProvider: vi.fn(() => undefined)
+  getCommandConfig: vi.fn(() => ({})),
+  getConfiguredProvider: vi.fn(() => undefined),
+  getProviderProfile: vi.fn((name: string) => profiles[name]),
+  getProviderProfileNames: vi.fn(() => Object.keys(profiles))
 }))
 
+const profiles: Record<string, { type: 'openai-compatible'; baseUrl: string; apiKeyEnv?: string }> =
+  {
+    vllm: { type: 'openai-compatible', baseUrl: 'http://localhost:8000/v1' },
+    gateway: {
+      type: 'openai-compatible',
+      baseUrl: 'https://gateway.example.com/v1',
+      apiKeyEnv: 'GATEWAY_API_KEY'
+    }
+  }
+
 // Mock keytar
 vi.mock('module', () => ({
   createRequire: vi.fn(() => () => null)
 }))
 
-import { getConfiguredProvider } from './config.js'
+import { getCommandConfig, getConfiguredProvider } from './config.js'
 import {
+  getApiKey,
   getFirstAvailableProvider,
   getProviderDisplayName,
+  listProviders,
   resolveProvider
 } from './credentials.js'
 
@@ -27,6 +42,7 @@ describe('credentials', () => {
     delete process.env.GEMINI_API_KEY
     delete process.env.OPENAI_API_KEY
     delete process.env.ANTHROPIC_API_KEY
+    delete process.env.GATEWAY_API_KEY
   })
 
   describe('getProviderDisplayName', () => {
@@ -36,6 +52,25 @@ describe('credentials', () => {
       expect(getProviderDisplayName('anthropic')).toBe('Anthropic Claude')
       expect(getProviderDisplayName('ollama')).toBe('Ollama (Local)')
     })
+
+    it('should label provider profiles as OpenAI-compatible', () => {
+      expect(getProviderDisplayName('vllm')).toBe('vllm (OpenAI-compatible)')
+    })
+  })
+
+  describe('provider profiles', () => {
+    it("should read the API key from the profile's environment variable", async () => {
+      process.env.GATEWAY_API_KEY = 'gateway-key'
+
+      expect(await getApiKey('gateway')).toBe('gateway-key')
+    })
+
+    it('should list profiles, treating profiles without apiKeyEnv as keyless', async () => {
+      const providers = await listProviders()
+
+      expect(providers).toContainEqual({ provider: 'vllm', hasKey: true })
+      expect(providers).toContainEqual({ provider: 'gateway', hasKey: false })
+    })
   })
 
   describe('getFirstAvailableProvider', () => {
@@ -113,6 +148,42 @@ describe('credentials', () => {
       expect(provider).toBe('ollama')
     })
 
+    it('should keep profile names as given', async () => {
+      const provider = await resolveProvider('vllm')
+      expect(provider).toBe('vllm')
+    })
+
+    it('should return a configured profile without an API key requirement', async () => {
+      vi.mocked(getConfiguredProvider).mockReturnValue('vllm')
+
+      const provider = await resolveProvider(undefined)
+      expect(provider).toBe('vllm')
+    })
+
+    it('should fallback when a configured profile is missing its API key', async () => {
+      vi.mocked(getConfiguredProvider).mockReturnValue('gateway')
+
+      const provider = await resolveProvider(undefined)
+      expect(provider).toBe('ollama')
+    })
+
+    it('should prefer the per-command provider over the configured one', async () => {
+      vi.mocked(getConfiguredProvider).mockReturnValue('ollama')
+      vi.mocked(getCommandConfig).mockReturnValueOnce({ provider: 'anthropic' })
+      process.env.ANTHROPIC_API_KEY = 'test-key'
+
+      expect(await resolveProvider(undefined, 'review')).toBe('anthropic')
+      expect(getCommandConfig).toHaveBeenCalledWith('review')
+      expect(await resolveProvider('openai', 'review')).toBe('openai')
+    })
+
+    it('should skip a per-command provider without an API key', async () => {
+      vi.mocked(getConfiguredProvider).mockReturnValue('ollama')
+      vi.mocked(getCommandConfig).mockReturnValueOnce({ provider: 'anthropic' })
+
+      expect(await resolveProvider(undefined, 'review')).toBe('ollama')
+    })
+
     it('should handle uppercase CLI provider', async () => {
       const provider = await resolveProvider('GEMINI')
       expect(provider).toBe('gemini')
@@ -1,20 +1,43 @@
 import { createRequire } from 'node:module'
-import { getConfiguredProvider } from './config.js'
+import {
+  getCommandConfig,
+  getConfiguredProvider,
+  getProviderProfile,
+  getProviderProfileNames,
+  type ProviderName
+} from './config.js'
+
+export type { ProviderName }
 
 const SERVICE_NAME = 'gut-cli'
 
-export const PROVIDERS = ['gemini', 'openai', 'anthropic', 'ollama'] as const
+export const PROVIDERS = ['gemini', 'openai', 'anthropic', 'ollama', 'mock'] as const
 export type Provider = (typeof PROVIDERS)[number]
 
 export const PROVIDER_DESCRIPTIONS: Record<Provider, string> = {
   gemini: 'Google Gemini',
   openai: 'OpenAI GPT',
   anthropic: 'Anthropic Claude',
-  ollama: 'Ollama (local)'
+  ollama: 'Ollama (local)',
+  mock: 'Mock (offline fixtures)'
 }
 
 // Providers that require API keys
-type ApiKeyProvider = Exclude<Provider, 'ollama'>
+type ApiKeyProvider = Exclude<Provider, 'ollama' | 'mock'>
+
+/**
+ * Whether a provider works without an API key (local or offline providers)
+ */
+export function isKeylessProvider(provider: ProviderName): provider is 'ollama' | 'mock' {
+  return provider === 'ollama' || provider === 'mock'
+}
+
+/**
+ * Whether a provider name refers to a built-in provider rather than a profile from config
+ */
+export function isBuiltinProvider(provider: ProviderName): provider is Provider {
+  return PROVIDERS.includes(provider as Provider)
+}
 
 const PROVIDER_KEY_MAP: Record<ApiKeyProvider, string> = {
   gemini: 'gemini-api-key',
@@ -34,6 +57,17 @@ const FALLBACK_ENV_MAP: Record<ApiKeyProvider, string> = {
   anthropic: 'ANTHROPIC_API_KEY'
 }
 
+/**
+ * Get the keychain account for a provider's API key.
+ * Provider profiles get their own account so each endpoint can have its own key.
+ */
+function getKeychainAccount(provider: ProviderName): string {
+  if (isBuiltinProvider(provider)) {
+    return PROVIDER_KEY_MAP[provider as ApiKeyProvider]
+  }
+  return `profile-${provider}-api-key`
+}
+
 function getKeytar(): typeof import('keytar') | null {
   try {
     // Use createRequire to resolve keytar from gut's own node_modules
@@ -45,51 +79,92 @@ function getKeytar(): typeof import('keytar') | null {
   }
 }
 
-export async function saveApiKey(provider: Provider, apiKey: string): Promise<void> {
-  if (provider === 'ollama') {
-    throw new Error('Ollama does not require an API key')
+function assertKnownProvider(provider: ProviderName): void {
+  if (!isBuiltinProvider(provider) && !getProviderProfile(provider)) {
+    throw new Error(`Unknown provider: ${provider}`)
   }
+}
+
+export async function saveApiKey(provider: ProviderName, apiKey: string): Promise<void> {
+  if (isKeylessProvider(provider)) {
+    throw new Error(`${getProviderDisplayName(provider)} does not require an API key`)
+  }
+  assertKnownProvider(provider)
   const keytar = getKeytar()
   if (!keytar) {
     throw new Error('Keychain not available. Set environment variable instead.')
   }
-  await keytar.setPassword(SERVICE_NAME, PROVIDER_KEY_MAP[provider], apiKey)
+  await keytar.setPassword(SERVICE_NAME, getKeychainAccount(provider), apiKey)
 }
 
-export async function getApiKey(provider: Provider): Promise<string | null> {
-  // Ollama doesn't need an API key
-  if (provider === 'ollama') {
+async function getProfileApiKey(name: string): Promise<string | null> {
+  const profile = getProviderProfile(name)
+  if (!profile) return null
+
+  // 1. Check the profile's environment variable
+  if (profile.apiKeyEnv) {
+    const envKey = process.env[profile.apiKeyEnv]
+    if (envKey) return envKey
+  }
+
+  // 2. Check system keychain
+  const keytar = getKeytar()
+  if (!keytar) return null
+  return keytar.getPassword(SERVICE_NAME, getKeychainAccount(name))
+}
+
+export async function getApiKey(provider: ProviderName): Promise<string | null> {
+  // Ollama and the mock provider don't need an API key
+  if (isKeylessProvider(provider)) {
     return null
   }
 
+  if (!isBuiltinProvider(provider)) {
+    return getProfileApiKey(provider)
+  }
+  const keyProvider = provider as ApiKeyProvider
+
   // 1. Check environment variable (GUT_*_API_KEY)
-  const envKey = process.env[ENV_VAR_MAP[provider]]
+  const envKey = process.env[ENV_VAR_MAP[keyProvider]]
   if (envKey) return envKey
 
   // 2. Check fallback environment variable (*_API_KEY)
-  const fallbackKey = process.env[FALLBACK_ENV_MAP[provider]]
+  const fallbackKey = process.env[FALLBACK_ENV_MAP[keyProvider]]
   if (fallbackKey) return fallbackKey
 
   // 3. Check system keychain
   const keytar = getKeytar()
   if (!keytar) return null
-  return keytar.getPassword(SERVICE_NAME, PROVIDER_KEY_MAP[provider])
+  return keytar.getPassword(SERVICE_NAME, getKeychainAccount(provider))
 }
 
-export async function deleteApiKey(provider: Provider): Promise<boolean> {
-  if (provider === 'ollama') {
-    throw new Error('Ollama does not use an API key')
+export async function deleteApiKey(provider: ProviderName): Promise<boolean> {
+  if (isKeylessProvider(provider)) {
+    throw new Error(`${getProviderDisplayName(provider)} does not use an API key`)
   }
+  assertKnownProvider(provider)
   const keytar = getKeytar()
   if (!keytar) {
     throw new Error('Keychain not available.')
   }
-  return keytar.deletePassword(SERVICE_NAME, PROVIDER_KEY_MAP[provider])
+  return keytar.deletePassword(SERVICE_NAME, getKeychainAccount(provider))
 }
 
-export async function listProviders(): Promise<{ provider: Provider; hasKey: boolean }[]> {
+/**
+ * Whether a provider can be used: it has an API key, or doesn't need one.
+ * Provider profiles without `apiKeyEnv` are treated as keyless endpoints.
+ */
+async function isProviderAvailable(provider: ProviderName): Promise<boolean> {
+  if (isKeylessProvider(provider)) return true
+  if (!isBuiltinProvider(provider) && !getProviderProfile(provider)?.apiKeyEnv) {
+    return !!getProviderProfile(provider)
+  }
+  return !!(await getApiKey(provider))
+}
+
+export async function listProviders(): Promise<{ provider: ProviderName; hasKey: boolean }[]> {
   const apiKeyProviders: ApiKeyProvider[] = ['gemini', 'openai', 'anthropic']
-  const results = await Promise.all(
+  const results: { provider: ProviderName; hasKey: boolean }[] = await Promise.all(
     apiKeyProviders.map(async (provider) => ({
       provider: provider as Provider,
       hasKey: !!(await getApiKey(provider))
@@ -97,15 +172,23 @@ export async function listProviders(): Promise<{ provider: Provider; hasKey: boo
   )
   // Add ollama (always available, no key needed)
   results.push({ provider: 'ollama', hasKey: true })
+  // Add provider profiles from config
+  for (const name of getProviderProfileNames()) {
+    results.push({ provider: name, hasKey: await isProviderAvailable(name) })
+  }
   return results
 }
 
-export function getProviderDisplayName(provider: Provider): string {
+export function getProviderDisplayName(provider: ProviderName): string {
+  if (!isBuiltinProvider(provider)) {
+    return `${provider} (OpenAI-compatible)`
+  }
   const names: Record<Provider, string> = {
     gemini: 'Google Gemini',
     openai: 'OpenAI',
     anthropic: 'Anthropic Claude',
-    ollama: 'Ollama (Local)'
+    ollama: 'Ollama (Local)',
+    mock: 'Mock (Offline)'
   }
   return names[provider]
 }
@@ -127,22 +210,33 @@ export async function getFirstAvailableProvider(): Promise<Provider> {
 }
 
 /**
- * Resolve the provider to use.
- * Priority: CLI option (if provided) > config > first available (with API key) > ollama
+ * Resolve the provider to use (a built-in provider or a provider profile name).
+ * Priority: CLI option (if provided) > command config > config > first available (with API key) > ollama
  *
  * @param cliProvider - Provider specified via CLI option, or undefined if not specified
+ * @param command - Command name, for the per-command provider (commands.<name>.provider)
  */
-export async function resolveProvider(cliProvider?: string): Promise<Provider> {
-  // If explicitly set via CLI, use it
+export async function resolveProvider(
+  cliProvider?: string,
+  command?: string
+): Promise<ProviderName> {
+  // If explicitly set via CLI, use it (built-in names are case-insensitive, profile names are not)
   if (cliProvider) {
-    return cliProvider.toLowerCase() as Provider
+    const builtin = cliProvider.toLowerCase()
+    return isBuiltinProvider(builtin) ? builtin : cliProvider
+  }
+
+  // Check per-command config
+  const commandProvider = command ? getCommandConfig(command).provider : undefined
+  if (commandProvider && (await isProviderAvailable(commandProvider))) {
+    return commandProvider
   }
 
   // Check config
   const configProvider = getConfiguredProvider()
   if (configProvider) {
-    // Verify the configured provider has an API key (unless it's ollama)
-    if (configProvider === 'ollama' || (await getApiKey(configProvider))) {
+    // Verify the configured provider has an API key (unless it doesn't need one)
+    if (await isProviderAvailable(configProvider)) {
       return configProvider
     }
   }
@@ -0,0 +1,148 @@
+import { describe, expect, it } from 'vitest'
+import {
+  buildPatch,
+  estimateTokens,
+  getDiffFiles,
+  getDiffHunks,
+  getDiffTokenBudget,
+  groupChunks,
+  splitDiff,
+  truncateToTokens
+} from './diff.js'
+
+function fileDiff(name: string, hunks: string[]): string {
+  return `diff --git a/${name} b/${name}
+index 1111111..2222222 100644
+--- a/${name}
++++ b/${name}
+${hunks.join('')}`
+}
+
+function hunk(start: number, lines: number): string {
+  const body = Array.from({ length: lines }, (_, i) => `+line ${start + i}\n`).join('')
+  return `@@ -${start},0 +${start},${lines} @@\n${body}`
+}
+
+describe('estimateTokens', () => {
+  it('should estimate roughly four characters per token', () => {
+    expect(estimateTokens('')).toBe(0)
+    expect(estimateTokens('abcd')).toBe(1)
+    expect(estimateTokens('abcde')).toBe(2)
+  })
+})
+
+describe('getDiffTokenBudget', () => {
+  it('should use the budget for a known model', () => {
+    expect(getDiffTokenBudget('ollama', 'llama3.3')).toBe(6_000)
+  })
+
+  it('should fall back to the provider budget for unknown models', () => {
+    expect(getDiffTokenBudget('openai', 'some-new-model')).toBe(60_000)
+  })
+
+  it('should fall back to a default budget for unknown providers', () => {
+    expect(getDiffTokenBudget('unknown', 'unknown')).toBeGreaterThan(0)
+  })
+})
+
+describe('truncateToTokens', () => {
+  it('should keep text within budget unchanged', () => {
+    expect(truncateToTokens('short', 10)).toBe('short')
+  })
+
+  it('should truncate text over budget', () => {
+    const result = truncateToTokens('a'.repeat(100), 10)
+    expect(result.startsWith('a'.repeat(40))).toBe(true)
+    expect(result).toContain('(truncated)')
+  })
+})
+
+describe('getDiffFiles', () => {
+  it('should list the changed files in order', () => {
+    const diff =
+      fileDiff('src/a.ts', ['@@ -1 +1 @@\n+a\n']) + fileDiff('docs/b.md', ['@@ -1 +1 @@\n+b\n'])
+
+    expect(getDiffFiles(diff)).toEqual(['src/a.ts', 'docs/b.md'])
+    expect(getDiffFiles('')).toEqual([])
+  })
+})
+
+describe('getDiffHunks', () => {
+  it('should split modified files per hunk', () => {
+    const diff = fileDiff('a.ts', [hunk(1, 2), hunk(10, 2)]) + fileDiff('b.ts', [hunk(1, 1)])
+
+    const hunks = getDiffHunks(diff)
+
+    expect(hunks.map((h) => h.id)).toEqual(['a.ts#1', 'a.ts#2', 'b.ts#1'])
+    expect(hunks[1].header).toBe(fileDiff('a.ts', []))
+    expect(hunks[1].content).toBe(hunk(10, 2))
+  })
+
+  it('should keep new files and binary changes whole', () => {
+    const diff = [
+      'diff --git a/new.ts b/new.ts\nnew file mode 100644\n--- /dev/null\n+++ b/new.ts\n',
+      hunk(1, 2),
+      'diff --git a/logo.png b/logo.png\nBinary files a/logo.png and b/logo.png differ\n'
+    ].join('')
+
+    expect(getDiffHunks(diff).map((h) => h.id)).toEqual(['new.ts', 'logo.png'])
+  })
+})
+
+describe('buildPatch', () => {
+  it('should merge hunks of the same file under one header', () => {
+    const diff =
+      fileDiff('a.ts', [hunk(1, 2), hunk(10, 2), hunk(20, 2)]) + fileDiff('b.ts', [hunk(1, 1)])
+    const hunks = getDiffHunks(diff)
+
+    expect(buildPatch(hunks)).toBe(diff)
+    expect(buildPatch([hunks[0], hunks[2]])).toBe(fileDiff('a.ts', [hunk(1, 2), hunk(20, 2)]))
+  })
+})
+
+describe('splitDiff', () => {
+  it('should split a diff per file', () => {
+    const diff = fileDiff('a.ts', [hunk(1, 2)]) + fileDiff('b.ts', [hunk(1, 2)])
+
+    const chunks = splitDiff(diff, 1000)
+
+    expect(chunks.map((c) => c.file)).toEqual(['a.ts', 'b.ts'])
+    expect(chunks.map((c) => c.content).join('')).toBe(diff)
+  })
+
+  it('should split a large file per hunk and repeat the file header', () => {
+    const diff = fileDiff('big.ts', [hunk(1, 40), hunk(100, 40), hunk(200, 40)])
+
+    const chunks = splitDiff(diff, 200)
+
+    expect(chunks.length).toBeGreaterThan(1)
+    for (const chunk of chunks) {
+      expect(chunk.file).toBe('big.ts')
+      expect(chunk.content.startsWith('diff --git a/big.ts b/big.ts')).toBe(true)
+      expect(chunk.tokens).toBeLessThanOrEqual(200)
+    }
+  })
+
+  it('should truncate a single hunk larger than the budget', () => {
+    const diff = fileDiff('huge.ts', [hunk(1, 500)])
+
+    const chunks = splitDiff(diff, 100)
+
+    expect(chunks).toHaveLength(1)
+    expect(chunks[0].content).toContain('(truncated)')
+  })
+})
+
+describe('groupChunks', () => {
+  it('should pack chunks into groups within budget', () => {
+    const chunks = [
+      { file: 'a', content: '', tokens: 40 },
+      { file: 'b', content: '', tokens: 40 },
+      { file: 'c', content: '', tokens: 40 }
+    ]
+
+    const groups = groupChunks(chunks, 100)
+
+    expect(groups.map((g) => g.map((c) => c.file))).toEqual([['a', 'b'], ['c']])
+  })
+})
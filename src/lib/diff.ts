@@ -0,0 +1,235 @@
+import { rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import type { SimpleGit } from 'simple-git'
+
+export interface DiffChunk {
+  file: string
+  content: string
+  tokens: number
+}
+
+// Rough average for code and English prose across tokenizers
+const CHARS_PER_TOKEN = 4
+
+/**
+ * Token budgets for the diff portion of a prompt, keyed by model name.
+ * Entries cover the models in DEFAULT_MODELS; budgets are kept well below each
+ * model's context window to leave room for the template and the response.
+ */
+const MODEL_DIFF_BUDGETS: Record<string, number> = {
+  'gemini-2.5-flash': 200_000,
+  'gpt-4.1-mini': 100_000,
+  'claude-sonnet-4-5': 100_000,
+  'llama3.3': 6_000
+}
+
+// Fallback budgets for models not listed above
+const PROVIDER_DIFF_BUDGETS: Record<string, number> = {
+  gemini: 100_000,
+  openai: 60_000,
+  anthropic: 100_000,
+  ollama: 6_000
+}
+
+const DEFAULT_DIFF_BUDGET = 16_000
+
+/**
+ * Estimate the number of tokens in a string
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN)
+}
+
+/**
+ * Get the token budget for the diff portion of a prompt
+ * @param provider - Provider name (gemini, openai, ...)
+ * @param modelName - Resolved model name
+ */
+export function getDiffTokenBudget(provider: string, modelName: string): number {
+  return MODEL_DIFF_BUDGETS[modelName] ?? PROVIDER_DIFF_BUDGETS[provider] ?? DEFAULT_DIFF_BUDGET
+}
+
+/**
+ * Truncate text so that it fits in the given token budget
+ */
+export function truncateToTokens(text: string, maxTokens: number): string {
+  const maxChars = maxTokens * CHARS_PER_TOKEN
+  if (text.length <= maxChars) return text
+  return `${text.slice(0, maxChars)}\n... (truncated)`
+}
+
+function getFileName(header: string): string {
+  const match = header.match(/^diff --git a\/(.+?) b\/(.+)$/m)
+  return match ? match[2] : 'unknown'
+}
+
+/**
+ * Get the paths of the files changed in a diff
+ */
+export function getDiffFiles(diff: string): string[] {
+  return diff
+    .split(/^(?=diff --git )/m)
+    .filter((part) => part.startsWith('diff --git '))
+    .map(getFileName)
+}
+
+/**
+ * Split a file diff into pieces of at most maxTokens, cutting at hunk boundaries.
+ * Every piece repeats the file header so it can be read on its own.
+ */
+function splitFileDiff(file: string, content: string, maxTokens: number): DiffChunk[] {
+  const hunkStart = content.search(/^@@/m)
+  if (hunkStart === -1) {
+    return [{ file, content, tokens: estimateTokens(content) }]
+  }
+
+  const header = content.slice(0, hunkStart)
+  const hunks = content.slice(hunkStart).split(/^(?=@@)/m)
+  const chunks: DiffChunk[] = []
+  let current = ''
+
+  for (const hunk of hunks) {
+    if (current && estimateTokens(header + current + hunk) > maxTokens) {
+      chunks.push({ file, content: header + current, tokens: estimateTokens(header + current) })
+      current = ''
+    }
+    current += hunk
+  }
+  if (current) {
+    chunks.push({ file, content: header + current, tokens: estimateTokens(header + current) })
+  }
+
+  // A single hunk can still be larger than the budget
+  return chunks.map((chunk) =>
+    chunk.tokens > maxTokens
+      ? {
+          file,
+          content: truncateToTokens(chunk.content, maxTokens),
+          tokens: maxTokens
+        }
+      : chunk
+  )
+}
+
+/**
+ * Split a unified diff into per-file chunks, splitting large files per hunk
+ * @param diff - Unified diff (git diff output)
+ * @param maxTokens - Maximum size of a single chunk
+ */
+export function splitDiff(diff: string, maxTokens: number): DiffChunk[] {
+  const files = diff.split(/^(?=diff --git )/m).filter((part) => part.trim())
+  const chunks: DiffChunk[] = []
+
+  for (const content of files) {
+    const file = getFileName(content)
+    const tokens = estimateTokens(content)
+    if (tokens <= maxTokens) {
+      chunks.push({ file, content, tokens })
+    } else {
+      chunks.push(...splitFileDiff(file, content, maxTokens))
+    }
+  }
+
+  return chunks
+}
+
+/**
+ * Pack chunks into groups whose combined size stays within maxTokens
+ */
+export function groupChunks(chunks: DiffChunk[], maxTokens: number): DiffChunk[][] {
+  const groups: DiffChunk[][] = []
+  let current: DiffChunk[] = []
+  let currentTokens = 0
+
+  for (const chunk of chunks) {
+    if (current.length > 0 && currentTokens + chunk.tokens > maxTokens) {
+      groups.push(current)
+      current = []
+      currentTokens = 0
+    }
+    current.push(chunk)
+    currentTokens += chunk.tokens
+  }
+  if (current.length > 0) {
+    groups.push(current)
+  }
+
+  return groups
+}
+
+export interface DiffHunk {
+  id: string // `<file>#<n>`, or the file path when the file can only be staged as a whole
+  file: string
+  header: string // File header, from `diff --git` up to the first hunk
+  content: string // Hunk content starting at `@@`, empty for binary and mode-only changes
+}
+
+/**
+ * Split a unified diff into hunks that can be staged independently.
+ * New, deleted, renamed and copied files are kept whole, since their header only applies once.
+ */
+export function getDiffHunks(diff: string): DiffHunk[] {
+  const files = diff.split(/^(?=diff --git )/m).filter((part) => part.startsWith('diff --git '))
+  const hunks: DiffHunk[] = []
+
+  for (const content of files) {
+    const file = getFileName(content)
+    const hunkStart = content.search(/^@@/m)
+    const header = hunkStart === -1 ? content : content.slice(0, hunkStart)
+    if (hunkStart === -1 || /^(new file|deleted file|rename from|copy from) /m.test(header)) {
+      hunks.push({ id: file, file, header, content: content.slice(header.length) })
+      continue
+    }
+    content
+      .slice(hunkStart)
+      .split(/^(?=@@)/m)
+      .forEach((hunk, i) => {
+        hunks.push({ id: `${file}#${i + 1}`, file, header, content: hunk })
+      })
+  }
+
+  return hunks
+}
+
+/**
+ * Build a patch that can be applied with `git apply` from a selection of hunks.
+ * Hunks of the same file are merged under a single header and must be given in diff order.
+ */
+export function buildPatch(hunks: DiffHunk[]): string {
+  const files = new Map<string, DiffHunk[]>()
+  for (const hunk of hunks) {
+    files.set(hunk.file, [...(files.get(hunk.file) ?? []), hunk])
+  }
+  return [...files.values()]
+    .map((fileHunks) => fileHunks[0].header + fileHunks.map((h) => h.content).join(''))
+    .join('')
+}
+
+/**
+ * Stage hunks with `git apply --cached`, leaving the working tree untouched
+ */
+export async function stageHunks(git: SimpleGit, hunks: DiffHunk[]): Promise<void> {
+  const patchFile = join(tmpdir(), `gut-${process.pid}.patch`)
+  writeFileSync(patchFile, buildPatch(hunks))
+  try {
+    await git.raw(['apply', '--cached', patchFile])
+  } finally {
+    rmSync(patchFile, { force: true })
+  }
+}
+
+// git's empty tree, to diff a root commit against
+export const EMPTY_TREE = '4b825dc642cb6eb9a060e54bf8d69288fbee4904'
+
+/**
+ * Get the parent of a commit to diff against, or the empty tree for a root commit
+ */
+export async function getParentRef(git: SimpleGit, ref: string): Promise<string> {
+  try {
+    const parent = (await git.revparse(['--verify', '--quiet', `${ref}^`])).trim()
+    return parent || EMPTY_TREE
+  } catch {
+    return EMPTY_TREE
+  }
+}
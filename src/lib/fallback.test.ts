@@ -0,0 +1,209 @@
+import { APICallError, generateObject, generateText, simulateReadableStream, streamText } from 'ai'
+import { MockLanguageModelV1 } from 'ai/test'
+import { describe, expect, it, vi } from 'vitest'
+import { z } from 'zod'
+import { createFallbackModel, isRetryableError } from './fallback.js'
+
+function apiError(statusCode: number): APICallError {
+  return new APICallError({
+    message: `HTTP ${statusCode}`,
+    url: 'https://api.example.com',
+    requestBodyValues: {},
+    statusCode
+  })
+}
+
+function textModel(text: string): MockLanguageModelV1 {
+  return new MockLanguageModelV1({
+    doGenerate: async () => ({
+      rawCall: { rawPrompt: null, rawSettings: {} },
+      finishReason: 'stop' as const,
+      usage: { promptTokens: 10, completionTokens: 20 },
+      text
+    }),
+    doStream: async () => ({
+      rawCall: { rawPrompt: null, rawSettings: {} },
+      stream: simulateReadableStream({
+        chunks: [
+          { type: 'text-delta' as const, textDelta: text },
+          {
+            type: 'finish' as const,
+            finishReason: 'stop' as const,
+            usage: { promptTokens: 10, completionTokens: 20 }
+          }
+        ]
+      })
+    })
+  })
+}
+
+function failingModel(error: Error): MockLanguageModelV1 {
+  return new MockLanguageModelV1({
+    doGenerate: async () => {
+      throw error
+    },
+    doStream: async () => {
+      throw error
+    }
+  })
+}
+
+const noDelay = { initialDelayMs: 0 }
+
+describe('isRetryableError', () => {
+  it('should retry rate limits and server errors only', () => {
+    expect(isRetryableError(apiError(429))).toBe(true)
+    expect(isRetryableError(apiError(503))).toBe(true)
+    expect(isRetryableError(apiError(401))).toBe(false)
+    expect(isRetryableError(new Error('No API key found'))).toBe(false)
+  })
+})
+
+describe('createFallbackModel', () => {
+  it('should use the main provider when it answers', async () => {
+    const onAnswer = vi.fn()
+    const model = createFallbackModel(
+      [
+        { provider: 'gemini', createModel: async () => textModel('from gemini') },
+        { provider: 'anthropic', createModel: async () => textModel('from anthropic') }
+      ],
+      { ...noDelay, onAnswer }
+    )
+
+    const result = await generateText({ model, prompt: 'test', maxRetries: 0 })
+
+    expect(result.text).toBe('from gemini')
+    expect(onAnswer).toHaveBeenCalledWith('gemini')
+  })
+
+  it('should retry retryable errors with backoff before answering', async () => {
+    let calls = 0
+    const flaky = new MockLanguageModelV1({
+      doGenerate: async () => {
+        calls++
+        if (calls < 3) throw apiError(429)
+        return {
+          rawCall: { rawPrompt: null, rawSettings: {} },
+          finishReason: 'stop' as const,
+          usage: { promptTokens: 10, completionTokens: 20 },
+          text: 'finally'
+        }
+      }
+    })
+    const model = createFallbackModel([{ provider: 'gemini', createModel: async () => flaky }], {
+      ...noDelay,
+      retries: 2
+    })
+
+    const result = await generateText({ model, prompt: 'test', maxRetries: 0 })
+
+    expect(result.text).toBe('finally')
+    expect(calls).toBe(3)
+  })
+
+  it('should fall back to the next provider and report it', async () => {
+    const onFallback = vi.fn()
+    const onAnswer = vi.fn()
+    const createOllama = vi.fn(async () => textModel('from ollama'))
+    const model = createFallbackModel(
+      [
+        { provider: 'gemini', createModel: async () => failingModel(apiError(503)) },
+        { provider: 'anthropic', createModel: async () => failingModel(apiError(401)) },
+        { provider: 'ollama', createModel: createOllama }
+      ],
+      { ...noDelay, retries: 1, onFallback, onAnswer }
+    )
+
+    const result = await generateText({ model, prompt: 'test', maxRetries: 0 })
+
+    expect(result.text).toBe('from ollama')
+    expect(onFallback).toHaveBeenCalledWith('gemini', 'anthropic', expect.any(APICallError))
+    expect(onFallback).toHaveBeenCalledWith('anthropic', 'ollama', expect.any(APICallError))
+    expect(onAnswer).toHaveBeenCalledWith('ollama')
+    expect(createOllama).toHaveBeenCalledTimes(1)
+  })
+
+  it('should not create fallback models that are never needed', async () => {
+    const createFallback = vi.fn(async () => textModel('unused'))
+    const model = createFallbackModel(
+      [
+        { provider: 'gemini', createModel: async () => textModel('from gemini') },
+        { provider: 'openai', createModel: createFallback }
+      ],
+      noDelay
+    )
+
+    await generateText({ model, prompt: 'test' })
+
+    expect(createFallback).not.toHaveBeenCalled()
+  })
+
+  it('should report every failure when all providers fail', async () => {
+    const model = createFallbackModel(
+      [
+        { provider: 'gemini', createModel: async () => failingModel(new Error('quota exceeded')) },
+        { provider: 'openai', createModel: async () => failingModel(new Error('invalid key')) }
+      ],
+      noDelay
+    )
+
+    await expect(generateText({ model, prompt: 'test' })).rejects.toThrow(
+      'All providers failed:\n  gemini: quota exceeded\n  openai: invalid key'
+    )
+  })
+
+  it('should fall back when a stream fails to start', async () => {
+    const model = createFallbackModel(
+      [
+        { provider: 'gemini', createModel: async () => failingModel(apiError(500)) },
+        { provider: 'openai', createModel: async () => textModel('streamed') }
+      ],
+      { ...noDelay, retries: 0 }
+    )
+
+    const result = streamText({ model, prompt: 'test' })
+    let text = ''
+    for await (const delta of result.textStream) {
+      text += delta
+    }
+
+    expect(text).toBe('streamed')
+  })
+
+  it('should send JSON-mode calls to tool-mode providers as a tool call', async () => {
+    const toolModel = new MockLanguageModelV1({
+      defaultObjectGenerationMode: 'tool',
+      doGenerate: async (options) => {
+        expect(options.mode.type).toBe('object-tool')
+        return {
+          rawCall: { rawPrompt: null, rawSettings: {} },
+          finishReason: 'tool-calls' as const,
+          usage: { promptTokens: 10, completionTokens: 20 },
+          toolCalls: [
+            {
+              toolCallType: 'function' as const,
+              toolCallId: 'call-1',
+              toolName: 'json',
+              args: '{"title":"Add login"}'
+            }
+          ]
+        }
+      }
+    })
+    const model = createFallbackModel(
+      [
+        { provider: 'gemini', createModel: async () => failingModel(new Error('down')) },
+        { provider: 'anthropic', createModel: async () => toolModel }
+      ],
+      noDelay
+    )
+
+    const result = await generateObject({
+      model,
+      schema: z.object({ title: z.string() }),
+      prompt: 'test'
+    })
+
+    expect(result.object).toEqual({ title: 'Add login' })
+  })
+})
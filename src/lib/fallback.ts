@@ -0,0 +1,181 @@
+import {
+  APICallError,
+  type LanguageModelV1,
+  type LanguageModelV1CallOptions,
+  type LanguageModelV1StreamPart
+} from 'ai'
+
+/**
+ * A provider in a fallback chain. Models are created lazily, so providers further down
+ * the chain are only set up (and their keys looked up) when they are actually needed.
+ */
+export interface FallbackTarget {
+  provider: string
+  modelId?: string
+  createModel: () => Promise<LanguageModelV1>
+}
+
+export interface FallbackOptions {
+  retries?: number // Retries per provider for retryable errors (rate limits, server errors)
+  initialDelayMs?: number // Backoff before the first retry; doubled on each further retry
+  onFallback?: (from: string, to: string, error: unknown) => void
+  onAnswer?: (provider: string) => void
+}
+
+const DEFAULT_RETRIES = 2
+const DEFAULT_INITIAL_DELAY_MS = 1000
+
+/**
+ * Whether an error is worth retrying on the same provider.
+ * Non-API errors (missing keys, invalid requests) go straight to the next provider.
+ */
+export function isRetryableError(error: unknown): boolean {
+  return APICallError.isInstance(error) && error.isRetryable
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+// Tool name used when a JSON-mode call is sent to a model that only supports tool mode
+const OBJECT_TOOL_NAME = 'json'
+
+/**
+ * Whether a JSON-mode call has to be sent in tool mode to this model.
+ * The chain reports JSON mode, but providers like Anthropic need structured output via a tool.
+ */
+function needsToolMode(model: LanguageModelV1, callOptions: LanguageModelV1CallOptions): boolean {
+  return callOptions.mode.type === 'object-json' && model.defaultObjectGenerationMode === 'tool'
+}
+
+function toToolMode(callOptions: LanguageModelV1CallOptions): LanguageModelV1CallOptions {
+  if (callOptions.mode.type !== 'object-json') return callOptions
+  return {
+    ...callOptions,
+    mode: {
+      type: 'object-tool',
+      tool: {
+        type: 'function',
+        name: callOptions.mode.name ?? OBJECT_TOOL_NAME,
+        description: callOptions.mode.description ?? 'Respond with a JSON object.',
+        parameters: callOptions.mode.schema ?? { type: 'object' }
+      }
+    }
+  }
+}
+
+async function generate(model: LanguageModelV1, callOptions: LanguageModelV1CallOptions) {
+  if (!needsToolMode(model, callOptions)) {
+    return model.doGenerate(callOptions)
+  }
+  const result = await model.doGenerate(toToolMode(callOptions))
+  return { ...result, text: result.toolCalls?.[0]?.args ?? result.text, toolCalls: undefined }
+}
+
+async function stream(model: LanguageModelV1, callOptions: LanguageModelV1CallOptions) {
+  if (!needsToolMode(model, callOptions)) {
+    return model.doStream(callOptions)
+  }
+  const { stream, ...rest } = await model.doStream(toToolMode(callOptions))
+  let streamedArgs = false
+  return {
+    ...rest,
+    // Turn the tool call back into the JSON text a JSON-mode call would have produced
+    stream: stream.pipeThrough(
+      new TransformStream<LanguageModelV1StreamPart, LanguageModelV1StreamPart>({
+        transform(part, controller) {
+          if (part.type === 'tool-call-delta') {
+            streamedArgs = true
+            controller.enqueue({ type: 'text-delta', textDelta: part.argsTextDelta })
+          } else if (part.type === 'tool-call') {
+            if (!streamedArgs) {
+              controller.enqueue({ type: 'text-delta', textDelta: part.args })
+            }
+          } else {
+            controller.enqueue(part)
+          }
+        }
+      })
+    )
+  }
+}
+
+async function withBackoff<T>(
+  call: () => PromiseLike<T>,
+  retries: number,
+  initialDelayMs: number
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await call()
+    } catch (error) {
+      if (attempt >= retries || !isRetryableError(error)) {
+        throw error
+      }
+      await sleep(initialDelayMs * 2 ** attempt)
+    }
+  }
+}
+
+/**
+ * Create a model that tries each provider in order until one answers.
+ * Each provider is retried with exponential backoff on retryable errors before moving on.
+ * For streams, only failures to start the stream trigger a fallback.
+ *
+ * @param targets - Providers in priority order; the first one is the main provider
+ */
+export function createFallbackModel(
+  targets: FallbackTarget[],
+  options: FallbackOptions = {}
+): LanguageModelV1 {
+  const retries = options.retries ?? DEFAULT_RETRIES
+  const initialDelayMs = options.initialDelayMs ?? DEFAULT_INITIAL_DELAY_MS
+  const models = new Map<string, Promise<LanguageModelV1>>()
+
+  function getTargetModel(target: FallbackTarget): Promise<LanguageModelV1> {
+    let model = models.get(target.provider)
+    if (!model) {
+      model = target.createModel()
+      models.set(target.provider, model)
+    }
+    return model
+  }
+
+  async function run<T>(call: (model: LanguageModelV1) => PromiseLike<T>): Promise<T> {
+    const failures: string[] = []
+    for (let i = 0; i < targets.length; i++) {
+      const target = targets[i]
+      try {
+        const model = await getTargetModel(target)
+        const result = await withBackoff(() => call(model), retries, initialDelayMs)
+        options.onAnswer?.(target.provider)
+        return result
+      } catch (error) {
+        failures.push(`${target.provider}: ${errorMessage(error)}`)
+        const next = targets[i + 1]
+        if (!next) break
+        options.onFallback?.(target.provider, next.provider, error)
+      }
+    }
+    // A plain Error, so the AI SDK doesn't retry the whole chain again
+    throw new Error(
+      failures.length === 1
+        ? failures[0].slice(failures[0].indexOf(': ') + 2)
+        : `All providers failed:\n${failures.map((failure) => `  ${failure}`).join('\n')}`
+    )
+  }
+
+  const main = targets[0]
+  return {
+    specificationVersion: 'v1',
+    provider: main.provider,
+    modelId: main.modelId ?? main.provider,
+    defaultObjectGenerationMode: 'json',
+    doGenerate: (callOptions) => run((model) => generate(model, callOptions)),
+    doStream: (callOptions) => run((model) => stream(model, callOptions))
+  }
+}
@@ -1,5 +1,6 @@
 import { execSync } from 'node:child_process'
 import chalk from 'chalk'
+import type { GitHubReview } from './github-review.js'
 
 let ghInstalledCache: boolean | null = null
 
@@ -78,3 +79,41 @@ export function pushBranchToOrigin(branch: string): void {
     stdio: ['pipe', 'pipe', 'pipe']
   })
 }
+
+/**
+ * Submit a review with inline comments to a pull request in the current repository
+ *
+ * @returns The URL of the posted review
+ * @throws When GitHub rejects the review, with the API's error message
+ */
+export function postPullRequestReview(
+  prNumber: number,
+  review: GitHubReview & { commit_id?: string }
+): string {
+  try {
+    const result = execSync(
+      `gh api --method POST repos/{owner}/{repo}/pulls/${prNumber}/reviews --input -`,
+      {
+        input: JSON.stringify(review),
+        encoding: 'utf-8',
+        stdio: ['pipe', 'pipe', 'pipe']
+      }
+    )
+    return JSON.parse(result).html_url
+  } catch (err) {
+    throw new Error(`GitHub rejected the review: ${getApiErrorMessage(err)}`, { cause: err })
+  }
+}
+
+// gh prints the API's error response to stdout, e.g. {"message":"...","errors":["..."]}
+function getApiErrorMessage(err: unknown): string {
+  try {
+    const { message, errors } = JSON.parse((err as { stdout?: string }).stdout ?? '')
+    const details = (Array.isArray(errors) ? errors : []).map((e: unknown) =>
+      typeof e === 'string' ? e : JSON.stringify(e)
+    )
+    return [message, ...details].join(': ')
+  } catch {
+    return err instanceof Error ? err.message : 'Unknown error'
+  }
+}
@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest'
+import type { CodeReview } from './ai.js'
+import { buildGitHubReview, getDiffPositions, getSuggestedCode } from './github-review.js'
+
+const diff = [
+  'diff --git a/src/app.ts b/src/app.ts',
+  'index 1111111..2222222 100644',
+  '--- a/src/app.ts',
+  '+++ b/src/app.ts',
+  '@@ -1,3 +1,3 @@',
+  ' import a from "a"',
+  '-const x = 1',
+  '+const x = 2',
+  ' export { x }',
+  '@@ -20,2 +20,3 @@',
+  ' function f() {',
+  '+  return x',
+  ' }',
+  'diff --git a/README.md b/README.md',
+  'new file mode 100644',
+  '--- /dev/null',
+  '+++ b/README.md',
+  '@@ -0,0 +1,2 @@',
+  '+# App',
+  '+Docs',
+  ''
+].join('\n')
+
+function review(issues: CodeReview['issues']): CodeReview {
+  return { summary: 'Looks fine', issues, positives: [] }
+}
+
+describe('getDiffPositions', () => {
+  it('should count positions from the first hunk header of each file', () => {
+    const positions = getDiffPositions(diff)
+
+    expect([...(positions.get('src/app.ts') ?? [])]).toEqual([
+      [1, 1],
+      [2, 3],
+      [3, 4],
+      [20, 6],
+      [21, 7],
+      [22, 8]
+    ])
+    expect([...(positions.get('README.md') ?? [])]).toEqual([
+      [1, 1],
+      [2, 2]
+    ])
+  })
+})
+
+describe('getSuggestedCode', () => {
+  it('should return the code from a fenced block or inline code', () => {
+    expect(getSuggestedCode('```ts\nconst x = 3\n```')).toBe('const x = 3')
+    expect(getSuggestedCode('`const x = 3`')).toBe('const x = 3')
+  })
+
+  it('should return null for prose', () => {
+    expect(getSuggestedCode('Use a constant instead of `x`')).toBeNull()
+  })
+})
+
+describe('buildGitHubReview', () => {
+  it('should place issues on diff lines as inline comments', () => {
+    const result = buildGitHubReview(
+      review([
+        {
+          severity: 'warning',
+          file: 'src/app.ts',
+          line: 21,
+          message: 'Missing type',
+          suggestion: 'Add a return type'
+        }
+      ]),
+      diff
+    )
+
+    expect(result.event).toBe('COMMENT')
+    expect(result.body).toBe('Looks fine')
+    expect(result.comments).toEqual([
+      { path: 'src/app.ts', position: 7, body: '🟡 **Warning**: Missing type\n\nAdd a return type' }
+    ])
+  })
+
+  it('should use suggestion blocks for code suggestions', () => {
+    const result = buildGitHubReview(
+      review([
+        {
+          severity: 'suggestion',
+          file: 'src/app.ts',
+          line: 2,
+          message: 'Use 3',
+          suggestion: '```ts\nconst x = 3\n```'
+        }
+      ]),
+      diff
+    )
+
+    expect(result.comments[0].body).toContain('```suggestion\nconst x = 3\n```')
+  })
+
+  it('should list issues outside the diff in the review body', () => {
+    const result = buildGitHubReview(
+      review([
+        { severity: 'warning', file: 'src/app.ts', line: 10, message: 'Unchanged line' },
+        { severity: 'suggestion', file: 'src/other.ts', message: 'No line' }
+      ]),
+      diff
+    )
+
+    expect(result.comments).toEqual([])
+    expect(result.body).toContain('`src/app.ts:10`')
+    expect(result.body).toContain('`src/other.ts`')
+  })
+
+  it('should request changes when there are critical issues', () => {
+    const result = buildGitHubReview(
+      review([{ severity: 'critical', file: 'README.md', line: 1, message: 'Broken' }]),
+      diff
+    )
+
+    expect(result.event).toBe('REQUEST_CHANGES')
+    expect(result.comments[0]).toMatchObject({ path: 'README.md', position: 1 })
+  })
+})
@@ -0,0 +1,116 @@
+import type { CodeReview } from './ai.js'
+
+type ReviewIssue = CodeReview['issues'][number]
+
+export type GitHubReviewEvent = 'COMMENT' | 'REQUEST_CHANGES'
+
+export interface GitHubReviewComment {
+  path: string
+  position: number // Line index in the file's diff, counted from the line below the first `@@`
+  body: string
+}
+
+export interface GitHubReview {
+  event: GitHubReviewEvent
+  body: string
+  comments: GitHubReviewComment[]
+}
+
+const SEVERITY_LABELS: Record<ReviewIssue['severity'], string> = {
+  critical: '🔴 **Critical**',
+  warning: '🟡 **Warning**',
+  suggestion: '💡 **Suggestion**'
+}
+
+/**
+ * Map the new-file line numbers of added and context lines to their GitHub diff positions
+ *
+ * @returns Positions keyed by file path, then by line number
+ */
+export function getDiffPositions(diff: string): Map<string, Map<number, number>> {
+  const positions = new Map<string, Map<number, number>>()
+
+  for (const part of diff.split(/^(?=diff --git )/m)) {
+    const file = part.match(/^diff --git a\/.+? b\/(.+)$/m)?.[1]
+    const hunkStart = part.search(/^@@/m)
+    if (!file || hunkStart === -1) continue
+
+    const lines = new Map<number, number>()
+    let position = 0
+    let line = 0
+    for (const text of part.slice(hunkStart).split('\n')) {
+      const hunk = text.match(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,\d+)? @@/)
+      if (hunk) {
+        // The first hunk header is position 0, later ones take a position like any line
+        if (position > 0 || line > 0) position++
+        line = Number(hunk[1])
+        continue
+      }
+      if (!text) continue
+      position++
+      if (text.startsWith('+') || text.startsWith(' ')) {
+        lines.set(line, position)
+        line++
+      }
+    }
+    positions.set(file, lines)
+  }
+
+  return positions
+}
+
+/**
+ * Get the replacement code from a suggestion written as a code block or inline code,
+ * or null when the suggestion is prose
+ */
+export function getSuggestedCode(suggestion: string): string | null {
+  const fenced = suggestion.match(/^\s*```[^\n]*\n([\s\S]*?)\n?```\s*$/)
+  if (fenced) return fenced[1]
+  const inline = suggestion.match(/^\s*`([^`\n]+)`\s*$/)
+  return inline ? inline[1] : null
+}
+
+function formatIssue(issue: ReviewIssue): string {
+  const lines = [`${SEVERITY_LABELS[issue.severity]}: ${issue.message}`]
+  if (issue.suggestion) {
+    const code = getSuggestedCode(issue.suggestion)
+    lines.push('', code !== null ? `\`\`\`suggestion\n${code}\n\`\`\`` : issue.suggestion)
+  }
+  return lines.join('\n')
+}
+
+/**
+ * Turn a code review of a pull request into a GitHub review. Issues on lines in the diff become
+ * inline comments; the rest are listed in the review body. Critical issues request changes.
+ *
+ * @param diff - The pull request's diff, as returned by `gh pr diff`
+ */
+export function buildGitHubReview(review: CodeReview, diff: string): GitHubReview {
+  const positions = getDiffPositions(diff)
+  const comments: GitHubReviewComment[] = []
+  const unplaced: ReviewIssue[] = []
+
+  for (const issue of review.issues) {
+    const path = issue.file.replace(/^(\.\/|[ab]\/)/, '')
+    const position = issue.line ? positions.get(path)?.get(issue.line) : undefined
+    if (position) {
+      comments.push({ path, position, body: formatIssue(issue) })
+    } else {
+      unplaced.push(issue)
+    }
+  }
+
+  const body = [review.summary]
+  for (const issue of unplaced) {
+    const location = `\`${issue.file}${issue.line ? `:${issue.line}` : ''}\``
+    body.push(`${location}\n\n${formatIssue(issue)}`)
+  }
+
+  return {
+    event: review.issues.some((issue) => issue.severity === 'critical')
+      ? 'REQUEST_CHANGES'
+      : 'COMMENT',
+    body: body.join('\n\n---\n\n'),
+    comments
+  }
+}
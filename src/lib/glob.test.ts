@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest'
+import { globToRegExp, matchesGlob } from './glob.js'
+
+describe('globToRegExp', () => {
+  it('should match names without a slash at any depth', () => {
+    const regex = globToRegExp('.env*')
+    expect(regex.test('.env')).toBe(true)
+    expect(regex.test('apps/web/.env.local')).toBe(true)
+    expect(regex.test('src/env.ts')).toBe(false)
+  })
+
+  it('should anchor patterns with a slash to the repository root', () => {
+    const regex = globToRegExp('config/*.pem')
+    expect(regex.test('config/server.pem')).toBe(true)
+    expect(regex.test('config/certs/server.pem')).toBe(false)
+    expect(regex.test('apps/config/server.pem')).toBe(false)
+  })
+
+  it('should match any number of directories with **', () => {
+    const regex = globToRegExp('secrets/**/*.json')
+    expect(regex.test('secrets/prod.json')).toBe(true)
+    expect(regex.test('secrets/prod/db.json')).toBe(true)
+    expect(globToRegExp('**/fixtures').test('test/unit/fixtures/user.json')).toBe(true)
+  })
+
+  it('should match everything inside a matched directory', () => {
+    expect(globToRegExp('credentials/').test('credentials/aws/key')).toBe(true)
+    expect(globToRegExp('dist').test('packages/api/dist/index.js')).toBe(true)
+  })
+})
+
+describe('matchesGlob', () => {
+  it('should match when any pattern matches', () => {
+    expect(matchesGlob('keys/id_rsa', ['*.pem', 'id_rsa'])).toBe(true)
+    expect(matchesGlob('src/index.ts', ['*.pem', 'id_rsa'])).toBe(false)
+  })
+})
@@ -0,0 +1,40 @@
+/**
+ * Convert a gitignore-style glob into a regular expression for repository-relative paths.
+ * A pattern without a slash matches a name at any depth, `**` matches any number of
+ * directories, and `*` and `?` never match a slash. A pattern that matches a directory
+ * also matches everything inside it.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  const trimmed = pattern.trim().replace(/\/+$/, '')
+  const anchored = trimmed.includes('/')
+  const glob = trimmed.replace(/^\//, '')
+
+  let source = ''
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i]
+    if (char === '*' && glob[i + 1] === '*') {
+      if (glob[i + 2] === '/') {
+        source += '(?:.*/)?'
+        i += 2
+      } else {
+        source += '.*'
+        i += 1
+      }
+    } else if (char === '*') {
+      source += '[^/]*'
+    } else if (char === '?') {
+      source += '[^/]'
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    }
+  }
+
+  return new RegExp(`^${anchored ? '' : '(?:.*/)?'}${source}(?:/.*)?$`)
+}
+
+/**
+ * Check whether a repository-relative path matches any of the globs
+ */
+export function matchesGlob(path: string, patterns: string[]): boolean {
+  return patterns.some((pattern) => globToRegExp(pattern).test(path))
+}
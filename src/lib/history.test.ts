@@ -0,0 +1,89 @@
+import { execSync } from 'node:child_process'
+import { existsSync, mkdtempSync, readdirSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { simpleGit } from 'simple-git'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { analyzeCommitStyle, getCommitStyle } from './history.js'
+
+describe('analyzeCommitStyle', () => {
+  it('should detect conventional prefixes, tickets and bodies', () => {
+    const style = analyzeCommitStyle([
+      'feat(api): add login endpoint\n\n- validate tokens\n\nRefs: AUTH-12',
+      'fix(web): handle expired sessions\n\n- redirect to login\n\nRefs: AUTH-15',
+      'feat(api): add logout endpoint\n\n- clear cookies\n\nRefs: AUTH-16',
+      'docs: update readme'
+    ])
+
+    expect(style?.commits).toBe(4)
+    expect(style?.signals).toEqual([
+      'Conventional Commits prefixes in 4 of 4 commits; most used types: feat, fix, docs',
+      'A scope in parentheses in 3 of 4 commits',
+      'Ticket references like AUTH-12 in 3 of 4 commits, in the body or footer',
+      'Descriptions start with a lowercase letter',
+      'Subjects do not end with a period',
+      'Subjects average 28 characters',
+      'A body in 3 of 4 commits, usually as bullet points'
+    ])
+    expect(style?.examples[0]).toBe(
+      'feat(api): add login endpoint\n\n- validate tokens\n\nRefs: AUTH-12'
+    )
+  })
+
+  it('should detect capitalized single-line messages', () => {
+    const style = analyzeCommitStyle(['Add login.', 'Fix session bug.', 'Update docs (#42).'])
+
+    expect(style?.signals).toContain('Descriptions start with a capital letter')
+    expect(style?.signals).toContain('Subjects end with a period')
+    expect(style?.signals).toContain('Issue references like #123 in 1 of 3 commits')
+    expect(style?.signals).toContain('Most commits are a single subject line without a body')
+  })
+
+  it('should return null without commits', () => {
+    expect(analyzeCommitStyle([])).toBeNull()
+  })
+})
+
+describe('getCommitStyle', () => {
+  let repo: string
+  let cacheDir: string
+
+  function commit(message: string, author = 'Dev <dev@example.com>') {
+    execSync(`git commit -q --allow-empty --author="${author}" -F -`, {
+      cwd: repo,
+      input: message
+    })
+  }
+
+  beforeEach(() => {
+    repo = mkdtempSync(join(tmpdir(), 'gut-test-history-'))
+    cacheDir = join(repo, '.cache')
+    execSync('git init -q && git config user.name Dev && git config user.email dev@example.com', {
+      cwd: repo
+    })
+  })
+
+  afterEach(() => {
+    rmSync(repo, { recursive: true, force: true })
+  })
+
+  it('should learn from recent commits, skipping bots, and cache the result', async () => {
+    commit('feat: add login')
+    commit('chore(deps): bump zod', 'dependabot[bot] <support@github.com>')
+    commit('fix: handle empty diff')
+
+    const style = await getCommitStyle(simpleGit(repo), repo, 10, cacheDir)
+
+    expect(style?.commits).toBe(2)
+    expect(style?.examples).toEqual(['fix: handle empty diff', 'feat: add login'])
+    expect(readdirSync(cacheDir)).toHaveLength(1)
+
+    commit('feat: add logout')
+    expect(await getCommitStyle(simpleGit(repo), repo, 10, cacheDir)).toEqual(style)
+  })
+
+  it('should return null for a repository without commits', async () => {
+    expect(await getCommitStyle(simpleGit(repo), repo, 10, cacheDir)).toBeNull()
+    expect(existsSync(cacheDir)).toBe(false)
+  })
+})
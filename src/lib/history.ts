@@ -0,0 +1,206 @@
+import { createHash } from 'node:crypto'
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs'
+import { homedir } from 'node:os'
+import { dirname, join } from 'node:path'
+import type { SimpleGit } from 'simple-git'
+import { isCacheEnabled } from './cache.js'
+
+/**
+ * How a repository writes its commit messages, learned from its history
+ */
+export interface CommitStyle {
+  commits: number // Number of commits the style was learned from
+  signals: string[] // Conventions observed in the history
+  examples: string[] // Recent messages to use as few-shot examples
+}
+
+interface CachedStyle {
+  createdAt: number
+  samples: number
+  style: CommitStyle
+}
+
+export const DEFAULT_STYLE_SAMPLES = 50
+
+// The style of a repository changes slowly; learn it again once a day
+const STYLE_CACHE_TTL = 24 * 60 * 60 * 1000
+
+const MAX_EXAMPLES = 5
+const MAX_EXAMPLE_LINES = 10
+
+// Authors whose commits do not reflect how the team writes messages
+const BOT_PATTERN = /\[bot\]|\bbot\b|^(dependabot|renovate|greenkeeper|snyk)/i
+
+const CONVENTIONAL_PATTERN = /^(\w+)(\([^)]+\))?!?: /
+const TICKET_PATTERN = /\b[A-Z][A-Z0-9]+-\d+\b/
+const ISSUE_PATTERN = /(^|\s|\()#\d+\b/
+
+function share(count: number, total: number): string {
+  return `${count} of ${total} commits`
+}
+
+/**
+ * Extract style signals and few-shot examples from commit messages, most recent first
+ */
+export function analyzeCommitStyle(messages: string[]): CommitStyle | null {
+  const commits = messages.map((message) => message.trim()).filter(Boolean)
+  const total = commits.length
+  if (total === 0) return null
+
+  const subjects = commits.map((message) => message.split('\n')[0])
+  const signals: string[] = []
+
+  const conventional = subjects.filter((subject) => CONVENTIONAL_PATTERN.test(subject))
+  if (conventional.length >= total * 0.6) {
+    const typeCounts = new Map<string, number>()
+    for (const subject of conventional) {
+      const type = subject.match(CONVENTIONAL_PATTERN)?.[1] ?? ''
+      typeCounts.set(type, (typeCounts.get(type) ?? 0) + 1)
+    }
+    const types = [...typeCounts.entries()].sort((a, b) => b[1] - a[1]).map(([type]) => type)
+    signals.push(
+      `Conventional Commits prefixes in ${share(conventional.length, total)}; most used types: ${types.slice(0, 5).join(', ')}`
+    )
+    const scoped = conventional.filter((subject) => CONVENTIONAL_PATTERN.exec(subject)?.[2])
+    if (scoped.length >= conventional.length * 0.5) {
+      signals.push(`A scope in parentheses in ${share(scoped.length, total)}`)
+    } else if (scoped.length === 0) {
+      signals.push('No scopes after the type')
+    }
+  } else if (subjects.filter((subject) => /^\[[^\]]+\]/.test(subject)).length >= total * 0.3) {
+    signals.push('Subjects start with a bracketed tag, e.g. "[api] ..."')
+  } else if (
+    subjects.filter((subject) => /^(:\w+:|\p{Extended_Pictographic})/u.test(subject)).length >=
+    total * 0.3
+  ) {
+    signals.push('Subjects start with an emoji')
+  }
+
+  const tickets = commits.filter((message) => TICKET_PATTERN.test(message))
+  if (tickets.length >= total * 0.3) {
+    const inSubject = tickets.filter((message) => TICKET_PATTERN.test(message.split('\n')[0]))
+    const example = tickets[0].match(TICKET_PATTERN)?.[0]
+    signals.push(
+      `Ticket references like ${example} in ${share(tickets.length, total)}, ${inSubject.length >= tickets.length / 2 ? 'in the subject' : 'in the body or footer'}`
+    )
+  }
+  const issues = commits.filter((message) => ISSUE_PATTERN.test(message))
+  if (issues.length >= total * 0.3) {
+    signals.push(`Issue references like #123 in ${share(issues.length, total)}`)
+  }
+
+  // Capitalization and punctuation of the description, after any prefix
+  const descriptions = subjects
+    .map((subject) =>
+      subject
+        .replace(CONVENTIONAL_PATTERN, '')
+        .replace(/^\[[^\]]+\]\s*/, '')
+        .trim()
+    )
+    .filter((description) => /^[a-zA-Z]/.test(description))
+  if (descriptions.length > 0) {
+    const capitalized = descriptions.filter((d) => /^[A-Z]/.test(d)).length
+    if (capitalized >= descriptions.length * 0.7) {
+      signals.push('Descriptions start with a capital letter')
+    } else if (capitalized <= descriptions.length * 0.3) {
+      signals.push('Descriptions start with a lowercase letter')
+    }
+  }
+  const periods = subjects.filter((subject) => subject.endsWith('.')).length
+  if (periods >= total * 0.5) {
+    signals.push('Subjects end with a period')
+  } else if (periods <= total * 0.1) {
+    signals.push('Subjects do not end with a period')
+  }
+  const averageLength = Math.round(
+    subjects.reduce((sum, subject) => sum + subject.length, 0) / total
+  )
+  signals.push(`Subjects average ${averageLength} characters`)
+
+  const bodies = commits.map((message) => message.split('\n').slice(1).join('\n').trim())
+  const withBody = bodies.filter(Boolean)
+  if (withBody.length >= total * 0.5) {
+    const bulleted = withBody.filter((body) => /^\s*[-*] /m.test(body)).length
+    signals.push(
+      `A body in ${share(withBody.length, total)}${bulleted >= withBody.length * 0.5 ? ', usually as bullet points' : ''}`
+    )
+  } else if (withBody.length <= total * 0.2) {
+    signals.push('Most commits are a single subject line without a body')
+  }
+
+  const examples = [...new Set(commits)]
+    .slice(0, MAX_EXAMPLES)
+    .map((message) => message.split('\n').slice(0, MAX_EXAMPLE_LINES).join('\n'))
+
+  return { commits: total, signals, examples }
+}
+
+export function getStyleCacheDir(): string {
+  return join(homedir(), '.config', 'gut', 'styles')
+}
+
+function getStyleCachePath(cacheDir: string, repoRoot: string): string {
+  const key = createHash('sha256').update(repoRoot).digest('hex').slice(0, 16)
+  return join(cacheDir, `${key}.json`)
+}
+
+function readCachedStyle(path: string, samples: number): CommitStyle | null {
+  if (!isCacheEnabled() || !existsSync(path)) return null
+  try {
+    const cached = JSON.parse(readFileSync(path, 'utf-8')) as CachedStyle
+    if (cached.samples !== samples || Date.now() - cached.createdAt > STYLE_CACHE_TTL) return null
+    return cached.style
+  } catch {
+    return null
+  }
+}
+
+function writeCachedStyle(path: string, samples: number, style: CommitStyle): void {
+  try {
+    mkdirSync(dirname(path), { recursive: true })
+    const cached: CachedStyle = { createdAt: Date.now(), samples, style }
+    writeFileSync(path, JSON.stringify(cached, null, 2))
+  } catch {
+    // The cache is only an optimization
+  }
+}
+
+/**
+ * Learn the repository's commit message style from its recent history.
+ * Merge commits and commits by bots are skipped. Results are cached per repository.
+ *
+ * @param samples - Number of recent commits to learn from
+ * @returns The style, or null when the repository has no usable history
+ */
+export async function getCommitStyle(
+  git: SimpleGit,
+  repoRoot: string,
+  samples: number = DEFAULT_STYLE_SAMPLES,
+  cacheDir: string = getStyleCacheDir()
+): Promise<CommitStyle | null> {
+  const cachePath = getStyleCachePath(cacheDir, repoRoot)
+  const cached = readCachedStyle(cachePath, samples)
+  if (cached) return cached
+
+  let log: string
+  try {
+    // Fetch extra commits to make up for the bot commits filtered out below
+    log = await git.raw(['log', '--no-merges', `-n${samples * 2}`, '--format=%an%x1f%ae%x1f%B%x1e'])
+  } catch {
+    // No commits yet
+    return null
+  }
+
+  const messages = log
+    .split('\x1e')
+    .map((entry) => entry.replace(/^\n/, '').split('\x1f'))
+    .filter(
+      ([name, email, message]) => message && !BOT_PATTERN.test(name) && !BOT_PATTERN.test(email)
+    )
+    .map(([, , message]) => message)
+    .slice(0, samples)
+
+  const style = analyzeCommitStyle(messages)
+  if (style) writeCachedStyle(cachePath, samples, style)
+  return style
+}
@@ -0,0 +1,97 @@
+import { mkdirSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+vi.mock('./config.js', () => ({
+  getCommandConfig: vi.fn((command: string) =>
+    command === 'review' ? { ignore: ['!dist/keep.js', '*.snap'] } : {}
+  )
+}))
+
+import { filterDiff, formatExcluded, getIgnorePatterns, isIgnored } from './ignore.js'
+
+function fileDiff(file: string, line: string): string {
+  return `diff --git a/${file} b/${file}\n--- a/${file}\n+++ b/${file}\n@@ -1 +1 @@\n+${line}\n`
+}
+
+describe('getIgnorePatterns', () => {
+  const testRepo = join(tmpdir(), 'gut-test-ignore')
+
+  beforeEach(() => {
+    mkdirSync(testRepo, { recursive: true })
+    writeFileSync(join(testRepo, '.gutignore'), '# Generated\npackage-lock.json\n\ndist/\n')
+  })
+
+  afterEach(() => {
+    rmSync(testRepo, { recursive: true, force: true })
+  })
+
+  it('should read .gutignore without comments and blank lines', () => {
+    expect(getIgnorePatterns(testRepo)).toEqual(['package-lock.json', 'dist/'])
+  })
+
+  it('should append the per-command patterns', () => {
+    expect(getIgnorePatterns(testRepo, 'review')).toEqual([
+      'package-lock.json',
+      'dist/',
+      '!dist/keep.js',
+      '*.snap'
+    ])
+  })
+
+  it('should return no patterns without a .gutignore', () => {
+    expect(getIgnorePatterns(join(testRepo, 'missing'), 'commit')).toEqual([])
+  })
+})
+
+describe('isIgnored', () => {
+  it('should let the last matching pattern win', () => {
+    const patterns = ['dist/', '!dist/keep.js']
+    expect(isIgnored('dist/bundle.min.js', patterns)).toBe(true)
+    expect(isIgnored('dist/keep.js', patterns)).toBe(false)
+    expect(isIgnored('src/index.ts', patterns)).toBe(false)
+  })
+})
+
+describe('filterDiff', () => {
+  it('should drop ignored files and name them for the model', () => {
+    const diff = [
+      fileDiff('src/api.ts', 'export const api = 1'),
+      fileDiff('package-lock.json', '"lockfileVersion": 3'),
+      fileDiff('src/__snapshots__/api.test.ts.snap', 'exports[`api`] = 1')
+    ].join('')
+
+    const result = filterDiff(diff, ['package-lock.json', '*.snap'])
+
+    expect(result.excluded).toEqual(['package-lock.json', 'src/__snapshots__/api.test.ts.snap'])
+    expect(result.diff).toBe(
+      `${fileDiff('src/api.ts', 'export const api = 1')}\n[gut] excluded 2 files (package-lock.json, src/__snapshots__/api.test.ts.snap)\n`
+    )
+  })
+
+  it('should return the diff unchanged when nothing is ignored', () => {
+    const diff = fileDiff('src/api.ts', 'export const api = 1')
+    expect(filterDiff(diff, ['*.lock'])).toEqual({ diff, excluded: [], allExcluded: false })
+    expect(filterDiff(diff, [])).toEqual({ diff, excluded: [], allExcluded: false })
+  })
+
+  it('should report when every file is ignored', () => {
+    const diff = fileDiff('yarn.lock', 'lodash@4')
+
+    expect(filterDiff(diff, ['*.lock'])).toEqual({
+      diff: '[gut] excluded 1 file (yarn.lock)\n',
+      excluded: ['yarn.lock'],
+      allExcluded: true
+    })
+  })
+})
+
+describe('formatExcluded', () => {
+  it('should list at most five files', () => {
+    expect(formatExcluded(['a.lock'])).toBe('excluded 1 file (a.lock)')
+    expect(formatExcluded(['a', 'b', 'c', 'd', 'e', 'f', 'g'])).toBe(
+      'excluded 7 files (a, b, c, d, e, and 2 more)'
+    )
+  })
+})
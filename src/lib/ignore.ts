@@ -0,0 +1,78 @@
+import { existsSync, readFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { getCommandConfig } from './config.js'
+import { globToRegExp } from './glob.js'
+
+export const GUTIGNORE_FILE = '.gutignore'
+
+// Excluded files listed by name in the summary given to the model
+const MAX_LISTED_FILES = 5
+
+/**
+ * Read the patterns of files to keep out of AI prompts: the repository's .gutignore,
+ * followed by the command's `commands.<name>.ignore` setting, which can add patterns or
+ * re-include files with `!`
+ */
+export function getIgnorePatterns(repoRoot: string, command?: string): string[] {
+  const path = join(repoRoot, GUTIGNORE_FILE)
+  const fileLines = existsSync(path) ? readFileSync(path, 'utf-8').split('\n') : []
+  const commandLines = command ? (getCommandConfig(command).ignore ?? []) : []
+  return [...fileLines, ...commandLines]
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith('#'))
+}
+
+/**
+ * Check a path against gitignore-style patterns; the last matching pattern wins
+ */
+export function isIgnored(path: string, patterns: string[]): boolean {
+  let ignored = false
+  for (const pattern of patterns) {
+    const negated = pattern.startsWith('!')
+    if (globToRegExp(negated ? pattern.slice(1) : pattern).test(path)) {
+      ignored = !negated
+    }
+  }
+  return ignored
+}
+
+/**
+ * Describe excluded files for the model, e.g. "excluded 3 files (package-lock.json, ...)"
+ */
+export function formatExcluded(files: string[]): string {
+  const listed = files.slice(0, MAX_LISTED_FILES).join(', ')
+  const more =
+    files.length > MAX_LISTED_FILES ? `, and ${files.length - MAX_LISTED_FILES} more` : ''
+  return `excluded ${files.length} file${files.length === 1 ? '' : 's'} (${listed}${more})`
+}
+
+export interface FilteredDiff {
+  diff: string
+  excluded: string[] // Paths of the excluded files
+  allExcluded: boolean // Every changed file was excluded, so there is nothing left to describe
+}
+
+/**
+ * Remove the changes to ignored files from a diff. When files are removed, a line naming them
+ * is appended so the model still knows they changed.
+ */
+export function filterDiff(diff: string, patterns: string[]): FilteredDiff {
+  if (patterns.length === 0) return { diff, excluded: [], allExcluded: false }
+
+  const excluded: string[] = []
+  const kept = diff
+    .split(/^(?=diff --git )/m)
+    .filter((part) => {
+      const file = part.match(/^diff --git a\/.+? b\/(.+)$/m)?.[1]
+      if (!file || !isIgnored(file, patterns)) return true
+      excluded.push(file)
+      return false
+    })
+    .join('')
+
+  if (excluded.length === 0) return { diff, excluded, allExcluded: false }
+  const summary = `[gut] ${formatExcluded(excluded)}`
+  return kept.trim()
+    ? { diff: `${kept.trimEnd()}\n\n${summary}\n`, excluded, allExcluded: false }
+    : { diff: `${summary}\n`, excluded, allExcluded: true }
+}
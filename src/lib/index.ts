@@ -5,6 +5,9 @@ export {
   type AIOptions,
   type Changelog,
   type CodeReview,
+  type CommitGroup,
+  type CommitMessageContext,
+  type CommitMessageFeedback,
   type CommitSearchResult,
   type ConflictResolution,
   type Explanation,
@@ -14,15 +17,36 @@ export {
   generateChangelog,
   generateCodeReview,
   generateCommitMessage,
+  generateCommitPlan,
   generateExplanation,
   generateGitignore,
+  generateHunkDescriptions,
   generatePRDescription,
   generateStashName,
   generateWorkSummary,
   type Language,
+  type ObjectStream,
+  type PRDescription,
   resolveConflict,
   searchCommits,
+  streamCodeReview,
+  streamCommitMessage,
+  streamExplanation,
+  streamPRDescription,
+  type TextStream,
   type WorkSummary
 } from './ai.js'
-export { getLanguage, getLanguageInstruction, setLanguage } from './config.js'
+export {
+  type CommitRules,
+  getConventionalRules,
+  lintCommitMessage,
+  loadCommitRules
+} from './commitlint.js'
+export {
+  getLanguage,
+  getLanguageInstruction,
+  type ProviderName,
+  type ProviderProfile,
+  setLanguage
+} from './config.js'
 export { deleteApiKey, getApiKey, listProviders, type Provider, saveApiKey } from './credentials.js'
@@ -0,0 +1,27 @@
+import { SECRET_PATTERNS } from './secrets.js'
+
+// Added lines matching these usually should not be committed
+const LEFTOVER_PATTERNS: Array<{ pattern: RegExp; reason: string }> = [
+  { pattern: /\bconsole\.(log|debug|trace|dir)\(/, reason: 'console.log call' },
+  { pattern: /\bdebugger\b/, reason: 'debugger statement' },
+  { pattern: /\b(binding\.pry|var_dump\(|dbg!\(|breakpoint\(\))/, reason: 'debug statement' },
+  { pattern: /\b(TODO|FIXME|XXX)\b/, reason: 'TODO comment' },
+  ...SECRET_PATTERNS.map(({ name, pattern }) => ({ pattern, reason: `possible secret (${name})` }))
+]
+
+/**
+ * Find debug leftovers and possible secrets in the lines a hunk adds
+ *
+ * @param content - Hunk content (unified diff lines)
+ * @returns Reasons the hunk looks suspicious, each listed once
+ */
+export function findLeftovers(content: string): string[] {
+  const added = content
+    .split('\n')
+    .filter((line) => line.startsWith('+') && !line.startsWith('+++'))
+    .map((line) => line.slice(1))
+  const reasons = LEFTOVER_PATTERNS.filter(({ pattern }) =>
+    added.some((line) => pattern.test(line))
+  ).map(({ reason }) => reason)
+  return [...new Set(reasons)]
+}
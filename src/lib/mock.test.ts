@@ -0,0 +1,101 @@
+import { mkdirSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { generateObject, generateText, streamText } from 'ai'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { z } from 'zod'
+import { createMockModel, getFixturePath, hashPrompt } from './mock.js'
+
+describe('createMockModel', () => {
+  const fixturesDir = join(tmpdir(), `gut-mock-fixtures-${Date.now()}`)
+
+  beforeEach(() => {
+    mkdirSync(fixturesDir, { recursive: true })
+  })
+
+  afterEach(() => {
+    rmSync(fixturesDir, { recursive: true, force: true })
+  })
+
+  const commitCall = { providerOptions: { gut: { template: 'commit' } } }
+
+  it('should return a built-in response when no fixture exists', async () => {
+    const model = createMockModel('mock', fixturesDir)
+
+    const result = await generateText({ model, prompt: 'any prompt', ...commitCall })
+
+    expect(result.text).toBe('chore: update files')
+  })
+
+  it('should build a schema-valid object when no fixture exists', async () => {
+    const model = createMockModel('mock', fixturesDir)
+    const schema = z.object({
+      summary: z.string(),
+      issues: z.array(z.object({ severity: z.enum(['critical', 'warning']) })),
+      count: z.number()
+    })
+
+    const result = await generateObject({ model, schema, prompt: 'any prompt' })
+
+    expect(result.object).toEqual({ summary: 'mock summary', issues: [], count: 0 })
+  })
+
+  it('should prefer the canned response for the template', async () => {
+    writeFileSync(
+      getFixturePath(fixturesDir, 'commit'),
+      JSON.stringify({ response: 'feat: canned message' })
+    )
+    const model = createMockModel('mock', fixturesDir)
+
+    const result = await generateText({ model, prompt: 'any prompt', ...commitCall })
+
+    expect(result.text).toBe('feat: canned message')
+  })
+
+  it('should prefer a response recorded for the exact prompt', async () => {
+    writeFileSync(
+      getFixturePath(fixturesDir, 'commit'),
+      JSON.stringify({ response: 'feat: canned message' })
+    )
+    writeFileSync(
+      getFixturePath(fixturesDir, 'commit', hashPrompt('exact prompt')),
+      JSON.stringify({ response: 'fix: recorded message' })
+    )
+    const model = createMockModel('mock', fixturesDir)
+
+    const exact = await generateText({ model, prompt: 'exact prompt', ...commitCall })
+    const other = await generateText({ model, prompt: 'other prompt', ...commitCall })
+
+    expect(exact.text).toBe('fix: recorded message')
+    expect(other.text).toBe('feat: canned message')
+  })
+
+  it('should serialize object fixtures', async () => {
+    writeFileSync(
+      getFixturePath(fixturesDir, 'pr'),
+      JSON.stringify({ response: { title: 'Add login', body: 'Adds login' } })
+    )
+    const model = createMockModel('mock', fixturesDir)
+
+    const result = await generateObject({
+      model,
+      schema: z.object({ title: z.string(), body: z.string() }),
+      prompt: 'any prompt',
+      providerOptions: { gut: { template: 'pr' } }
+    })
+
+    expect(result.object).toEqual({ title: 'Add login', body: 'Adds login' })
+  })
+
+  it('should stream the same response', async () => {
+    const model = createMockModel('mock', fixturesDir)
+
+    const result = streamText({ model, prompt: 'any prompt', ...commitCall })
+
+    let text = ''
+    for await (const delta of result.textStream) {
+      text += delta
+    }
+    expect(text).toBe('chore: update files')
+  })
+})
@@ -0,0 +1,207 @@
+import { createHash } from 'node:crypto'
+import { existsSync, readFileSync } from 'node:fs'
+import { join } from 'node:path'
+import type { LanguageModelV1, LanguageModelV1CallOptions, LanguageModelV1StreamPart } from 'ai'
+import { estimateTokens } from './diff.js'
+
+/**
+ * A recorded or hand-written response for the mock provider.
+ * `response` is the raw model output; objects are serialized to JSON.
+ */
+export interface Fixture {
+  template?: string
+  promptHash?: string
+  prompt?: string
+  response: string | Record<string, unknown>
+}
+
+// Deterministic responses for templates that produce plain text
+const DEFAULT_TEXT_RESPONSES: Record<string, string> = {
+  commit: 'chore: update files',
+  branch: 'feature/mock-branch',
+  checkout: 'feature/mock-branch',
+  stash: 'WIP: mock changes',
+  gitignore: 'node_modules/\ndist/',
+  'diff-summary': 'Mock summary of changes'
+}
+
+/**
+ * Get the directory the mock provider reads fixtures from.
+ * Defaults to .gut/fixtures/ in the current directory; override with GUT_MOCK_FIXTURES.
+ */
+export function getFixturesDir(): string {
+  return process.env.GUT_MOCK_FIXTURES || join(process.cwd(), '.gut', 'fixtures')
+}
+
+// Context that changes between runs of the same request (the changelog's release date), left out
+// of prompt hashes so that a recording still replays on a later day
+const VOLATILE_CONTEXT = /<todayDate>\n[^\n]*\n<\/todayDate>\n/g
+
+/**
+ * Hash a prompt for use in fixture file names
+ */
+export function hashPrompt(prompt: string): string {
+  return createHash('sha256')
+    .update(prompt.replace(VOLATILE_CONTEXT, ''))
+    .digest('hex')
+    .slice(0, 16)
+}
+
+/**
+ * Get the template name a call was built from (set via providerOptions.gut.template)
+ */
+export function getCallTemplate(options: LanguageModelV1CallOptions): string {
+  const template = options.providerMetadata?.gut?.template
+  return typeof template === 'string' ? template : 'default'
+}
+
+/**
+ * Get the prompt text built by gut for a call.
+ * Only user messages are included: the AI SDK may inject provider-specific system
+ * instructions (e.g. the JSON schema), which must not affect the prompt hash.
+ */
+export function getPromptText(options: LanguageModelV1CallOptions): string {
+  return options.prompt
+    .filter((message) => message.role === 'user')
+    .map((message) =>
+      message.content.map((part) => (part.type === 'text' ? part.text : '')).join('')
+    )
+    .join('\n')
+}
+
+/**
+ * Get the fixture file path for a template and prompt hash.
+ * Without a hash, returns the path of the template's canned response.
+ */
+export function getFixturePath(dir: string, template: string, promptHash?: string): string {
+  return join(dir, promptHash ? `${template}-${promptHash}.json` : `${template}.json`)
+}
+
+function readFixture(path: string): string | null {
+  if (!existsSync(path)) return null
+  const fixture = JSON.parse(readFileSync(path, 'utf-8')) as Fixture
+  return typeof fixture.response === 'string' ? fixture.response : JSON.stringify(fixture.response)
+}
+
+/**
+ * Build a deterministic value matching a JSON schema
+ */
+function sampleFromSchema(schema: Record<string, unknown>, key: string = 'value'): unknown {
+  if (Array.isArray(schema.enum)) {
+    return schema.enum[0]
+  }
+  switch (schema.type) {
+    case 'object': {
+      const properties = (schema.properties ?? {}) as Record<string, Record<string, unknown>>
+      return Object.fromEntries(
+        Object.entries(properties).map(([name, property]) => [
+          name,
+          sampleFromSchema(property, name)
+        ])
+      )
+    }
+    case 'array': {
+      const minItems = typeof schema.minItems === 'number' ? schema.minItems : 0
+      const items = (schema.items ?? {}) as Record<string, unknown>
+      return Array.from({ length: minItems }, () => sampleFromSchema(items, key))
+    }
+    case 'number':
+    case 'integer':
+      return 0
+    case 'boolean':
+      return false
+    default:
+      return `mock ${key}`
+  }
+}
+
+function resolveResponse(
+  dir: string,
+  options: LanguageModelV1CallOptions,
+  strict: boolean
+): string {
+  const template = getCallTemplate(options)
+  const promptHash = hashPrompt(getPromptText(options))
+
+  // Priority 1: Response recorded for this exact prompt
+  // Priority 2: Canned response for the template
+  const fixture =
+    readFixture(getFixturePath(dir, template, promptHash)) ??
+    readFixture(getFixturePath(dir, template))
+  if (fixture !== null) {
+    return fixture
+  }
+
+  if (strict) {
+    throw new Error(
+      `No recorded response for ${template} (prompt ${promptHash}) in ${dir}. Record it first with --record.`
+    )
+  }
+
+  // Priority 3: Built-in deterministic response
+  if (options.mode.type === 'object-json' && options.mode.schema) {
+    return JSON.stringify(sampleFromSchema(options.mode.schema as Record<string, unknown>))
+  }
+  return DEFAULT_TEXT_RESPONSES[template] ?? `mock response for ${template}`
+}
+
+/**
+ * Create an offline model that answers from fixtures instead of calling a provider.
+ * Responses are looked up by template name and prompt hash, so runs are fully deterministic.
+ *
+ * @param modelId - Model name reported to the AI SDK
+ * @param fixturesDir - Directory containing fixture files
+ * @param strict - Fail instead of falling back to built-in responses (used for cassette replay)
+ */
+export function createMockModel(
+  modelId: string = 'mock',
+  fixturesDir: string = getFixturesDir(),
+  strict: boolean = false
+): LanguageModelV1 {
+  return {
+    specificationVersion: 'v1',
+    provider: 'mock',
+    modelId,
+    defaultObjectGenerationMode: 'json',
+    async doGenerate(options) {
+      const text = resolveResponse(fixturesDir, options, strict)
+      return {
+        text,
+        finishReason: 'stop',
+        usage: {
+          promptTokens: estimateTokens(getPromptText(options)),
+          completionTokens: estimateTokens(text)
+        },
+        rawCall: { rawPrompt: options.prompt, rawSettings: {} }
+      }
+    },
+    async doStream(options) {
+      const text = resolveResponse(fixturesDir, options, strict)
+      const parts: LanguageModelV1StreamPart[] = [
+        ...(text.match(/[\s\S]{1,16}/g) ?? []).map((textDelta) => ({
+          type: 'text-delta' as const,
+          textDelta
+        })),
+        {
+          type: 'finish',
+          finishReason: 'stop',
+          usage: {
+            promptTokens: estimateTokens(getPromptText(options)),
+            completionTokens: estimateTokens(text)
+          }
+        }
+      ]
+      return {
+        stream: new ReadableStream<LanguageModelV1StreamPart>({
+          start(controller) {
+            for (const part of parts) {
+              controller.enqueue(part)
+            }
+            controller.close()
+          }
+        }),
+        rawCall: { rawPrompt: options.prompt, rawSettings: {} }
+      }
+    }
+  }
+}
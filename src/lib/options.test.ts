@@ -0,0 +1,41 @@
+import { Command } from 'commander'
+import { describe, expect, it, vi } from 'vitest'
+
+vi.mock('./config.js', () => ({
+  getProviderProfileNames: vi.fn(() => ['vllm'])
+}))
+
+import { getProviderProfileNames } from './config.js'
+import { providerOption } from './options.js'
+
+function createCommand(): Command {
+  return new Command('test')
+    .addOption(providerOption())
+    .exitOverride()
+    .configureOutput({ writeErr: () => {} })
+    .action(() => {})
+}
+
+describe('providerOption', () => {
+  it('should not read provider profiles until the option is used', () => {
+    createCommand()
+
+    expect(getProviderProfileNames).not.toHaveBeenCalled()
+  })
+
+  it('should accept built-in providers and provider profiles', async () => {
+    const command = createCommand()
+
+    await command.parseAsync(['-p', 'vllm'], { from: 'user' })
+    expect(command.opts().provider).toBe('vllm')
+
+    await command.parseAsync(['-p', 'openai'], { from: 'user' })
+    expect(command.opts().provider).toBe('openai')
+  })
+
+  it('should reject unknown providers', async () => {
+    await expect(createCommand().parseAsync(['-p', 'unknown'], { from: 'user' })).rejects.toThrow(
+      'Allowed choices are gemini, openai, anthropic, ollama, mock, vllm.'
+    )
+  })
+})
@@ -1,13 +1,28 @@
-import { Option } from 'commander'
+import { InvalidArgumentError, Option } from 'commander'
+import { getProviderProfileNames } from './config.js'
 import { PROVIDERS } from './credentials.js'
 
 export const BRANCH_TYPES = ['feature', 'fix', 'hotfix', 'chore', 'refactor'] as const
 
 /**
- * Create a provider option with choices
+ * Get the providers that can be chosen: built-in providers and configured provider profiles
+ */
+export function getProviderChoices(): string[] {
+  return [...PROVIDERS, ...getProviderProfileNames()]
+}
+
+/**
+ * Create a provider option. Provider profiles are read from config only when the option is
+ * used, so defining commands never touches the config or git.
  */
 export function providerOption(): Option {
-  return new Option('-p, --provider <provider>', 'AI provider').choices([...PROVIDERS])
+  return new Option('-p, --provider <provider>', 'AI provider').argParser((value: string) => {
+    const choices = getProviderChoices()
+    if (!choices.includes(value)) {
+      throw new InvalidArgumentError(`Allowed choices are ${choices.join(', ')}.`)
+    }
+    return value
+  })
 }
 
 /**
@@ -16,3 +31,11 @@ export function providerOption(): Option {
 export function branchTypeOption(): Option {
   return new Option('-t, --type <type>', 'Branch type').choices([...BRANCH_TYPES])
 }
+
+/**
+ * Whether AI output should be streamed to the terminal as it arrives.
+ * Only used for interactive terminals, never for JSON output or with --no-stream.
+ */
+export function shouldStream(options: { stream?: boolean; json?: boolean }): boolean {
+  return options.stream !== false && !options.json && process.stdout.isTTY === true
+}
@@ -0,0 +1,98 @@
+import { generateObject, generateText } from 'ai'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { z } from 'zod'
+import {
+  createPreviewModel,
+  formatCallPreview,
+  onPreviewExit,
+  PREVIEW_DIFF_SUMMARY
+} from './preview.js'
+
+describe('formatCallPreview', () => {
+  it('should include every message and mark plain text output', () => {
+    const preview = formatCallPreview(
+      {
+        inputFormat: 'prompt',
+        mode: { type: 'regular' },
+        prompt: [
+          { role: 'system', content: 'Be brief.' },
+          { role: 'user', content: [{ type: 'text', text: '<context>diff</context>' }] }
+        ],
+        providerMetadata: { gut: { template: 'commit' } }
+      },
+      'gemini',
+      'gemini-2.5-flash'
+    )
+
+    expect(preview).toContain('template: commit, provider: gemini, model: gemini-2.5-flash')
+    expect(preview).toContain('[system]\nBe brief.')
+    expect(preview).toContain('[user]\n<context>diff</context>')
+    expect(preview).toContain('=== Schema ===\n(plain text)')
+  })
+})
+
+describe('createPreviewModel', () => {
+  const mockExit = vi.spyOn(process, 'exit').mockImplementation(() => {
+    throw new Error('process.exit called')
+  })
+  const mockLog = vi.spyOn(console, 'log').mockImplementation(() => {})
+
+  afterEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should print the prompt and exit without answering', async () => {
+    const model = createPreviewModel('openai', 'gpt-4.1-mini')
+
+    await expect(generateText({ model, prompt: 'full prompt', maxRetries: 0 })).rejects.toThrow(
+      'process.exit called'
+    )
+
+    expect(mockExit).toHaveBeenCalledWith(0)
+    expect(mockLog.mock.calls[0][0]).toContain('[user]\nfull prompt')
+  })
+
+  it('should print the output schema without injecting it into the prompt', async () => {
+    const model = createPreviewModel('openai', 'gpt-4.1-mini')
+
+    await expect(
+      generateObject({
+        model,
+        schema: z.object({ title: z.string().describe('PR title') }),
+        prompt: 'full prompt',
+        maxRetries: 0
+      })
+    ).rejects.toThrow('process.exit called')
+
+    const output = mockLog.mock.calls[0][0] as string
+    expect(output).not.toContain('[system]')
+    expect(output).toContain('"title"')
+    expect(output).toContain('PR title')
+  })
+
+  it('should answer diff summary calls with a placeholder', async () => {
+    const model = createPreviewModel('ollama', 'llama3.3')
+
+    const result = await generateText({
+      model,
+      prompt: 'Summarize this part of the diff',
+      providerOptions: { gut: { template: 'diff-summary' } }
+    })
+
+    expect(result.text).toBe(PREVIEW_DIFF_SUMMARY)
+    expect(mockLog).not.toHaveBeenCalled()
+    expect(mockExit).not.toHaveBeenCalled()
+  })
+
+  it('should run exit handlers before exiting', async () => {
+    const handler = vi.fn(() => Promise.resolve())
+    onPreviewExit(handler)
+    const model = createPreviewModel('openai', 'gpt-4.1-mini')
+
+    await expect(generateText({ model, prompt: 'full prompt', maxRetries: 0 })).rejects.toThrow(
+      'process.exit called'
+    )
+
+    expect(handler).toHaveBeenCalledTimes(1)
+  })
+})
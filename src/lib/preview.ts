@@ -0,0 +1,110 @@
+import type { LanguageModelV1, LanguageModelV1CallOptions, LanguageModelV1StreamPart } from 'ai'
+import { getCallTemplate } from './mock.js'
+
+// Stands in for the summaries of over-budget diffs, which are made before the command's own call
+export const PREVIEW_DIFF_SUMMARY =
+  '(summary of this part of the diff, generated by the AI when not previewing)'
+
+let showPrompt = false
+const exitHandlers: (() => Promise<unknown>)[] = []
+
+/**
+ * Enable prompt preview for this process (--dry-run / --show-prompt).
+ * AI calls then print what would be sent and exit instead of calling the provider.
+ */
+export function setShowPrompt(enabled: boolean): void {
+  showPrompt = enabled
+}
+
+export function getShowPrompt(): boolean {
+  return showPrompt
+}
+
+/**
+ * Register a handler that undoes a command's preparation (e.g. an in-progress merge)
+ * before the prompt preview exits
+ */
+export function onPreviewExit(handler: () => Promise<unknown>): void {
+  exitHandlers.push(handler)
+}
+
+/**
+ * Format a call the way it would be sent: every prompt message, then the output schema
+ */
+export function formatCallPreview(
+  params: LanguageModelV1CallOptions,
+  provider: string,
+  modelId: string
+): string {
+  const lines = [
+    `=== Prompt (template: ${getCallTemplate(params)}, provider: ${provider}, model: ${modelId}) ===`
+  ]
+  for (const message of params.prompt) {
+    const content =
+      typeof message.content === 'string'
+        ? message.content
+        : message.content.map((part) => (part.type === 'text' ? part.text : '')).join('')
+    lines.push('', `[${message.role}]`, content)
+  }
+
+  const schema =
+    params.mode.type === 'object-json'
+      ? params.mode.schema
+      : params.mode.type === 'object-tool'
+        ? params.mode.tool.parameters
+        : undefined
+  lines.push('', '=== Schema ===', schema ? JSON.stringify(schema, null, 2) : '(plain text)')
+  return lines.join('\n')
+}
+
+/**
+ * Create a model that prints the command's call and exits without calling the provider.
+ * Diff summary calls are answered with a placeholder, so the preview shows the command's own
+ * prompt rather than a summary prompt.
+ * It reports structured output support, so the AI SDK doesn't inject the schema into the prompt.
+ */
+export function createPreviewModel(provider: string, modelId: string): LanguageModelV1 {
+  const usage = { promptTokens: 0, completionTokens: 0 }
+
+  async function preview(params: LanguageModelV1CallOptions): Promise<never> {
+    // Clear any spinner line before printing
+    if (process.stderr.isTTY) {
+      process.stderr.write('\r\x1b[K')
+    }
+    console.log(formatCallPreview(params, provider, modelId))
+    for (const handler of exitHandlers) {
+      await handler().catch(() => {})
+    }
+    process.exit(0)
+  }
+
+  return {
+    specificationVersion: 'v1',
+    provider,
+    modelId,
+    defaultObjectGenerationMode: 'json',
+    supportsStructuredOutputs: true,
+    async doGenerate(params) {
+      if (getCallTemplate(params) !== 'diff-summary') return preview(params)
+      return {
+        text: PREVIEW_DIFF_SUMMARY,
+        finishReason: 'stop',
+        usage,
+        rawCall: { rawPrompt: params.prompt, rawSettings: {} }
+      }
+    },
+    async doStream(params) {
+      if (getCallTemplate(params) !== 'diff-summary') return preview(params)
+      return {
+        stream: new ReadableStream<LanguageModelV1StreamPart>({
+          start(controller) {
+            controller.enqueue({ type: 'text-delta', textDelta: PREVIEW_DIFF_SUMMARY })
+            controller.enqueue({ type: 'finish', finishReason: 'stop', usage })
+            controller.close()
+          }
+        }),
+        rawCall: { rawPrompt: params.prompt, rawSettings: {} }
+      }
+    }
+  }
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest'
+import type { CodeReview } from './ai.js'
+import { formatGitHubAnnotations, formatJUnit, formatSarif } from './review-formats.js'
+
+const review: CodeReview = {
+  summary: 'Mostly fine',
+  issues: [
+    {
+      severity: 'critical',
+      file: 'src/db.ts',
+      line: 12,
+      message: 'SQL built from <input>',
+      suggestion: 'Use a parameterized query'
+    },
+    { severity: 'suggestion', file: 'src/util.ts', message: 'Extract helper' }
+  ],
+  positives: []
+}
+
+describe('formatSarif', () => {
+  it('should report each issue as a result with its location and level', () => {
+    const sarif = JSON.parse(formatSarif(review))
+
+    expect(sarif.version).toBe('2.1.0')
+    expect(sarif.runs[0].tool.driver.name).toBe('gut')
+    expect(sarif.runs[0].tool.driver.informationUri).toBe('https://github.com/gitton-dev/gut')
+    expect(sarif.runs[0].results).toEqual([
+      {
+        ruleId: 'gut/critical',
+        ruleIndex: 0,
+        level: 'error',
+        message: { text: 'SQL built from <input>\n\nSuggestion: Use a parameterized query' },
+        locations: [
+          {
+            physicalLocation: {
+              artifactLocation: { uri: 'src/db.ts' },
+              region: { startLine: 12 }
+            }
+          }
+        ]
+      },
+      {
+        ruleId: 'gut/suggestion',
+        ruleIndex: 2,
+        level: 'note',
+        message: { text: 'Extract helper' },
+        locations: [{ physicalLocation: { artifactLocation: { uri: 'src/util.ts' } } }]
+      }
+    ])
+  })
+})
+
+describe('formatJUnit', () => {
+  it('should report each issue as an escaped failed test case', () => {
+    const xml = formatJUnit(review)
+
+    expect(xml).toContain('<testsuite name="gut review" tests="2" failures="2" errors="0">')
+    expect(xml).toContain(
+      '<testcase classname="src/db.ts" name="src/db.ts:12 SQL built from &lt;input&gt;">'
+    )
+    expect(xml).toContain('<failure type="suggestion" message="Extract helper">')
+  })
+
+  it('should report a passing test case when there are no issues', () => {
+    const xml = formatJUnit({ ...review, issues: [] })
+
+    expect(xml).toContain('tests="1" failures="0"')
+    expect(xml).toContain('<testcase classname="gut review" name="No issues found"/>')
+  })
+})
+
+describe('formatGitHubAnnotations', () => {
+  it('should emit one workflow command per issue', () => {
+    expect(formatGitHubAnnotations(review).split('\n')).toEqual([
+      '::error file=src/db.ts,line=12,title=gut review (critical)::SQL built from <input>%0A%0ASuggestion: Use a parameterized query',
+      '::notice file=src/util.ts,title=gut review (suggestion)::Extract helper'
+    ])
+  })
+
+  it('should escape properties', () => {
+    const output = formatGitHubAnnotations({
+      ...review,
+      issues: [{ severity: 'warning', file: 'a,b:c.ts', message: '100% sure' }]
+    })
+
+    expect(output).toBe('::warning file=a%2Cb%3Ac.ts,title=gut review (warning)::100%25 sure')
+  })
+})
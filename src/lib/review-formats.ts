@@ -0,0 +1,128 @@
+import type { CodeReview } from './ai.js'
+
+type ReviewIssue = CodeReview['issues'][number]
+type Severity = ReviewIssue['severity']
+
+export const REVIEW_FORMATS = ['text', 'json', 'sarif', 'junit', 'github'] as const
+
+export type ReviewFormat = (typeof REVIEW_FORMATS)[number]
+
+const SARIF_LEVELS: Record<Severity, string> = {
+  critical: 'error',
+  warning: 'warning',
+  suggestion: 'note'
+}
+
+const ANNOTATION_COMMANDS: Record<Severity, string> = {
+  critical: 'error',
+  warning: 'warning',
+  suggestion: 'notice'
+}
+
+function describeIssue(issue: ReviewIssue): string {
+  return issue.suggestion ? `${issue.message}\n\nSuggestion: ${issue.suggestion}` : issue.message
+}
+
+/**
+ * Format a review as a SARIF 2.1.0 log for code scanning upload
+ */
+export function formatSarif(review: CodeReview): string {
+  const severities: Severity[] = ['critical', 'warning', 'suggestion']
+  const sarif = {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: 'gut',
+            informationUri: 'https://github.com/gitton-dev/gut',
+            rules: severities.map((severity) => ({
+              id: `gut/${severity}`,
+              shortDescription: { text: `AI code review ${severity}` },
+              defaultConfiguration: { level: SARIF_LEVELS[severity] }
+            }))
+          }
+        },
+        results: review.issues.map((issue) => ({
+          ruleId: `gut/${issue.severity}`,
+          ruleIndex: severities.indexOf(issue.severity),
+          level: SARIF_LEVELS[issue.severity],
+          message: { text: describeIssue(issue) },
+          locations: [
+            {
+              physicalLocation: {
+                artifactLocation: { uri: issue.file },
+                ...(issue.line ? { region: { startLine: issue.line } } : {})
+              }
+            }
+          ]
+        }))
+      }
+    ]
+  }
+  return JSON.stringify(sarif, null, 2)
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+/**
+ * Format a review as a JUnit XML report, with each issue as a failed test case
+ */
+export function formatJUnit(review: CodeReview): string {
+  const count = review.issues.length
+  const testcases =
+    count === 0
+      ? ['    <testcase classname="gut review" name="No issues found"/>']
+      : review.issues.map((issue) => {
+          const location = `${issue.file}${issue.line ? `:${issue.line}` : ''}`
+          return [
+            `    <testcase classname="${escapeXml(issue.file)}" name="${escapeXml(`${location} ${issue.message}`)}">`,
+            `      <failure type="${issue.severity}" message="${escapeXml(issue.message)}">${escapeXml(describeIssue(issue))}</failure>`,
+            '    </testcase>'
+          ].join('\n')
+        })
+
+  const tests = Math.max(count, 1)
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="gut review" tests="${tests}" failures="${count}">`,
+    `  <testsuite name="gut review" tests="${tests}" failures="${count}" errors="0">`,
+    ...testcases,
+    '  </testsuite>',
+    '</testsuites>'
+  ].join('\n')
+}
+
+// Workflow command escaping: https://github.com/actions/toolkit/blob/main/packages/core/src/command.ts
+function escapeAnnotationData(text: string): string {
+  return text.replace(/%/g, '%25').replace(/\r/g, '%0D').replace(/\n/g, '%0A')
+}
+
+function escapeAnnotationProperty(text: string): string {
+  return escapeAnnotationData(text).replace(/:/g, '%3A').replace(/,/g, '%2C')
+}
+
+/**
+ * Format a review as GitHub Actions workflow commands, one annotation per issue
+ */
+export function formatGitHubAnnotations(review: CodeReview): string {
+  return review.issues
+    .map((issue) => {
+      const properties = [
+        `file=${escapeAnnotationProperty(issue.file)}`,
+        ...(issue.line ? [`line=${issue.line}`] : []),
+        `title=${escapeAnnotationProperty(`gut review (${issue.severity})`)}`
+      ]
+      const command = ANNOTATION_COMMANDS[issue.severity]
+      return `::${command} ${properties.join(',')}::${escapeAnnotationData(describeIssue(issue))}`
+    })
+    .join('\n')
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest'
+import type { CodeReview } from './ai.js'
+import { getGateFailures } from './review-gate.js'
+
+const review: CodeReview = {
+  summary: 'Some problems',
+  issues: [
+    { severity: 'warning', file: 'a.ts', message: 'Unused variable' },
+    { severity: 'warning', file: 'b.ts', message: 'Missing await' },
+    { severity: 'suggestion', file: 'c.ts', message: 'Rename' }
+  ],
+  positives: []
+}
+
+describe('getGateFailures', () => {
+  it('should pass without a gate', () => {
+    expect(getGateFailures(review, {})).toEqual([])
+  })
+
+  it('should count issues at or above the failOn severity', () => {
+    expect(getGateFailures(review, { failOn: 'critical' })).toEqual([])
+    expect(getGateFailures(review, { failOn: 'warning' })).toEqual([
+      '2 critical/warning issues (failing on warning)'
+    ])
+    expect(getGateFailures(review, { failOn: 'suggestion' })).toEqual([
+      '3 critical/warning/suggestion issues (failing on suggestion)'
+    ])
+  })
+
+  it('should fail when warnings exceed maxWarnings', () => {
+    expect(getGateFailures(review, { maxWarnings: 2 })).toEqual([])
+    expect(getGateFailures(review, { maxWarnings: 1 })).toEqual(['2 warnings (at most 1 allowed)'])
+  })
+})
@@ -0,0 +1,51 @@
+import type { CodeReview } from './ai.js'
+
+// From most to least severe
+export const REVIEW_SEVERITIES = ['critical', 'warning', 'suggestion'] as const
+
+export type ReviewSeverity = (typeof REVIEW_SEVERITIES)[number]
+
+/**
+ * Conditions under which a review fails, e.g. to block a merge in CI
+ */
+export interface ReviewGate {
+  failOn?: ReviewSeverity // Fail on any issue at or above this severity
+  maxWarnings?: number // Fail when there are more warnings than this
+}
+
+export function isReviewSeverity(value: unknown): value is ReviewSeverity {
+  return (REVIEW_SEVERITIES as readonly unknown[]).includes(value)
+}
+
+/**
+ * Check a review against a gate
+ *
+ * @returns Why the review fails, empty when it passes
+ */
+export function getGateFailures(review: CodeReview, gate: ReviewGate): string[] {
+  const failures: string[] = []
+
+  if (gate.failOn) {
+    const threshold = REVIEW_SEVERITIES.indexOf(gate.failOn)
+    const count = review.issues.filter(
+      (issue) => REVIEW_SEVERITIES.indexOf(issue.severity) <= threshold
+    ).length
+    if (count > 0) {
+      const severities = REVIEW_SEVERITIES.slice(0, threshold + 1).join('/')
+      failures.push(
+        `${count} ${severities} issue${count === 1 ? '' : 's'} (failing on ${gate.failOn})`
+      )
+    }
+  }
+
+  if (gate.maxWarnings !== undefined) {
+    const count = review.issues.filter((issue) => issue.severity === 'warning').length
+    if (count > gate.maxWarnings) {
+      failures.push(
+        `${count} warning${count === 1 ? '' : 's'} (at most ${gate.maxWarnings} allowed)`
+      )
+    }
+  }
+
+  return failures
+}
@@ -0,0 +1,89 @@
+import { mkdirSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { getScopeDirs, getWorkspacePatterns, inferScopes, listWorkspaceDirs } from './scopes.js'
+
+describe('scopes', () => {
+  const testRepo = join(tmpdir(), 'gut-test-scopes')
+
+  beforeEach(() => {
+    for (const dir of ['packages/api', 'packages/web', 'packages/.cache', 'apps/docs', 'tools']) {
+      mkdirSync(join(testRepo, dir), { recursive: true })
+    }
+  })
+
+  afterEach(() => {
+    rmSync(testRepo, { recursive: true, force: true })
+  })
+
+  describe('getWorkspacePatterns', () => {
+    it('should read package.json workspaces', () => {
+      writeFileSync(
+        join(testRepo, 'package.json'),
+        JSON.stringify({ workspaces: { packages: ['packages/*'] } })
+      )
+
+      expect(getWorkspacePatterns(testRepo)).toEqual(['packages/*'])
+    })
+
+    it('should read pnpm-workspace.yaml packages', () => {
+      writeFileSync(
+        join(testRepo, 'pnpm-workspace.yaml'),
+        "packages:\n  - 'packages/*'\n  - \"apps/docs\" # docs site\n  - '!packages/web'\ncatalog:\n  - ignored\n"
+      )
+
+      expect(getWorkspacePatterns(testRepo)).toEqual(['packages/*', 'apps/docs', '!packages/web'])
+    })
+  })
+
+  describe('listWorkspaceDirs', () => {
+    it('should expand wildcards, skip hidden and excluded directories', () => {
+      expect(
+        listWorkspaceDirs(testRepo, [
+          'packages/*',
+          './apps/docs',
+          '!packages/web',
+          'missing/*'
+        ]).sort()
+      ).toEqual(['apps/docs', 'packages/api'])
+    })
+  })
+
+  describe('getScopeDirs', () => {
+    it('should name workspaces by directory and apply the scopes map', () => {
+      writeFileSync(join(testRepo, 'package.json'), JSON.stringify({ workspaces: ['packages/*'] }))
+
+      expect(getScopeDirs(testRepo, { 'packages/web/': 'frontend', './tools': 'tooling' })).toEqual(
+        {
+          'packages/api': 'api',
+          'packages/web': 'frontend',
+          tools: 'tooling'
+        }
+      )
+    })
+  })
+
+  describe('inferScopes', () => {
+    const scopeDirs = { 'packages/api': 'api', 'packages/api/db': 'db', 'packages/web': 'web' }
+
+    it('should use the longest matching directory and order by number of files', () => {
+      expect(
+        inferScopes(
+          [
+            'packages/web/a.ts',
+            'packages/api/db/schema.ts',
+            'packages/web/b.ts',
+            'packages/api-client/index.ts',
+            'README.md'
+          ],
+          scopeDirs
+        )
+      ).toEqual(['web', 'db'])
+    })
+
+    it('should return no scopes for files outside any scope', () => {
+      expect(inferScopes(['README.md'], scopeDirs)).toEqual([])
+    })
+  })
+})
@@ -0,0 +1,114 @@
+import { existsSync, readdirSync, readFileSync, statSync } from 'node:fs'
+import { basename, join, posix } from 'node:path'
+
+/**
+ * Read workspace patterns from package.json (npm/yarn) and pnpm-workspace.yaml
+ */
+export function getWorkspacePatterns(repoRoot: string): string[] {
+  const patterns: string[] = []
+
+  const packagePath = join(repoRoot, 'package.json')
+  if (existsSync(packagePath)) {
+    try {
+      const workspaces = JSON.parse(readFileSync(packagePath, 'utf-8')).workspaces
+      // Yarn also accepts { packages: [...] }
+      const list = Array.isArray(workspaces) ? workspaces : workspaces?.packages
+      if (Array.isArray(list)) patterns.push(...list.map(String))
+    } catch {
+      // Ignore a broken package.json
+    }
+  }
+
+  const pnpmPath = join(repoRoot, 'pnpm-workspace.yaml')
+  if (existsSync(pnpmPath)) {
+    let inPackages = false
+    for (const line of readFileSync(pnpmPath, 'utf-8').split('\n')) {
+      if (/^packages:\s*$/.test(line)) {
+        inPackages = true
+      } else if (inPackages && /^\s+-\s+/.test(line)) {
+        patterns.push(
+          line
+            .replace(/^\s+-\s+/, '')
+            .replace(/\s+#.*$/, '')
+            .trim()
+            .replace(/^(['"])(.*)\1$/, '$2')
+        )
+      } else if (/^\S/.test(line)) {
+        inPackages = false
+      }
+    }
+  }
+
+  return patterns
+}
+
+function isDirectory(path: string): boolean {
+  try {
+    return statSync(path).isDirectory()
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Expand workspace patterns into package directories (relative to the repo root).
+ * Supports exact paths and a trailing `/*` or `/**`; negated patterns are excluded.
+ */
+export function listWorkspaceDirs(repoRoot: string, patterns: string[]): string[] {
+  const excluded = new Set(
+    patterns.filter((p) => p.startsWith('!')).map((p) => posix.normalize(p.slice(1)))
+  )
+  const dirs = new Set<string>()
+  for (const pattern of patterns.filter((p) => !p.startsWith('!'))) {
+    const normalized = posix.normalize(pattern.replace(/^\.\//, ''))
+    const wildcard = normalized.match(/^(.*?)\/\*\*?$/)
+    if (wildcard) {
+      const parent = wildcard[1]
+      const parentPath = join(repoRoot, parent)
+      if (!isDirectory(parentPath)) continue
+      for (const entry of readdirSync(parentPath)) {
+        if (!entry.startsWith('.') && isDirectory(join(parentPath, entry))) {
+          dirs.add(`${parent}/${entry}`)
+        }
+      }
+    } else if (!normalized.includes('*') && isDirectory(join(repoRoot, normalized))) {
+      dirs.add(normalized)
+    }
+  }
+  return [...dirs].filter((dir) => !excluded.has(dir))
+}
+
+/**
+ * Map directories to commit scopes: workspace packages by directory name,
+ * overridden by the configured `scopes` map (path prefix -> scope)
+ */
+export function getScopeDirs(
+  repoRoot: string,
+  scopeMap: Record<string, string> = {}
+): Record<string, string> {
+  const dirs: Record<string, string> = {}
+  for (const dir of listWorkspaceDirs(repoRoot, getWorkspacePatterns(repoRoot))) {
+    dirs[dir] = basename(dir)
+  }
+  for (const [path, scope] of Object.entries(scopeMap)) {
+    dirs[posix.normalize(path.replace(/^\.\//, '')).replace(/\/$/, '')] = scope
+  }
+  return dirs
+}
+
+/**
+ * Get the scopes of the changed files, most changed first.
+ * Each file belongs to the scope of its longest matching directory.
+ */
+export function inferScopes(files: string[], scopeDirs: Record<string, string>): string[] {
+  const dirs = Object.keys(scopeDirs).sort((a, b) => b.length - a.length)
+  const counts = new Map<string, number>()
+  for (const file of files) {
+    const dir = dirs.find((d) => file === d || file.startsWith(`${d}/`))
+    if (dir) {
+      const scope = scopeDirs[dir]
+      counts.set(scope, (counts.get(scope) ?? 0) + 1)
+    }
+  }
+  return [...counts.entries()].sort((a, b) => b[1] - a[1]).map(([scope]) => scope)
+}
@@ -0,0 +1,201 @@
+import type { LanguageModelV1Middleware, LanguageModelV1Prompt } from 'ai'
+import { matchesGlob } from './glob.js'
+
+export interface SecretPattern {
+  name: string
+  pattern: RegExp // A `secret` group, when present, is the part to mask
+}
+
+// Credentials with a recognizable format
+export const SECRET_PATTERNS: SecretPattern[] = [
+  {
+    name: 'private key',
+    pattern:
+      /-----BEGIN [A-Z ]*PRIVATE KEY-----(?:[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----|(?:\n[+\- ]?[A-Za-z0-9+/=]+)*)/
+  },
+  { name: 'AWS access key', pattern: /\bAKIA[0-9A-Z]{16}\b/ },
+  { name: 'GitHub token', pattern: /\bgh[pousr]_[A-Za-z0-9]{36,}\b/ },
+  { name: 'API key', pattern: /\bsk-[A-Za-z0-9_-]{20,}/ },
+  { name: 'Slack token', pattern: /\bxox[abprs]-[A-Za-z0-9-]{10,}/ },
+  {
+    name: 'hard-coded credential',
+    pattern:
+      /\b(api[_-]?key|secret|password|passwd|token)\b["']?\s*[:=]\s*["'](?<secret>[^"'\s]{8,})["']/i
+  }
+]
+
+// Shell and dotenv assignments to variables named like credentials, e.g. DB_PASSWORD=...
+const ENV_CREDENTIAL: SecretPattern = {
+  name: 'credential variable',
+  pattern:
+    /^[+\- ]?\s*(?:export\s+)?[A-Z0-9_]*(?:SECRET|TOKEN|PASSWORD|PASSWD|API_KEY|PRIVATE_KEY)[A-Z0-9_]*=(?<secret>[^\s"'`]{8,})/m
+}
+
+// Dotenv files, except checked-in examples such as .env.example
+const ENV_FILE = /(^|\/)\.env(\.(?!example$|sample$|template$)[\w.-]+)?$/
+const ENV_ASSIGNMENT = /^([+\- ]?\s*(?:export\s+)?[A-Za-z_][A-Za-z0-9_]*\s*=\s*)(\S.*)$/gm
+
+// Long random-looking tokens: mixed case and digits with high Shannon entropy
+const ENTROPY_CANDIDATE = /[A-Za-z0-9+/_-]{32,}={0,2}/g
+const MIN_ENTROPY = 4.2
+
+const DIFF_HEADER = /^diff --git a\/(.+?) b\/(.+)$/gm
+
+function mask(name: string): string {
+  return `[REDACTED ${name}]`
+}
+
+/**
+ * Check whether a path is a dotenv file, other than a checked-in example
+ */
+export function isEnvFile(path: string): boolean {
+  return ENV_FILE.test(path)
+}
+
+/**
+ * Mask the value of every assignment in dotenv content
+ *
+ * @param found - Receives one entry per masked value
+ */
+export function redactEnvValues(content: string, found: string[] = []): string {
+  return content.replace(ENV_ASSIGNMENT, (_match, assignment: string) => {
+    found.push('.env value')
+    return `${assignment}${mask('.env value')}`
+  })
+}
+
+function shannonEntropy(text: string): number {
+  const counts = new Map<string, number>()
+  for (const char of text) {
+    counts.set(char, (counts.get(char) ?? 0) + 1)
+  }
+  let entropy = 0
+  for (const count of counts.values()) {
+    const p = count / text.length
+    entropy -= p * Math.log2(p)
+  }
+  return entropy
+}
+
+function isHighEntropy(token: string): boolean {
+  return (
+    /[a-z]/.test(token) &&
+    /[A-Z]/.test(token) &&
+    /\d/.test(token) &&
+    shannonEntropy(token) >= MIN_ENTROPY
+  )
+}
+
+/**
+ * Mask possible secrets in text sent to an AI provider: known credential formats, credential
+ * variables, the values in dotenv files and high-entropy strings
+ *
+ * @returns The masked text and the kind of each masked secret
+ */
+export function redactSecrets(text: string): { text: string; found: string[] } {
+  const found: string[] = []
+
+  // Every value in a dotenv file's diff
+  let redacted = text
+    .split(/^(?=diff --git )/m)
+    .map((part) => {
+      const file = part.match(/^diff --git a\/.+? b\/(.+)$/m)?.[1]
+      if (!file || !isEnvFile(file)) return part
+      const [header, ...hunks] = part.split(/^(?=@@)/m)
+      return [header, ...hunks.map((hunk) => redactEnvValues(hunk, found))].join('')
+    })
+    .join('')
+
+  for (const { name, pattern } of [...SECRET_PATTERNS, ENV_CREDENTIAL]) {
+    const global = new RegExp(pattern.source, `${pattern.flags}g`)
+    redacted = redacted.replace(global, (match: string, ...args: unknown[]) => {
+      // Named groups are passed last, when the pattern has any
+      const groups = args[args.length - 1]
+      const secret =
+        typeof groups === 'object'
+          ? (groups as Record<string, string | undefined>).secret
+          : undefined
+      // Already masked by a more specific pattern
+      if (secret?.startsWith('[REDACTED')) return match
+      found.push(name)
+      return secret ? match.replace(secret, mask(name)) : mask(name)
+    })
+  }
+
+  redacted = redacted.replace(ENTROPY_CANDIDATE, (token) => {
+    if (!isHighEntropy(token)) return token
+    found.push('high-entropy string')
+    return mask('high-entropy string')
+  })
+
+  return { text: redacted, found }
+}
+
+/**
+ * Get the old and new paths of the files in the diffs of a text
+ */
+export function getDiffPaths(text: string): string[] {
+  const paths = new Set<string>()
+  for (const match of text.matchAll(DIFF_HEADER)) {
+    paths.add(match[1])
+    paths.add(match[2])
+  }
+  return [...paths]
+}
+
+/**
+ * Throw when any of the paths matches the blocked path globs
+ */
+export function assertPathsAllowed(paths: string[], blockPaths: string[]): void {
+  const blocked = paths.filter((path) => matchesGlob(path, blockPaths))
+  if (blocked.length > 0) {
+    throw new Error(
+      `Not sending ${blocked.join(', ')} to the AI provider (matches secrets.blockPaths)`
+    )
+  }
+}
+
+export interface RedactionOptions {
+  redact: boolean // Mask possible secrets
+  blockPaths: string[] // Globs of files whose changes must never be sent
+  onRedact?: (found: string[]) => void
+}
+
+/**
+ * Create middleware that checks every prompt before it leaves the machine: calls that include
+ * changes to blocked paths fail, and possible secrets are masked
+ */
+export function createRedactionMiddleware(options: RedactionOptions): LanguageModelV1Middleware {
+  return {
+    transformParams: async ({ params }) => {
+      const found: string[] = []
+      const check = (text: string): string => {
+        assertPathsAllowed(getDiffPaths(text), options.blockPaths)
+        if (!options.redact) return text
+        const result = redactSecrets(text)
+        found.push(...result.found)
+        return result.text
+      }
+
+      const prompt = params.prompt.map((message) => {
+        if (message.role === 'system') {
+          return { ...message, content: check(message.content) }
+        }
+        if (message.role === 'user' || message.role === 'assistant') {
+          return {
+            ...message,
+            content: message.content.map((part) =>
+              part.type === 'text' ? { ...part, text: check(part.text) } : part
+            )
+          }
+        }
+        return message
+      }) as LanguageModelV1Prompt
+
+      if (found.length > 0) {
+        options.onRedact?.(found)
+      }
+      return { ...params, prompt }
+    }
+  }
+}
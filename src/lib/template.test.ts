@@ -0,0 +1,139 @@
+import { describe, expect, it } from 'vitest'
+import { parseTemplate, renderTemplate } from './template.js'
+
+describe('parseTemplate', () => {
+  it('should return the whole content when there is no front-matter', () => {
+    expect(parseTemplate('Write a commit message')).toEqual({
+      frontMatter: {},
+      body: 'Write a commit message'
+    })
+  })
+
+  it('should parse front-matter values', () => {
+    const { frontMatter, body } = parseTemplate(
+      '---\nautoContext: false\nname: "review rules"\nlimit: 3 # comment\n---\nBody'
+    )
+
+    expect(frontMatter).toEqual({ autoContext: false, name: 'review rules', limit: 3 })
+    expect(body).toBe('Body')
+  })
+
+  it('should parse model settings', () => {
+    const { frontMatter } = parseTemplate(
+      '---\nprovider: anthropic\nmodel: claude-sonnet-4-5\ntemperature: 0.3\nmaxTokens: 2048\nlanguage: ja\n---\nBody'
+    )
+
+    expect(frontMatter).toEqual({
+      provider: 'anthropic',
+      model: 'claude-sonnet-4-5',
+      temperature: 0.3,
+      maxTokens: 2048,
+      language: 'ja'
+    })
+  })
+
+  it('should reject invalid model settings', () => {
+    expect(() => parseTemplate('---\ntemperature: hot\n---\n')).toThrow(
+      'Invalid template temperature: hot'
+    )
+    expect(() => parseTemplate('---\nmaxTokens: 0\n---\n')).toThrow('Invalid template maxTokens: 0')
+    expect(() => parseTemplate('---\nlanguage: xx\n---\n')).toThrow('Invalid template language: xx')
+    expect(() => parseTemplate('---\nautoContext: maybe\n---\n')).toThrow(
+      'Invalid template autoContext: maybe'
+    )
+    expect(() => parseTemplate('---\nrender: yes\n---\n')).toThrow('Invalid template render: yes')
+  })
+
+  it('should parse YAML quoting, lists and comments', () => {
+    const { frontMatter } = parseTemplate(
+      '---\n# Shared review settings\nmodel: \'gpt-4.1: mini\'\ntags:\n  - security\n  - perf\nnote: "a # b" # trailing\n---\nBody'
+    )
+
+    expect(frontMatter).toEqual({
+      model: 'gpt-4.1: mini',
+      tags: ['security', 'perf'],
+      note: 'a # b'
+    })
+  })
+
+  it('should reject front-matter that is not key: value pairs', () => {
+    expect(() => parseTemplate('---\nnot a pair\n---\nBody')).toThrow(
+      'Invalid template front-matter: expected `key: value` pairs'
+    )
+    expect(() => parseTemplate('---\nmodel: [unclosed\n---\nBody')).toThrow(
+      'Invalid template front-matter:'
+    )
+    expect(() => parseTemplate('---\nmodel:\n  - a\n---\nBody')).toThrow(
+      'Invalid template model: a'
+    )
+  })
+})
+
+describe('renderTemplate', () => {
+  it('should substitute variables and leave missing ones empty', () => {
+    expect(
+      renderTemplate('Merge {{ currentBranch }} into {{baseBranch}}{{issue}}', {
+        currentBranch: 'feature',
+        baseBranch: 'main'
+      })
+    ).toBe('Merge feature into main')
+  })
+
+  it('should turn escaped braces into literal ones', () => {
+    expect(
+      renderTemplate('Write \\{{#if diff}}, not {{#if diff}}{{diff}}{{/if}} \\{{/if}}', {
+        diff: 'x'
+      })
+    ).toBe('Write {{#if diff}}, not x {{/if}}')
+  })
+
+  it('should render if/else and unless blocks', () => {
+    const template =
+      '{{#if issue}}Fixes #{{issue}}{{else}}No issue{{/if}}{{#unless diff}}, empty{{/unless}}'
+
+    expect(renderTemplate(template, { issue: '42', diff: 'x' })).toBe('Fixes #42')
+    expect(renderTemplate(template, { issue: '  ' })).toBe('No issue, empty')
+  })
+
+  it('should keep nested blocks separate from the outer block', () => {
+    const template =
+      '{{#if a}}{{#unless b}}B missing{{else}}B set{{/unless}}{{else}}A missing{{/if}}'
+
+    expect(renderTemplate(template, { a: '1', b: '1' })).toBe('B set')
+    expect(renderTemplate(template, { a: '1' })).toBe('B missing')
+    expect(renderTemplate(template, {})).toBe('A missing')
+  })
+
+  it('should render includes without their front-matter', () => {
+    const includes: Record<string, string> = {
+      'shared-rules': '---\nautoContext: false\n---\nUse {{style}} style. {{> footer}}',
+      footer: 'Thanks.'
+    }
+
+    expect(
+      renderTemplate(
+        'Rules: {{> shared-rules}}',
+        { style: 'imperative' },
+        (name) => includes[name] ?? null
+      )
+    ).toBe('Rules: Use imperative style. Thanks.')
+  })
+
+  it('should reject missing and recursive includes', () => {
+    expect(() => renderTemplate('{{> missing}}', {}, () => null)).toThrow(
+      'Template include not found: missing'
+    )
+    expect(() => renderTemplate('{{> self}}', {}, () => '{{> self}}')).toThrow(
+      'Template includes nested too deeply'
+    )
+  })
+
+  it('should reject malformed blocks', () => {
+    expect(() => renderTemplate('{{#each items}}{{/each}}', {})).toThrow(
+      'Unknown template block: {{#each}}'
+    )
+    expect(() => renderTemplate('{{#if diff}}no end', {})).toThrow('Unclosed {{#if}} block')
+    expect(() => renderTemplate('{{/if}}', {})).toThrow('Unexpected {{/if}}')
+    expect(() => renderTemplate('{{#if a}}{{/unless}}', {})).toThrow('Expected {{/if}}')
+  })
+})
@@ -0,0 +1,181 @@
+import { parse as parseYaml } from 'yaml'
+import { isValidLanguage, type Language } from './config.js'
+
+/**
+ * Settings a template can declare in YAML front-matter
+ */
+export interface TemplateFrontMatter {
+  autoContext?: boolean // Prepend all context as XML (default: true)
+  render?: boolean // Apply `{{...}}` syntax to the body (default: false, the body is sent as is)
+  provider?: string // Provider to run this template with
+  model?: string // Model to run this template with
+  temperature?: number
+  maxTokens?: number
+  language?: Language
+  [key: string]: unknown
+}
+
+export interface ParsedTemplate {
+  frontMatter: TemplateFrontMatter
+  body: string
+}
+
+export type TemplateContext = Record<string, string | undefined>
+
+// Resolve the content of an included template by name (null if not found)
+export type IncludeResolver = (name: string) => string | null
+
+// Includes may include other templates, up to this depth
+const MAX_INCLUDE_DEPTH = 5
+
+const FRONT_MATTER_PATTERN = /^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/
+
+/**
+ * Split a template into its YAML front-matter and body
+ */
+export function parseTemplate(content: string): ParsedTemplate {
+  const match = content.match(FRONT_MATTER_PATTERN)
+  if (!match) {
+    return { frontMatter: {}, body: content }
+  }
+
+  let parsed: unknown
+  try {
+    parsed = parseYaml(match[1])
+  } catch (error) {
+    throw new Error(
+      `Invalid template front-matter: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      { cause: error }
+    )
+  }
+  if (parsed !== null && (typeof parsed !== 'object' || Array.isArray(parsed))) {
+    throw new Error('Invalid template front-matter: expected `key: value` pairs')
+  }
+  const frontMatter = (parsed ?? {}) as TemplateFrontMatter
+  validateFrontMatter(frontMatter)
+  return { frontMatter, body: content.slice(match[0].length) }
+}
+
+function validateFrontMatter(frontMatter: TemplateFrontMatter): void {
+  for (const key of ['provider', 'model'] as const) {
+    const value = frontMatter[key]
+    if (value !== undefined && (typeof value !== 'string' || !value)) {
+      throw new Error(`Invalid template ${key}: ${value}`)
+    }
+  }
+  const { autoContext, render, temperature, maxTokens, language } = frontMatter
+  if (autoContext !== undefined && typeof autoContext !== 'boolean') {
+    throw new Error(`Invalid template autoContext: ${autoContext} (use true or false)`)
+  }
+  if (render !== undefined && typeof render !== 'boolean') {
+    throw new Error(`Invalid template render: ${render} (use true or false)`)
+  }
+  if (
+    temperature !== undefined &&
+    (typeof temperature !== 'number' || temperature < 0 || temperature > 2)
+  ) {
+    throw new Error(`Invalid template temperature: ${temperature} (use a number from 0 to 2)`)
+  }
+  if (maxTokens !== undefined && (!Number.isInteger(maxTokens) || maxTokens <= 0)) {
+    throw new Error(`Invalid template maxTokens: ${maxTokens} (use a positive integer)`)
+  }
+  if (language !== undefined && (typeof language !== 'string' || !isValidLanguage(language))) {
+    throw new Error(`Invalid template language: ${language}`)
+  }
+}
+
+/**
+ * Find the `{{else}}` and closing tag of the block opened just before `start`, skipping nested blocks
+ */
+function findBlockEnd(
+  template: string,
+  start: number,
+  tag: string
+): { elseStart?: number; end: number; closeLength: number } {
+  const pattern = /(?<!\\){{\s*(#(?:if|unless)\b[^}]*|else|\/(?:if|unless))\s*}}/g
+  pattern.lastIndex = start
+  let depth = 0
+  let elseStart: number | undefined
+  for (let match = pattern.exec(template); match; match = pattern.exec(template)) {
+    const token = match[1]
+    if (token.startsWith('#')) {
+      depth++
+    } else if (token === 'else') {
+      if (depth === 0 && elseStart === undefined) elseStart = match.index
+    } else if (depth > 0) {
+      depth--
+    } else if (token === `/${tag}`) {
+      return { elseStart, end: match.index, closeLength: match[0].length }
+    } else {
+      throw new Error(`Expected {{/${tag}}} but found {{${token}}} in template`)
+    }
+  }
+  throw new Error(`Unclosed {{#${tag}}} block in template`)
+}
+
+function isTruthy(value: string | undefined): boolean {
+  return value !== undefined && value.trim() !== ''
+}
+
+/**
+ * Render a template:
+ * - `{{name}}` inserts a context value (empty when missing)
+ * - `{{#if name}}...{{else}}...{{/if}}` and `{{#unless name}}...{{/unless}}` check for non-empty values
+ * - `{{> name}}` includes another template, resolved with `resolveInclude`
+ * - `\{{` stands for a literal `{{`
+ */
+export function renderTemplate(
+  template: string,
+  context: TemplateContext,
+  resolveInclude?: IncludeResolver,
+  depth: number = 0
+): string {
+  let output = ''
+  let position = 0
+  const tagPattern = /\\{{|{{\s*([#>/]?)\s*([\w-]+)(?:\s+([\w-]+))?\s*}}/g
+
+  for (let match = tagPattern.exec(template); match; match = tagPattern.exec(template)) {
+    const [tag, kind, name, argument] = match
+    output += template.slice(position, match.index)
+    position = match.index + tag.length
+
+    if (tag === '\\{{') {
+      output += '{{'
+    } else if (kind === '#') {
+      if (name !== 'if' && name !== 'unless') {
+        throw new Error(`Unknown template block: {{#${name}}}`)
+      }
+      if (!argument) {
+        throw new Error(`Missing variable in {{#${name}}} block`)
+      }
+      const block = findBlockEnd(template, position, name)
+      const thenPart = template.slice(position, block.elseStart ?? block.end)
+      const elsePart =
+        block.elseStart !== undefined
+          ? template.slice(block.elseStart, block.end).replace(/^{{\s*else\s*}}/, '')
+          : ''
+      const condition = isTruthy(context[argument])
+      const chosen = (name === 'if' ? condition : !condition) ? thenPart : elsePart
+      output += renderTemplate(chosen, context, resolveInclude, depth)
+      position = block.end + block.closeLength
+      tagPattern.lastIndex = position
+    } else if (kind === '>') {
+      if (depth >= MAX_INCLUDE_DEPTH) {
+        throw new Error(`Template includes nested too deeply at {{> ${name}}}`)
+      }
+      const included = resolveInclude?.(name)
+      if (included === null || included === undefined) {
+        throw new Error(`Template include not found: ${name}`)
+      }
+      output += renderTemplate(parseTemplate(included).body, context, resolveInclude, depth + 1)
+    } else if (kind === '/') {
+      throw new Error(`Unexpected {{/${name}}} without an opening block`)
+    } else if (name === 'else') {
+      throw new Error('Unexpected {{else}} outside of a block')
+    } else {
+      output += context[name] ?? ''
+    }
+  }
+
+  return output + template.slice(position)
+}
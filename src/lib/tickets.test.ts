@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest'
+import {
+  appendTicketReference,
+  DEFAULT_TICKET_PATTERN,
+  extractTicketKeys,
+  formatTicketReference
+} from './tickets.js'
+
+describe('tickets', () => {
+  describe('extractTicketKeys', () => {
+    it('should extract Jira-style keys with the default pattern', () => {
+      expect(extractTicketKeys('feature/PROJ-1234-add-login', [DEFAULT_TICKET_PATTERN])).toEqual([
+        'PROJ-1234'
+      ])
+      expect(extractTicketKeys('main', [DEFAULT_TICKET_PATTERN])).toEqual([])
+    })
+
+    it('should use the first capture group as the key', () => {
+      expect(extractTicketKeys('fix/gh-42-typo', ['gh-(\\d+)'])).toEqual(['42'])
+    })
+
+    it('should return unique keys from all patterns in order', () => {
+      expect(
+        extractTicketKeys('feature/PROJ-1-PROJ-2-PROJ-1', [DEFAULT_TICKET_PATTERN, 'PROJ-\\d'])
+      ).toEqual(['PROJ-1', 'PROJ-2'])
+    })
+
+    it('should reject invalid patterns', () => {
+      expect(() => extractTicketKeys('main', ['('])).toThrow('Invalid ticket pattern: (')
+    })
+  })
+
+  describe('formatTicketReference', () => {
+    it('should use the keyword for the format', () => {
+      expect(formatTicketReference(['PROJ-1'], 'refs')).toBe('Refs: PROJ-1')
+      expect(formatTicketReference(['PROJ-1', 'PROJ-2'], 'closes')).toBe('Closes: PROJ-1, PROJ-2')
+    })
+  })
+
+  describe('appendTicketReference', () => {
+    it('should add the reference as a new paragraph', () => {
+      expect(appendTicketReference('feat: add login\n', ['PROJ-1'], 'refs')).toBe(
+        'feat: add login\n\nRefs: PROJ-1'
+      )
+      expect(appendTicketReference('feat: add login\n\n- Add a form', ['PROJ-1'], 'closes')).toBe(
+        'feat: add login\n\n- Add a form\n\nCloses: PROJ-1'
+      )
+    })
+
+    it('should extend an existing trailer block', () => {
+      expect(
+        appendTicketReference(
+          'feat: add login\n\nSigned-off-by: Dev <dev@example.com>',
+          ['PROJ-1'],
+          'refs'
+        )
+      ).toBe('feat: add login\n\nSigned-off-by: Dev <dev@example.com>\nRefs: PROJ-1')
+    })
+
+    it('should only reference keys not mentioned yet', () => {
+      expect(appendTicketReference('feat(PROJ-1): add login', ['PROJ-1'], 'refs')).toBe(
+        'feat(PROJ-1): add login'
+      )
+      expect(appendTicketReference('feat(PROJ-1): add login', ['PROJ-1', 'PROJ-2'], 'refs')).toBe(
+        'feat(PROJ-1): add login\n\nRefs: PROJ-2'
+      )
+    })
+  })
+})
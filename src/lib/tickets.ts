@@ -0,0 +1,60 @@
+/**
+ * How ticket references are written: `Refs: PROJ-1` or `Closes: PROJ-1`
+ */
+export type TicketFormat = 'refs' | 'closes'
+
+// Jira-style keys such as PROJ-1234
+export const DEFAULT_TICKET_PATTERN = '[A-Z][A-Z0-9]+-\\d+'
+
+const TICKET_KEYWORDS: Record<TicketFormat, string> = {
+  refs: 'Refs',
+  closes: 'Closes'
+}
+
+/**
+ * Extract ticket keys from a branch name.
+ * Each pattern is a regular expression; its first capture group is the key when present,
+ * otherwise the whole match.
+ *
+ * @returns Unique keys in the order they appear
+ */
+export function extractTicketKeys(branch: string, patterns: string[]): string[] {
+  const keys: string[] = []
+  for (const pattern of patterns) {
+    let regex: RegExp
+    try {
+      regex = new RegExp(pattern, 'g')
+    } catch {
+      throw new Error(`Invalid ticket pattern: ${pattern}`)
+    }
+    for (const match of branch.matchAll(regex)) {
+      const key = match[1] ?? match[0]
+      if (key && !keys.includes(key)) keys.push(key)
+    }
+  }
+  return keys
+}
+
+/**
+ * Format the reference line for ticket keys, e.g. `Refs: PROJ-1, PROJ-2`
+ */
+export function formatTicketReference(keys: string[], format: TicketFormat): string {
+  return `${TICKET_KEYWORDS[format]}: ${keys.join(', ')}`
+}
+
+/**
+ * Append a reference to the tickets a commit message or PR body does not mention yet.
+ * A trailing block of `Token: value` lines (e.g. Signed-off-by) is extended rather than
+ * starting a new paragraph, so the reference stays a git trailer.
+ */
+export function appendTicketReference(text: string, keys: string[], format: TicketFormat): string {
+  const missing = keys.filter((key) => !text.includes(key))
+  if (missing.length === 0) return text
+
+  const trimmed = text.trimEnd()
+  const reference = formatTicketReference(missing, format)
+  const lastParagraph = trimmed.split(/\n\s*\n/).pop() ?? ''
+  const hasTrailers =
+    trimmed.includes('\n\n') && lastParagraph.split('\n').every((line) => /^[\w-]+: \S/.test(line))
+  return `${trimmed}${hasTrailers ? '\n' : '\n\n'}${reference}`
+}
@@ -0,0 +1,161 @@
+import { rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { generateText, simulateReadableStream, streamText, wrapLanguageModel } from 'ai'
+import { MockLanguageModelV1 } from 'ai/test'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+
+vi.mock('./config.js', () => ({
+  getModelPrice: vi.fn((model: string) =>
+    model === 'gpt-4.1-mini' ? { input: 0.4, output: 1.6 } : undefined
+  )
+}))
+
+import {
+  createUsageMiddleware,
+  estimateCost,
+  getBudgetWarning,
+  getMonthToDateCost,
+  readUsage,
+  setUsageCommand,
+  summarizeUsage,
+  type UsageEntry
+} from './usage.js'
+
+const model = new MockLanguageModelV1({
+  doGenerate: async () => ({
+    rawCall: { rawPrompt: null, rawSettings: {} },
+    finishReason: 'stop' as const,
+    usage: { promptTokens: 1000, completionTokens: 200 },
+    text: 'feat: add login'
+  }),
+  doStream: async () => ({
+    rawCall: { rawPrompt: null, rawSettings: {} },
+    stream: simulateReadableStream({
+      chunks: [
+        { type: 'text-delta' as const, textDelta: 'feat: add login' },
+        {
+          type: 'finish' as const,
+          finishReason: 'stop' as const,
+          usage: { promptTokens: 500, completionTokens: 100 }
+        }
+      ]
+    })
+  })
+})
+
+function entry(timestamp: string, command: string, cost: number): UsageEntry {
+  return {
+    timestamp,
+    command,
+    provider: 'openai',
+    model: 'gpt-4.1-mini',
+    template: command,
+    promptTokens: 100,
+    completionTokens: 10,
+    cost
+  }
+}
+
+describe('estimateCost', () => {
+  it('should price tokens per million', () => {
+    expect(estimateCost('gpt-4.1-mini', 1_000_000, 1_000_000)).toBeCloseTo(2.0)
+  })
+
+  it('should count unknown models as free', () => {
+    expect(estimateCost('llama3.3', 1_000_000, 1_000_000)).toBe(0)
+  })
+})
+
+describe('createUsageMiddleware', () => {
+  const ledger = join(tmpdir(), `gut-usage-${Date.now()}.jsonl`)
+
+  afterEach(() => {
+    rmSync(ledger, { force: true })
+  })
+
+  it('should record generated and streamed calls in the ledger', async () => {
+    setUsageCommand('commit')
+    const tracked = wrapLanguageModel({
+      model,
+      middleware: createUsageMiddleware('openai', 'gpt-4.1-mini', ledger)
+    })
+
+    await generateText({
+      model: tracked,
+      prompt: 'diff',
+      providerOptions: { gut: { template: 'commit' } }
+    })
+    for await (const _ of streamText({ model: tracked, prompt: 'diff' }).textStream) {
+      // consume the stream
+    }
+
+    const entries = readUsage(ledger)
+    expect(entries).toHaveLength(2)
+    expect(entries[0]).toMatchObject({
+      command: 'commit',
+      provider: 'openai',
+      model: 'gpt-4.1-mini',
+      template: 'commit',
+      promptTokens: 1000,
+      completionTokens: 200
+    })
+    expect(entries[0].cost).toBeCloseTo(0.00072)
+    expect(entries[1]).toMatchObject({ promptTokens: 500, completionTokens: 100 })
+  })
+})
+
+describe('summarizeUsage', () => {
+  const entries = [
+    entry('2026-10-12T10:00:00', 'commit', 0.01),
+    entry('2026-10-13T10:00:00', 'review', 0.05),
+    entry('2026-10-13T11:00:00', 'commit', 0.02),
+    entry('2026-10-19T10:00:00', 'commit', 0.01)
+  ]
+
+  it('should group by day, newest first', () => {
+    const days = summarizeUsage(entries, 'day')
+    expect(days.map((d) => d.key)).toEqual(['2026-10-19', '2026-10-13', '2026-10-12'])
+    expect(days[1]).toMatchObject({ calls: 2, promptTokens: 200, completionTokens: 20 })
+    expect(days[1].cost).toBeCloseTo(0.07)
+  })
+
+  it('should group by week starting on Monday', () => {
+    const weeks = summarizeUsage(entries, 'week')
+    expect(weeks.map((w) => [w.key, w.calls])).toEqual([
+      ['week of 2026-10-19', 1],
+      ['week of 2026-10-12', 3]
+    ])
+  })
+
+  it('should group by command, most expensive first', () => {
+    const commands = summarizeUsage(entries, 'command')
+    expect(commands.map((c) => [c.key, c.calls])).toEqual([
+      ['review', 1],
+      ['commit', 3]
+    ])
+  })
+})
+
+describe('monthly budget', () => {
+  const now = new Date('2026-10-19T12:00:00')
+  const entries = [
+    entry('2026-09-30T10:00:00', 'commit', 5),
+    entry('2026-10-01T10:00:00', 'review', 4),
+    entry('2026-10-18T10:00:00', 'commit', 4.5)
+  ]
+
+  it('should only count spend in the current month', () => {
+    expect(getMonthToDateCost(entries, now)).toBeCloseTo(8.5)
+  })
+
+  it('should warn near and over the budget', () => {
+    expect(getBudgetWarning(entries, 20, now)).toBeNull()
+    expect(getBudgetWarning(entries, 10, now)).toBe(
+      '85% of monthly AI budget used: $8.50 of $10.00'
+    )
+    expect(getBudgetWarning(entries, 8, now)).toBe(
+      'Monthly AI budget exceeded: $8.50 of $8.00 spent'
+    )
+  })
+})
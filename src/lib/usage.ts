@@ -0,0 +1,239 @@
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from 'node:fs'
+import { homedir } from 'node:os'
+import { dirname, join } from 'node:path'
+import type {
+  LanguageModelV1CallOptions,
+  LanguageModelV1Middleware,
+  LanguageModelV1StreamPart
+} from 'ai'
+import { getModelPrice } from './config.js'
+import { getCallTemplate } from './mock.js'
+
+/**
+ * One AI call in the usage ledger
+ */
+export interface UsageEntry {
+  timestamp: string // ISO 8601
+  command: string
+  provider: string
+  model: string
+  template: string
+  promptTokens: number
+  completionTokens: number
+  cost: number // Estimated cost in USD
+}
+
+export type UsageGrouping = 'day' | 'week' | 'command' | 'model'
+
+export interface UsageSummary {
+  key: string
+  calls: number
+  promptTokens: number
+  completionTokens: number
+  cost: number
+}
+
+let currentCommand = 'unknown'
+
+/**
+ * Set the gut command that AI calls in this process are attributed to
+ */
+export function setUsageCommand(command: string): void {
+  currentCommand = command
+}
+
+export function getUsageCommand(): string {
+  return currentCommand
+}
+
+export function getUsageLedgerPath(): string {
+  return join(homedir(), '.config', 'gut', 'usage.jsonl')
+}
+
+/**
+ * Estimate the cost of a call in USD from the model price table
+ */
+export function estimateCost(
+  model: string,
+  promptTokens: number,
+  completionTokens: number
+): number {
+  const price = getModelPrice(model)
+  if (!price) return 0
+  return (promptTokens * price.input + completionTokens * price.output) / 1_000_000
+}
+
+export function recordUsage(entry: UsageEntry, path: string = getUsageLedgerPath()): void {
+  const dir = dirname(path)
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true })
+  }
+  appendFileSync(path, `${JSON.stringify(entry)}\n`)
+}
+
+export function readUsage(path: string = getUsageLedgerPath()): UsageEntry[] {
+  if (!existsSync(path)) return []
+  return readFileSync(path, 'utf-8')
+    .split('\n')
+    .filter((line) => line.trim())
+    .flatMap((line) => {
+      try {
+        return [JSON.parse(line) as UsageEntry]
+      } catch {
+        // Skip partially written lines
+        return []
+      }
+    })
+}
+
+function formatDay(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+/**
+ * Get the Monday starting the week of a date
+ */
+function getWeekStart(date: Date): Date {
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate())
+  start.setDate(start.getDate() - ((start.getDay() + 6) % 7))
+  return start
+}
+
+function getGroupKey(entry: UsageEntry, by: UsageGrouping): string {
+  switch (by) {
+    case 'day':
+      return formatDay(new Date(entry.timestamp))
+    case 'week':
+      return `week of ${formatDay(getWeekStart(new Date(entry.timestamp)))}`
+    case 'command':
+      return entry.command
+    case 'model':
+      return `${entry.provider}/${entry.model}`
+  }
+}
+
+/**
+ * Group usage entries. Time groupings are sorted newest first, others by cost.
+ */
+export function summarizeUsage(entries: UsageEntry[], by: UsageGrouping): UsageSummary[] {
+  const groups = new Map<string, UsageSummary>()
+  for (const entry of entries) {
+    const key = getGroupKey(entry, by)
+    const group = groups.get(key) ?? {
+      key,
+      calls: 0,
+      promptTokens: 0,
+      completionTokens: 0,
+      cost: 0
+    }
+    group.calls++
+    group.promptTokens += entry.promptTokens
+    group.completionTokens += entry.completionTokens
+    group.cost += entry.cost
+    groups.set(key, group)
+  }
+
+  const summaries = [...groups.values()]
+  if (by === 'day' || by === 'week') {
+    return summaries.sort((a, b) => b.key.localeCompare(a.key))
+  }
+  return summaries.sort((a, b) => b.cost - a.cost || b.calls - a.calls)
+}
+
+/**
+ * Get entries recorded since the given date
+ */
+export function filterUsageSince(entries: UsageEntry[], since: Date): UsageEntry[] {
+  return entries.filter((entry) => new Date(entry.timestamp) >= since)
+}
+
+/**
+ * Get the estimated spend for the calendar month of `now`
+ */
+export function getMonthToDateCost(entries: UsageEntry[], now: Date = new Date()): number {
+  const monthStart = new Date(now.getFullYear(), now.getMonth(), 1)
+  return filterUsageSince(entries, monthStart).reduce((total, entry) => total + entry.cost, 0)
+}
+
+/**
+ * Create a middleware that records the token usage of every call into the ledger.
+ * Applied per provider, so calls answered by a fallback provider are attributed to it.
+ */
+export function createUsageMiddleware(
+  provider: string,
+  model: string,
+  path: string = getUsageLedgerPath()
+): LanguageModelV1Middleware {
+  function record(
+    params: LanguageModelV1CallOptions,
+    usage: { promptTokens: number; completionTokens: number }
+  ): void {
+    // Token counts can be NaN when a provider doesn't report usage
+    const promptTokens = Number.isFinite(usage.promptTokens) ? usage.promptTokens : 0
+    const completionTokens = Number.isFinite(usage.completionTokens) ? usage.completionTokens : 0
+    try {
+      recordUsage(
+        {
+          timestamp: new Date().toISOString(),
+          command: getUsageCommand(),
+          provider,
+          model,
+          template: getCallTemplate(params),
+          promptTokens,
+          completionTokens,
+          cost: estimateCost(model, promptTokens, completionTokens)
+        },
+        path
+      )
+    } catch {
+      // Usage accounting must never break a command
+    }
+  }
+
+  return {
+    wrapGenerate: async ({ doGenerate, params }) => {
+      const result = await doGenerate()
+      record(params, result.usage)
+      return result
+    },
+    wrapStream: async ({ doStream, params }) => {
+      const { stream, ...rest } = await doStream()
+      return {
+        stream: stream.pipeThrough(
+          new TransformStream<LanguageModelV1StreamPart, LanguageModelV1StreamPart>({
+            transform(part, controller) {
+              if (part.type === 'finish') {
+                record(params, part.usage)
+              }
+              controller.enqueue(part)
+            }
+          })
+        ),
+        ...rest
+      }
+    }
+  }
+}
+
+// Warn once this share of the monthly budget has been spent
+const BUDGET_WARNING_RATIO = 0.8
+
+/**
+ * Get a warning if month-to-date spend is close to or over the budget
+ */
+export function getBudgetWarning(
+  entries: UsageEntry[],
+  budget: number,
+  now: Date = new Date()
+): string | null {
+  const spent = getMonthToDateCost(entries, now)
+  if (spent >= budget) {
+    return `Monthly AI budget exceeded: $${spent.toFixed(2)} of $${budget.toFixed(2)} spent`
+  }
+  if (spent >= budget * BUDGET_WARNING_RATIO) {
+    return `${Math.round((spent / budget) * 100)}% of monthly AI budget used: $${spent.toFixed(2)} of $${budget.toFixed(2)}`
+  }
+  return null
+}